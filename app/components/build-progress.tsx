@@ -0,0 +1,147 @@
+import {
+	CircleAlert,
+	Download,
+	FileText,
+	type LucideIcon,
+	Package,
+} from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import type { BuildProgressEvent, BuildProgressStatus } from "~/lib/types";
+
+type BuildProgressItem = Extract<BuildProgressEvent, { type: "item" }>;
+
+/** Delay before asking again for a job whose build hasn't started yet. */
+const CONNECT_RETRY_MS = 500;
+/** Give up after this many refused connections, e.g. a rejected form. */
+const MAX_CONNECT_ATTEMPTS = 60;
+
+const STATUS_LABELS: Record<BuildProgressStatus, string> = {
+	fetched: "Fetched",
+	extracted: "Extracted",
+	failed: "Failed",
+	zipped: "In bundle",
+};
+
+const STATUS_ICONS: Record<BuildProgressStatus, LucideIcon> = {
+	fetched: Download,
+	extracted: FileText,
+	failed: CircleAlert,
+	zipped: Package,
+};
+
+/**
+ * Follow a build's progress channel. `start` returns a fresh job id to send
+ * with the form as `jobId`; events for that job stream in over
+ * `/progress/:jobId` until the action is done. The channel only exists once
+ * the action has read the form, so failed connections are retried.
+ */
+export function useBuildProgress() {
+	const [jobId, setJobId] = useState<string | null>(null);
+	const [items, setItems] = useState<BuildProgressItem[]>([]);
+
+	useEffect(() => {
+		if (!jobId) {
+			return;
+		}
+		let source: EventSource | null = null;
+		let retry: ReturnType<typeof setTimeout> | undefined;
+		let attempts = 0;
+		const connect = () => {
+			source = new EventSource(`/progress/${jobId}`);
+			source.onerror = () => {
+				// A 404 closes the source for good; other errors reconnect.
+				if (
+					source?.readyState === EventSource.CLOSED &&
+					++attempts < MAX_CONNECT_ATTEMPTS
+				) {
+					retry = setTimeout(connect, CONNECT_RETRY_MS);
+				}
+			};
+			source.onmessage = onMessage;
+		};
+		const onMessage = (message: MessageEvent<string>) => {
+			const event = JSON.parse(message.data) as BuildProgressEvent;
+			if (event.type === "done") {
+				source?.close();
+				return;
+			}
+			setItems((current) => {
+				const index = current.findIndex((item) => item.id === event.id);
+				if (index === -1) {
+					return [...current, event];
+				}
+				const next = [...current];
+				next[index] = event;
+				return next;
+			});
+		};
+		connect();
+		return () => {
+			clearTimeout(retry);
+			source?.close();
+		};
+	}, [jobId]);
+
+	const start = useCallback(() => {
+		const id = createJobId();
+		setItems([]);
+		setJobId(id);
+		return id;
+	}, []);
+
+	return { items, start };
+}
+
+/**
+ * Live per-item list of a running build.
+ */
+export function BuildProgressList({ items }: { items: BuildProgressItem[] }) {
+	if (items.length === 0) {
+		return <p className="text-sm">Waiting for the first items…</p>;
+	}
+
+	const zipped = items.filter((item) => item.status === "zipped").length;
+	const failed = items.filter((item) => item.status === "failed").length;
+	return (
+		<div className="space-y-3">
+			<p className="text-sm">
+				{zipped} of {items.length} in the bundle
+				{failed > 0 ? ` · ${failed} failed` : ""}
+			</p>
+			<ul className="max-h-96 space-y-1 overflow-y-auto text-sm">
+				{items.map((item) => {
+					const Icon = STATUS_ICONS[item.status];
+					return (
+						<li
+							key={item.id}
+							className="flex items-start gap-3 rounded-md border border-border/20 px-3 py-2"
+						>
+							<Icon
+								className={`mt-0.5 h-4 w-4 shrink-0 ${item.status === "failed" ? "text-amber-400" : ""}`}
+								aria-hidden="true"
+							/>
+							<div className="min-w-0 flex-1">
+								<p className="truncate font-medium">{item.label}</p>
+								{item.detail ? (
+									<p className="text-xs opacity-70">{item.detail}</p>
+								) : null}
+							</div>
+							<span className="shrink-0 text-xs uppercase tracking-wide opacity-80">
+								{STATUS_LABELS[item.status]}
+							</span>
+						</li>
+					);
+				})}
+			</ul>
+		</div>
+	);
+}
+
+// `crypto.randomUUID` is only available in secure contexts, so plain-HTTP
+// deployments fall back to a random base-36 id.
+function createJobId() {
+	if (typeof crypto.randomUUID === "function") {
+		return crypto.randomUUID();
+	}
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
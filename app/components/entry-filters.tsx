@@ -0,0 +1,99 @@
+import type { EntryFilterName, EntryFilterReport } from "~/lib/types";
+import { Input } from "./ui/input";
+
+const FILTER_LABELS: Record<EntryFilterName, string> = {
+	since: "older than the “since” date",
+	until: "newer than the “until” date",
+	include: "not matching the include keywords",
+	exclude: "matching the exclude keywords",
+	minWords: "below the minimum word count",
+};
+
+/**
+ * Optional date, keyword and length filters submitted with a builder form and
+ * read on the server by `parseEntryFilters`.
+ */
+export function EntryFilterFields({
+	showMinWords = true,
+}: {
+	showMinWords?: boolean;
+}) {
+	return (
+		<details className="rounded-md border border-border/40 p-4">
+			<summary className="cursor-pointer text-sm font-medium">
+				Filter entries
+			</summary>
+			<div className="mt-4 grid gap-4 sm:grid-cols-2">
+				<div className="flex flex-col gap-2">
+					<label className="text-sm font-medium" htmlFor="since">
+						Published since
+					</label>
+					<Input id="since" name="since" type="date" />
+				</div>
+				<div className="flex flex-col gap-2">
+					<label className="text-sm font-medium" htmlFor="until">
+						Published until
+					</label>
+					<Input id="until" name="until" type="date" />
+				</div>
+				<div className="flex flex-col gap-2">
+					<label className="text-sm font-medium" htmlFor="include">
+						Include keywords
+					</label>
+					<Input
+						id="include"
+						name="include"
+						placeholder="rust, /web ?assembly/i"
+						aria-describedby="keywords-help"
+					/>
+				</div>
+				<div className="flex flex-col gap-2">
+					<label className="text-sm font-medium" htmlFor="exclude">
+						Exclude keywords
+					</label>
+					<Input
+						id="exclude"
+						name="exclude"
+						placeholder="sponsored, hiring"
+						aria-describedby="keywords-help"
+					/>
+				</div>
+				{showMinWords ? (
+					<div className="flex flex-col gap-2">
+						<label className="text-sm font-medium" htmlFor="minWords">
+							Minimum words
+						</label>
+						<Input id="minWords" name="minWords" type="number" min={0} />
+					</div>
+				) : null}
+			</div>
+			<p id="keywords-help" className="mt-3 text-sm">
+				Separate keywords with commas. They match the title and body, ignoring
+				case; wrap a term in slashes to use a regular expression. Filters run
+				before the entry limit.
+			</p>
+		</details>
+	);
+}
+
+/**
+ * Lists the filters that removed entries, if any did.
+ */
+export function EntryFilterSummary({ report }: { report: EntryFilterReport }) {
+	const removals = (Object.keys(FILTER_LABELS) as EntryFilterName[]).filter(
+		(name) => report[name] > 0,
+	);
+	if (removals.length === 0) {
+		return <p>No entries were removed by your filters.</p>;
+	}
+	return (
+		<ul className="list-disc space-y-1 pl-5">
+			{removals.map((name) => (
+				<li key={name}>
+					{report[name]} {report[name] === 1 ? "entry" : "entries"}{" "}
+					{FILTER_LABELS[name]}
+				</li>
+			))}
+		</ul>
+	);
+}
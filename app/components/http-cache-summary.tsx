@@ -0,0 +1,26 @@
+import type { HttpCacheStats } from "~/lib/types";
+
+/**
+ * One line on how many of a build's requests the HTTP cache answered.
+ * Nothing is shown when the build made no requests (or the cache is off).
+ */
+export function HttpCacheSummary({
+	stats,
+	className = "text-xs text-emerald-200/80",
+}: {
+	stats: HttpCacheStats;
+	className?: string;
+}) {
+	const requests = stats.hits + stats.revalidated + stats.misses;
+	if (requests === 0 && stats.reused === 0) {
+		return null;
+	}
+	const parts = [
+		`${stats.hits} of ${requests} ${requests === 1 ? "request" : "requests"} served from cache`,
+		stats.revalidated > 0 ? `${stats.revalidated} revalidated` : null,
+		stats.reused > 0
+			? `${stats.reused} ${stats.reused === 1 ? "page" : "pages"} not re-extracted`
+			: null,
+	].filter(Boolean);
+	return <p className={className}>{parts.join(", ")}.</p>;
+}
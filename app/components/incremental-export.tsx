@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import type { IncrementalReport } from "~/lib/types";
+import { Input } from "./ui/input";
+
+const STATE_TOKEN_KEY = "exportStateToken";
+
+/**
+ * Optional fields that limit a build to what's new since an earlier export,
+ * read on the server by `parseIncrementalOptions`. The server keeps the state
+ * of earlier exports under a random token this browser creates and sends
+ * along, so only exports from the same browser are compared.
+ */
+export function IncrementalExportFields() {
+	const [stateToken, setStateToken] = useState("");
+
+	useEffect(() => {
+		try {
+			let token = localStorage.getItem(STATE_TOKEN_KEY);
+			if (!token) {
+				token = crypto.randomUUID();
+				localStorage.setItem(STATE_TOKEN_KEY, token);
+			}
+			setStateToken(token);
+		} catch {
+			// Without storage the server reports the missing token.
+		}
+	}, []);
+
+	return (
+		<details className="rounded-md border border-border/40 p-4">
+			<summary className="cursor-pointer text-sm font-medium">
+				Only new entries
+			</summary>
+			<div className="mt-4 flex flex-col gap-4">
+				<div className="flex flex-col gap-2">
+					<label className="text-sm font-medium" htmlFor="previousManifest">
+						Previous bundle
+					</label>
+					<Input
+						id="previousManifest"
+						name="previousManifest"
+						type="file"
+						accept=".json,.zip,application/json,application/zip"
+						aria-describedby="previousManifest-help"
+					/>
+					<p id="previousManifest-help" className="text-sm">
+						Upload the <code>manifest.json</code> or ZIP of an earlier bundle to
+						leave out every entry it already has, matched by GUID or URL.
+					</p>
+				</div>
+				<div className="flex items-start gap-3">
+					<input type="hidden" name="stateToken" value={stateToken} />
+					<input
+						id="sinceLastExport"
+						name="sinceLastExport"
+						type="checkbox"
+						className="mt-1 h-4 w-4 accent-primary"
+						aria-describedby="sinceLastExport-help"
+					/>
+					<div className="flex flex-col gap-1">
+						<label className="text-sm font-medium" htmlFor="sinceLastExport">
+							Since the last export from this browser
+						</label>
+						<p id="sinceLastExport-help" className="text-sm">
+							Skips entries this browser exported from this source before
+							(unless a bundle is uploaded) and remembers this export for next
+							time.
+						</p>
+					</div>
+				</div>
+			</div>
+		</details>
+	);
+}
+
+/**
+ * Which earlier export a bundle was compared against and what it left out.
+ */
+export function IncrementalSummary({ report }: { report: IncrementalReport }) {
+	const { previousBundle, droppedDuplicates } = report;
+	const label =
+		previousBundle.source === "manifest"
+			? (previousBundle.fileName ?? "the uploaded bundle")
+			: "the last export";
+	const date = previousBundle.generatedAt?.slice(0, 10);
+	const count = droppedDuplicates.length;
+	return (
+		<div className="space-y-1">
+			<p>
+				Skipped {count} {count === 1 ? "entry" : "entries"} already in {label}
+				{date ? ` (${date})` : ""}.
+			</p>
+			{count > 0 ? (
+				<details>
+					<summary className="cursor-pointer">Skipped entries</summary>
+					<ul className="mt-1 list-disc space-y-1 pl-5">
+						{droppedDuplicates.map((entry) => (
+							<li key={`${entry.matchedOn}:${entry.guid ?? entry.url}`}>
+								<a
+									href={entry.url}
+									target="_blank"
+									rel="noreferrer"
+									className="underline decoration-dotted underline-offset-4"
+								>
+									{entry.title}
+								</a>
+							</li>
+						))}
+					</ul>
+				</details>
+			) : null}
+		</div>
+	);
+}
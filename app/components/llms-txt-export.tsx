@@ -0,0 +1,62 @@
+import { FileText } from "lucide-react";
+import type { LLMsTxtExport } from "~/lib/types";
+
+/**
+ * Checkbox asking a builder to also export its bundle as an llms.txt and
+ * llms-full.txt, read on the server as `llmsTxt`.
+ */
+export function LLMsTxtExportField({ id = "llmsTxt" }: { id?: string }) {
+	return (
+		<div className="flex items-start gap-3">
+			<input
+				id={id}
+				name="llmsTxt"
+				type="checkbox"
+				className="mt-1 h-4 w-4 accent-primary"
+				aria-describedby={`${id}-help`}
+			/>
+			<div className="flex flex-col gap-1">
+				<label className="text-sm font-medium" htmlFor={id}>
+					Also export llms.txt
+				</label>
+				<p id={`${id}-help`} className="text-sm">
+					Adds an llms.txt index linking every source and an llms-full.txt with
+					their content, for tools other than NotebookLM.
+				</p>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Download links for an exported llms.txt and llms-full.txt.
+ */
+export function LLMsTxtExportLinks({
+	exported,
+	className = "inline-flex items-center justify-center gap-2 rounded-lg border border-emerald-400/40 px-4 py-2 text-sm font-medium text-emerald-100 transition hover:bg-emerald-400/10",
+}: {
+	exported: LLMsTxtExport;
+	className?: string;
+}) {
+	return (
+		<>
+			<a
+				href={exported.index.url}
+				download={exported.index.fileName}
+				className={className}
+			>
+				<FileText className="h-4 w-4" aria-hidden="true" />
+				Download llms.txt
+			</a>
+			<a
+				href={exported.full.url}
+				download={exported.full.fileName}
+				className={className}
+			>
+				<FileText className="h-4 w-4" aria-hidden="true" />
+				Download llms-full.txt ({exported.full.wordCount.toLocaleString()}{" "}
+				words)
+			</a>
+		</>
+	);
+}
@@ -0,0 +1,160 @@
+import { Readability } from "@mozilla/readability";
+import { convert } from "html-to-text";
+import { JSDOM } from "jsdom";
+import {
+	type FetchSchedulerOptions,
+	type ScheduledTaskResult,
+	scheduleFetches,
+} from "./fetch-scheduler";
+import { cachedFetch, cachedValue, hashContent } from "./http-cache";
+import type { EntryFetchFailure, FeedEntry } from "./types";
+
+export const BROWSER_USER_AGENT =
+	"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/58.0.3029.110 Safari/537.36";
+
+export const EMPTY_BODY_PLACEHOLDER = "(No body content provided by the feed)";
+
+/**
+ * Convert feed-provided HTML into plain text suitable for NotebookLM.
+ */
+export function htmlToPlainText(html: string) {
+	return convert(html, {
+		selectors: [
+			{ selector: "img", format: "skip" },
+			{ selector: "a", options: { hideLinkHrefIfSameAsText: true } },
+		],
+		wordwrap: false,
+		preserveNewlines: true,
+	}).trim();
+}
+
+/**
+ * Run Readability over an HTML document and return the article text.
+ */
+export function extractArticleText(html: string, url: string) {
+	return extractArticle(html, url)?.text ?? null;
+}
+
+/**
+ * Run Readability over an HTML document and return the article title and
+ * text, or `null` when no article content is found.
+ */
+export function extractArticle(html: string, url: string) {
+	const dom = new JSDOM(html, { url });
+	const reader = new Readability(dom.window.document);
+	const article = reader.parse();
+	const text = article?.textContent?.trim() ?? "";
+	if (text.length === 0) {
+		return null;
+	}
+	return { title: article?.title?.trim() || null, text };
+}
+
+/**
+ * `extractArticle` backed by the HTTP cache, so a page whose HTML is
+ * unchanged since an earlier build isn't run through Readability again.
+ */
+export function extractCachedArticle(html: string, url: string) {
+	return cachedValue("articles", [url, hashContent(html)], () =>
+		extractArticle(html, url),
+	);
+}
+
+/**
+ * Fetch a page and extract its article text. Throws when the request fails;
+ * resolves to `null` when Readability cannot find any article content.
+ */
+export async function fetchArticleContent(
+	url: string,
+	{ signal }: { signal?: AbortSignal } = {},
+): Promise<string | null> {
+	const response = await cachedFetch(url, {
+		headers: {
+			"User-Agent": BROWSER_USER_AGENT,
+		},
+		signal,
+	});
+	if (!response.ok) {
+		throw new Error(`Failed to fetch article (status ${response.status})`);
+	}
+	const html = await response.text();
+	return (await extractCachedArticle(html, url))?.text ?? null;
+}
+
+export type ArticleResult = {
+	text: string | null;
+	failure: EntryFetchFailure | null;
+};
+
+/**
+ * Fetch and extract many articles through the shared fetch scheduler so slow
+ * or unresponsive hosts cannot stall a build. `onResult` is called as each
+ * article settles, in completion order.
+ */
+export async function fetchArticles(
+	urls: string[],
+	{
+		scheduler,
+		onResult,
+	}: {
+		scheduler?: FetchSchedulerOptions;
+		onResult?: (result: ArticleResult, index: number) => void;
+	} = {},
+): Promise<ArticleResult[]> {
+	const articles: ArticleResult[] = [];
+	await scheduleFetches(
+		urls,
+		(url, signal) => fetchArticleContent(url, { signal }),
+		scheduler,
+		(result, index) => {
+			articles[index] = toArticleResult(result, urls[index]);
+			onResult?.(articles[index], index);
+		},
+	);
+	return articles;
+}
+
+function toArticleResult(
+	result: ScheduledTaskResult<string | null>,
+	url: string,
+): ArticleResult {
+	if (!result.ok) {
+		console.error(`Error fetching article ${url}:`, result.error);
+		return {
+			text: null,
+			failure: { reason: result.reason, message: result.error },
+		};
+	}
+	if (!result.value) {
+		return {
+			text: null,
+			failure: {
+				reason: "empty",
+				message: "No readable article content found",
+			},
+		};
+	}
+	return { text: result.value, failure: null };
+}
+
+/**
+ * Pick the entry body: the extracted article when available, otherwise the
+ * text the feed shipped with the item.
+ */
+export function resolveEntryContent(
+	article: ArticleResult | null,
+	feedText: string,
+): Pick<FeedEntry, "textContent" | "contentSource" | "fetchFailure"> {
+	if (article?.text) {
+		return {
+			textContent: article.text,
+			contentSource: "article",
+			fetchFailure: null,
+		};
+	}
+	return {
+		textContent: feedText.length > 0 ? feedText : EMPTY_BODY_PLACEHOLDER,
+		contentSource: "feed",
+		fetchFailure: article?.failure ?? null,
+	};
+}
@@ -0,0 +1,64 @@
+/**
+ * Choices and limits offered by the builder forms and enforced again by their
+ * actions. Route components render these, so this module must stay free of
+ * server-only imports (jsdom, `node:*`) to keep them out of the client bundle.
+ */
+
+export type HackerNewsList =
+	| "frontpage"
+	| "best"
+	| "newest"
+	| "ask"
+	| "show"
+	| "points";
+
+export const HACKERNEWS_LISTS: Record<
+	HackerNewsList,
+	{ label: string; path: string }
+> = {
+	frontpage: { label: "Front page", path: "/frontpage" },
+	best: { label: "Best", path: "/best" },
+	newest: { label: "Newest", path: "/newest" },
+	ask: { label: "Ask HN", path: "/ask" },
+	show: { label: "Show HN", path: "/show" },
+	points: { label: "Points threshold", path: "/newest" },
+};
+
+export const DEFAULT_POINTS_THRESHOLD = 100;
+
+/**
+ * Comments fetched per story at most, whatever the count and depth: every
+ * comment is one request to the HN item API.
+ */
+export const MAX_COMMENTS_PER_STORY = 50;
+
+export function isHackerNewsList(value: unknown): value is HackerNewsList {
+	return typeof value === "string" && Object.hasOwn(HACKERNEWS_LISTS, value);
+}
+
+export const REDDIT_SORTS = ["hot", "new", "top", "rising"] as const;
+export type RedditSort = (typeof REDDIT_SORTS)[number];
+
+export const REDDIT_TIME_WINDOWS = [
+	"hour",
+	"day",
+	"week",
+	"month",
+	"year",
+	"all",
+] as const;
+export type RedditTimeWindow = (typeof REDDIT_TIME_WINDOWS)[number];
+
+/** File types the documents builder accepts. */
+export const DOCUMENT_EXTENSIONS = ["pdf", "docx", "epub", "md", "txt"];
+
+/** Upper bound for the pages of one sitemap crawl. */
+export const MAX_SITEMAP_PAGES = 200;
+
+/** Upper bound for the links followed from one llms.txt. */
+export const MAX_FOLLOWED_LINKS = 200;
+
+/** NotebookLM accepts up to 500,000 words per source; stay below it. */
+export const DEFAULT_DIGEST_MAX_WORDS = 400_000;
+export const MAX_DIGEST_MAX_WORDS = 500_000;
+export const DEFAULT_DIGEST_MAX_BYTES = 5 * 1024 * 1024;
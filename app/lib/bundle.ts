@@ -0,0 +1,285 @@
+import JSZip from "jszip";
+import type {
+	BundleEntrySummary,
+	EntryComment,
+	FeedEntry,
+	FeedGroup,
+	IncrementalReport,
+	SourceFormat,
+} from "./types";
+
+export const BUNDLE_SCHEMA_URL =
+	"https://notebooklm.google.com/schemas/source-bundle.v1.json";
+
+const SUMMARY_LENGTH = 320;
+
+export type BundleSource = {
+	title: string;
+	description: string | null;
+	url: string | null;
+	format?: SourceFormat;
+};
+
+export type BundleFileContent = string | Uint8Array | ArrayBuffer | Blob;
+
+/**
+ * Collects entries and raw files for a NotebookLM source bundle and packages
+ * them as a ZIP with `manifest.json`, `sources.json` and one Markdown file per
+ * entry. Bundles without entries (e.g. repository conversions) only contain
+ * the raw files that were added.
+ */
+export class SourceBundle {
+	readonly source: BundleSource;
+	readonly createdAt: Date;
+	private readonly entries: FeedEntry[] = [];
+	private readonly groups: FeedGroup[] = [];
+	private readonly files = new Map<string, BundleFileContent>();
+	private readonly fileName: string | null;
+	private incremental: IncrementalReport | null = null;
+
+	constructor(
+		source: BundleSource,
+		options: { fileName?: string; createdAt?: Date } = {},
+	) {
+		this.source = source;
+		this.createdAt = options.createdAt ?? new Date();
+		this.fileName = options.fileName ?? null;
+	}
+
+	addEntry(entry: FeedEntry) {
+		this.entries.push(entry);
+		return this;
+	}
+
+	addEntries(entries: Iterable<FeedEntry>) {
+		for (const entry of entries) {
+			this.addEntry(entry);
+		}
+		return this;
+	}
+
+	addGroup(group: FeedGroup) {
+		this.groups.push(group);
+		return this;
+	}
+
+	addFile(path: string, content: BundleFileContent) {
+		this.files.set(path, content);
+		return this;
+	}
+
+	/**
+	 * Mark the bundle as holding only what's new since `previousBundle`; the
+	 * manifest records it and the entries left out as duplicates.
+	 */
+	setIncremental(report: IncrementalReport) {
+		this.incremental = report;
+		return this;
+	}
+
+	getEntries(): readonly FeedEntry[] {
+		return this.entries;
+	}
+
+	getGroups(): readonly FeedGroup[] {
+		return this.groups;
+	}
+
+	getFileName() {
+		return (
+			this.fileName ??
+			`${slugify(this.source.title)}-${this.createdAt.toISOString().slice(0, 10)}.zip`
+		);
+	}
+
+	buildManifest() {
+		return {
+			$schema: BUNDLE_SCHEMA_URL,
+			generatedAt: this.createdAt.toISOString(),
+			feed: {
+				title: this.source.title,
+				description: this.source.description,
+				url: this.source.url,
+				format: this.source.format ?? null,
+			},
+			...(this.groups.length > 0
+				? {
+						groups: this.groups.map((group) => ({
+							...group,
+							entries: this.entries
+								.filter((entry) => entry.group === group.id)
+								.map((entry) => entry.id),
+						})),
+					}
+				: {}),
+			...(this.incremental
+				? {
+						previousBundle: this.incremental.previousBundle,
+						droppedDuplicates: this.incremental.droppedDuplicates,
+					}
+				: {}),
+			entries: this.entries.map((entry) => ({
+				id: entry.id,
+				title: entry.title,
+				url: entry.url,
+				publishedAt: entry.publishedAt,
+				updatedAt: entry.updatedAt ?? null,
+				guid: entry.guid ?? null,
+				authors: entry.authors ?? [],
+				categories: entry.categories ?? [],
+				enclosures: entry.enclosures ?? [],
+				wordCount: countWords(entry.textContent),
+				contentSource: entry.contentSource ?? "feed",
+				group: entry.group ?? null,
+				tags: entry.tags ?? [],
+				commentCount: countComments(entry.comments ?? []),
+				file: getEntryFileName(entry),
+			})),
+		};
+	}
+
+	buildSources() {
+		return {
+			version: 1,
+			createdAt: this.createdAt.toISOString(),
+			entries: this.entries.map((entry) => ({
+				id: entry.id,
+				title: entry.title,
+				url: entry.url,
+				publishedAt: entry.publishedAt,
+				text: entry.textContent,
+			})),
+		};
+	}
+
+	toZip() {
+		const zip = new JSZip();
+		if (this.entries.length > 0) {
+			zip.file("manifest.json", JSON.stringify(this.buildManifest(), null, 2));
+			for (const entry of this.entries) {
+				zip.file(getEntryFileName(entry), renderEntryMarkdown(entry));
+			}
+			zip.file("sources.json", JSON.stringify(this.buildSources(), null, 2));
+		}
+		for (const [path, content] of this.files) {
+			zip.file(path, content);
+		}
+		return zip;
+	}
+
+	async toUint8Array() {
+		const data = await this.toZip().generateAsync({ type: "uint8array" });
+		return { data, fileName: this.getFileName() };
+	}
+
+	async toBlob() {
+		const blob = await this.toZip().generateAsync({
+			type: "blob",
+			mimeType: "application/zip",
+		});
+		return { blob, fileName: this.getFileName() };
+	}
+}
+
+export function getEntryFileName(entry: FeedEntry) {
+	return `${entry.id}.md`;
+}
+
+/**
+ * Render a single entry as the Markdown document stored in the bundle.
+ */
+export function renderEntryMarkdown(entry: FeedEntry) {
+	const headerLines = [
+		`# ${entry.title}`,
+		entry.publishedAt ? `Published: ${entry.publishedAt}` : null,
+		entry.updatedAt && entry.updatedAt !== entry.publishedAt
+			? `Updated: ${entry.updatedAt}`
+			: null,
+		entry.authors?.length ? `Authors: ${entry.authors.join(", ")}` : null,
+		entry.categories?.length
+			? `Categories: ${entry.categories.join(", ")}`
+			: null,
+		entry.tags?.length ? `Tags: ${entry.tags.join(", ")}` : null,
+		`Source: ${entry.url}`,
+		"",
+	].filter(Boolean);
+	const discussion = entry.comments?.length
+		? `\n## Discussion\n\n${renderComments(entry.comments, 0)}\n`
+		: "";
+	return `${headerLines.join("\n")}\n${entry.textContent}\n${discussion}`;
+}
+
+/**
+ * Render comments as a nested Markdown list, one indentation level per reply
+ * level, with multi-line comment bodies kept inside their list item.
+ */
+function renderComments(comments: EntryComment[], level: number): string {
+	const indent = "  ".repeat(level);
+	return comments
+		.map((comment) => {
+			const byline = [
+				`**${comment.author ?? "unknown"}**`,
+				comment.postedAt ? `(${comment.postedAt})` : null,
+			]
+				.filter(Boolean)
+				.join(" ");
+			const body = comment.text
+				.trim()
+				.split("\n")
+				.map((line) => (line.trim() ? `${indent}  ${line}` : ""))
+				.join("\n");
+			const replies = comment.replies.length
+				? `\n${renderComments(comment.replies, level + 1)}`
+				: "";
+			return `${indent}- ${byline}\n${body}${replies}`;
+		})
+		.join("\n");
+}
+
+export function countComments(comments: EntryComment[]): number {
+	return comments.reduce(
+		(total, comment) => total + 1 + countComments(comment.replies),
+		0,
+	);
+}
+
+/**
+ * Shape an entry for the `entries` list returned by the builder actions.
+ */
+export function summarizeEntry(entry: FeedEntry): BundleEntrySummary {
+	return {
+		id: entry.id,
+		title: entry.title,
+		url: entry.url,
+		publishedAt: entry.publishedAt,
+		wordCount: countWords(entry.textContent),
+		summary: entry.textContent.slice(0, SUMMARY_LENGTH),
+		contentSource: entry.contentSource ?? "feed",
+		fetchFailure: entry.fetchFailure ?? null,
+		group: entry.group ?? null,
+		commentCount: countComments(entry.comments ?? []),
+	};
+}
+
+export function createEntryId(index: number, title: string) {
+	const short = normalizeSlug(title).slice(0, 48);
+	return `${index.toString().padStart(2, "0")}-${short.length > 0 ? short : "entry"}`;
+}
+
+export function slugify(input: string) {
+	const normalized = normalizeSlug(input);
+	return normalized.length > 0 ? normalized : "notebooklm-source";
+}
+
+function normalizeSlug(input: string) {
+	return input
+		.toLowerCase()
+		.normalize("NFD")
+		.replace(/[^\p{Letter}\p{Number}]+/gu, "-")
+		.replace(/-+/g, "-")
+		.replace(/^-|-$/g, "");
+}
+
+export function countWords(text: string) {
+	return text.split(/\s+/).filter(Boolean).length;
+}
@@ -0,0 +1,411 @@
+/** Symbols beyond this are summarized as a count in the header. */
+const MAX_LISTED_SYMBOLS = 40;
+const MAX_LISTED_IMPORTS = 40;
+
+export type CodeSymbol = {
+	kind: string;
+	name: string;
+	exported: boolean;
+};
+
+export type CodeOutline = {
+	language: string;
+	/** How the language marks public symbols, e.g. `export` or `pub`. */
+	exportKeyword: string;
+	lineCount: number;
+	symbols: CodeSymbol[];
+	/** Imports that resolve to files in the same archive, as archive paths. */
+	internalImports: string[];
+	/** Everything else: packages, standard library modules, unresolved paths. */
+	externalImports: string[];
+};
+
+type SymbolPattern = {
+	regex: RegExp;
+	kind?: string;
+	exported?: boolean;
+};
+
+type LanguageParser = {
+	name: string;
+	exportKeyword?: string;
+	symbols: SymbolPattern[];
+	imports: (text: string) => string[];
+	/** Map an import to candidate archive paths, given the importing file. */
+	resolve?: (specifier: string, path: string) => string[];
+};
+
+const JS_EXTENSIONS = ["ts", "tsx", "js", "jsx", "mjs", "cjs"];
+
+const JAVASCRIPT: Omit<LanguageParser, "name"> = {
+	symbols: [
+		{
+			regex:
+				/^export\s+(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?<kind>function)\*?\s+(?<name>[\w$]+)/gm,
+			exported: true,
+		},
+		{
+			regex:
+				/^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?<kind>class|interface|type|enum|const|let|var)\s+(?<name>[\w$]+)/gm,
+			exported: true,
+		},
+		{
+			regex: /^(?:async\s+)?(?<kind>function)\*?\s+(?<name>[\w$]+)/gm,
+		},
+		{
+			regex:
+				/^(?:abstract\s+)?(?<kind>class|interface|type|enum)\s+(?<name>[\w$]+)/gm,
+		},
+	],
+	imports: (text) => [
+		...matchAll(
+			text,
+			/^\s*(?:import|export)\s+(?:type\s+)?(?:[^'";]*?\s+from\s+)?['"]([^'"]+)['"]/gm,
+		),
+		...matchAll(text, /\b(?:require|import)\(\s*['"]([^'"]+)['"]\s*\)/g),
+	],
+	resolve: (specifier, path) => {
+		if (!specifier.startsWith(".")) return [];
+		const target = joinPath(dirname(path), specifier);
+		// TypeScript imports compiled `.js` names for `.ts` sources.
+		const stem = target.replace(/\.(?:m|c)?js$/, "");
+		return [
+			target,
+			...JS_EXTENSIONS.map((extension) => `${stem}.${extension}`),
+			...JS_EXTENSIONS.map((extension) => `${target}/index.${extension}`),
+			`${target}.json`,
+		];
+	},
+};
+
+const PYTHON: LanguageParser = {
+	name: "Python",
+	symbols: [
+		{ regex: /^(?:async\s+)?(?<kind>def)\s+(?<name>\w+)/gm },
+		{ regex: /^(?<kind>class)\s+(?<name>\w+)/gm },
+	],
+	imports: (text) => [
+		...matchAll(text, /^\s*from\s+(\.*[\w.]*)\s+import\b/gm),
+		...matchAll(text, /^\s*import\s+([\w.]+(?:\s*,\s*[\w.]+)*)/gm).flatMap(
+			(modules) => modules.split(/\s*,\s*/),
+		),
+	],
+	resolve: (specifier, path) => {
+		const dots = /^\.*/.exec(specifier)?.[0].length ?? 0;
+		let base = "";
+		if (dots > 0) {
+			base = dirname(path);
+			for (let level = 1; level < dots; level++) {
+				base = dirname(base);
+			}
+		}
+		const modulePath = specifier.slice(dots).split(".").filter(Boolean);
+		const target = [base, ...modulePath].filter(Boolean).join("/");
+		return [`${target}.py`, `${target}/__init__.py`];
+	},
+};
+
+const GO: LanguageParser = {
+	name: "Go",
+	symbols: [
+		{
+			regex: /^(?<kind>func)\s+(?:\([^)]*\)\s*)?(?<name>\w+)/gm,
+		},
+		{
+			regex: /^type\s+(?<name>\w+)\s+(?<kind>struct|interface)\b/gm,
+		},
+	],
+	imports: (text) => [
+		...matchAll(text, /^import\s+(?:\w+\s+)?"([^"]+)"/gm),
+		...matchAll(text, /^import\s*\(([\s\S]*?)^\)/gm).flatMap((block) =>
+			matchAll(block, /"([^"]+)"/g),
+		),
+	],
+};
+
+const RUST: LanguageParser = {
+	name: "Rust",
+	exportKeyword: "pub",
+	symbols: [
+		{
+			regex:
+				/^\s*pub(?:\([^)]*\))?\s+(?:async\s+)?(?<kind>fn|struct|enum|trait|mod|type|const)\s+(?<name>\w+)/gm,
+			exported: true,
+		},
+		{
+			regex: /^(?:async\s+)?(?<kind>fn|struct|enum|trait|mod)\s+(?<name>\w+)/gm,
+		},
+	],
+	imports: (text) => [
+		...matchAll(text, /^\s*(?:pub\s+)?use\s+([^;{]+?)(?:::\{[^;]*\})?\s*;/gm),
+		...matchAll(text, /^\s*(?:pub\s+)?mod\s+(\w+)\s*;/gm).map(
+			(name) => `mod ${name}`,
+		),
+	],
+	resolve: (specifier, path) => {
+		const name = /^mod (\w+)$/.exec(specifier)?.[1];
+		if (!name) return [];
+		const base = dirname(path);
+		return [joinPath(base, `${name}.rs`), joinPath(base, `${name}/mod.rs`)];
+	},
+};
+
+const JVM_LIKE_SYMBOLS: SymbolPattern[] = [
+	{
+		regex:
+			/^\s*(?:(?:public|private|protected|internal|abstract|final|sealed|static|data|open|partial|case)\s+)*(?<kind>class|interface|enum|record|object|struct|trait)\s+(?<name>\w+)/gm,
+	},
+];
+
+const JVM_LIKE: Omit<LanguageParser, "name"> = {
+	symbols: JVM_LIKE_SYMBOLS,
+	imports: (text) => [
+		...matchAll(text, /^\s*import\s+(?:static\s+)?([\w.*]+)/gm),
+		...matchAll(text, /^\s*using\s+(?:static\s+)?([\w.]+)\s*;/gm),
+	],
+};
+
+const RUBY: LanguageParser = {
+	name: "Ruby",
+	symbols: [
+		{ regex: /^\s*(?<kind>class|module)\s+(?<name>[\w:]+)/gm },
+		{ regex: /^(?<kind>def)\s+(?<name>(?:self\.)?\w+[?!=]?)/gm },
+	],
+	imports: (text) => [
+		...matchAll(text, /^\s*require_relative\s+['"]([^'"]+)['"]/gm).map(
+			(target) => (target.startsWith(".") ? target : `./${target}`),
+		),
+		...matchAll(text, /^\s*require\s+['"]([^'"]+)['"]/gm),
+	],
+	resolve: (specifier, path) =>
+		specifier.startsWith(".")
+			? [joinPath(dirname(path), specifier.replace(/(?:\.rb)?$/, ".rb"))]
+			: [],
+};
+
+const PHP: LanguageParser = {
+	name: "PHP",
+	symbols: [
+		{
+			regex:
+				/^\s*(?:(?:abstract|final|readonly)\s+)*(?<kind>class|interface|trait|enum)\s+(?<name>\w+)/gm,
+		},
+		{ regex: /^(?<kind>function)\s+(?<name>\w+)/gm },
+	],
+	imports: (text) => [
+		...matchAll(text, /^\s*use\s+([\w\\]+)/gm),
+		...matchAll(
+			text,
+			/\b(?:require|include)(?:_once)?\s*\(?\s*['"]([^'"]+)['"]/g,
+		),
+	],
+	resolve: (specifier, path) =>
+		specifier.includes("/") ? [joinPath(dirname(path), specifier)] : [],
+};
+
+const C_LIKE: Omit<LanguageParser, "name"> = {
+	symbols: [
+		{
+			regex: /^\s*(?<kind>class|struct|enum|namespace)\s+(?<name>\w+)\s*[{:]/gm,
+		},
+	],
+	imports: (text) => matchAll(text, /^\s*#\s*include\s*[<"]([^>"]+)[>"]/gm),
+	resolve: (specifier, path) => [joinPath(dirname(path), specifier), specifier],
+};
+
+const SHELL: LanguageParser = {
+	name: "Shell",
+	symbols: [
+		{
+			regex: /^(?:function\s+)?(?<name>[\w-]+)\s*\(\)\s*\{/gm,
+			kind: "function",
+		},
+	],
+	imports: (text) => matchAll(text, /^\s*(?:source|\.)\s+['"]?([^\s'"]+)/gm),
+	resolve: (specifier, path) => [joinPath(dirname(path), specifier)],
+};
+
+const PARSERS: Record<string, LanguageParser> = {
+	ts: { name: "TypeScript", ...JAVASCRIPT },
+	tsx: { name: "TypeScript (JSX)", ...JAVASCRIPT },
+	js: { name: "JavaScript", ...JAVASCRIPT },
+	jsx: { name: "JavaScript (JSX)", ...JAVASCRIPT },
+	py: PYTHON,
+	go: GO,
+	rs: RUST,
+	java: { name: "Java", ...JVM_LIKE },
+	kt: { name: "Kotlin", ...JVM_LIKE },
+	scala: { name: "Scala", ...JVM_LIKE },
+	cs: { name: "C#", ...JVM_LIKE },
+	rb: RUBY,
+	php: PHP,
+	c: { name: "C", ...C_LIKE },
+	h: { name: "C header", ...C_LIKE },
+	cpp: { name: "C++", ...C_LIKE },
+	hpp: { name: "C++ header", ...C_LIKE },
+	sh: SHELL,
+	bash: SHELL,
+};
+
+// Languages without a parser still get a name in the header.
+const LANGUAGE_NAMES: Record<string, string> = {
+	css: "CSS",
+	dart: "Dart",
+	elm: "Elm",
+	erl: "Erlang",
+	ex: "Elixir",
+	exs: "Elixir",
+	fs: "F#",
+	fsx: "F#",
+	hs: "Haskell",
+	html: "HTML",
+	json: "JSON",
+	less: "Less",
+	lhs: "Haskell",
+	lua: "Lua",
+	m: "Objective-C",
+	pl: "Perl",
+	pm: "Perl",
+	r: "R",
+	scss: "SCSS",
+	sql: "SQL",
+	svelte: "Svelte",
+	swift: "Swift",
+	t: "Perl",
+	vue: "Vue",
+	xml: "XML",
+	yaml: "YAML",
+	yml: "YAML",
+};
+
+/**
+ * Outline a source file with regular-expression parsers: the language, line
+ * count, top-level symbols and imports. Imports are split into files of the
+ * same archive (matched against `knownPaths`) and everything else. This is a
+ * lightweight approximation, not a real parser; unknown languages only get a
+ * name and a line count.
+ */
+export function outlineSourceFile(
+	path: string,
+	text: string,
+	knownPaths: ReadonlySet<string>,
+): CodeOutline {
+	const extension = path.split(".").pop()?.toLowerCase() ?? "";
+	const parser = PARSERS[extension];
+	const outline: CodeOutline = {
+		language: parser?.name ?? LANGUAGE_NAMES[extension] ?? extension,
+		exportKeyword: parser?.exportKeyword ?? "export",
+		lineCount:
+			text.length === 0 ? 0 : text.replace(/\n$/, "").split("\n").length,
+		symbols: [],
+		internalImports: [],
+		externalImports: [],
+	};
+	if (!parser) {
+		return outline;
+	}
+
+	const seen = new Set<string>();
+	const symbols: (CodeSymbol & { index: number })[] = [];
+	for (const { regex, kind, exported = false } of parser.symbols) {
+		for (const match of text.matchAll(regex)) {
+			const name = match.groups?.name;
+			if (!name || seen.has(name)) continue;
+			seen.add(name);
+			symbols.push({
+				kind: match.groups?.kind ?? kind ?? "symbol",
+				name,
+				exported,
+				index: match.index ?? 0,
+			});
+		}
+	}
+	outline.symbols = symbols
+		.sort((a, b) => a.index - b.index)
+		.map(({ index: _index, ...symbol }) => symbol);
+
+	const internal = new Set<string>();
+	const external = new Set<string>();
+	for (const specifier of parser.imports(text)) {
+		const trimmed = specifier.trim();
+		if (!trimmed) continue;
+		const resolved = parser
+			.resolve?.(trimmed, path)
+			.find((candidate) => knownPaths.has(candidate));
+		if (resolved && resolved !== path) {
+			internal.add(resolved);
+		} else if (!resolved) {
+			external.add(trimmed);
+		}
+	}
+	outline.internalImports = [...internal].sort();
+	outline.externalImports = [...external].sort();
+	return outline;
+}
+
+/**
+ * Plain-text header placed above a converted file so NotebookLM knows what
+ * the `.txt` source was.
+ */
+export function renderOutlineHeader(path: string, outline: CodeOutline) {
+	const lines = [
+		`File: ${path}`,
+		`Language: ${outline.language}`,
+		`Lines: ${outline.lineCount}`,
+	];
+	if (outline.symbols.length > 0) {
+		lines.push(
+			`Symbols: ${formatList(
+				outline.symbols.map(
+					(symbol) =>
+						`${symbol.exported ? `${outline.exportKeyword} ` : ""}${symbol.kind} ${symbol.name}`,
+				),
+				MAX_LISTED_SYMBOLS,
+			)}`,
+		);
+	}
+	if (outline.internalImports.length > 0) {
+		lines.push(
+			`Imports from this repository: ${formatList(outline.internalImports, MAX_LISTED_IMPORTS)}`,
+		);
+	}
+	if (outline.externalImports.length > 0) {
+		lines.push(
+			`Other imports: ${formatList(outline.externalImports, MAX_LISTED_IMPORTS)}`,
+		);
+	}
+	return `${lines.join("\n")}\n${"-".repeat(40)}\n\n`;
+}
+
+function formatList(items: string[], limit: number) {
+	const listed = items.slice(0, limit).join(", ");
+	return items.length > limit
+		? `${listed} and ${items.length - limit} more`
+		: listed;
+}
+
+function matchAll(text: string, regex: RegExp) {
+	return [...text.matchAll(regex)].map((match) => match[1]);
+}
+
+function dirname(path: string) {
+	return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+}
+
+/**
+ * Join a relative path onto a directory, resolving `.` and `..` segments.
+ */
+function joinPath(base: string, relative: string) {
+	const segments = relative.startsWith("/")
+		? []
+		: base.split("/").filter(Boolean);
+	for (const segment of relative.split("/")) {
+		if (!segment || segment === ".") continue;
+		if (segment === "..") {
+			segments.pop();
+		} else {
+			segments.push(segment);
+		}
+	}
+	return segments.join("/");
+}
@@ -0,0 +1,536 @@
+import { JSDOM } from "jsdom";
+import JSZip from "jszip";
+import { htmlToPlainText } from "./article";
+import { countWords, createEntryId } from "./bundle";
+import { extractPdfText } from "./pdf-text";
+import type { FeedEntry } from "./types";
+import { inflateZipEntry } from "./zip-entry";
+
+/** Documents up to this length stay one entry, with chapters as sections. */
+const SINGLE_ENTRY_MAX_WORDS = 20_000;
+/** PDFs have no chapter markup, so their pages are grouped up to this size. */
+const PDF_PART_WORDS = 10_000;
+/**
+ * Upper bound for one inflated DOCX or EPUB part, like `MAX_STREAM_BYTES` for
+ * PDF streams: a deflate bomb hits it instead of filling the memory.
+ */
+const MAX_PART_BYTES = 32 * 1024 * 1024;
+
+const WORD_NAMESPACE =
+	"http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const DC_NAMESPACE = "http://purl.org/dc/elements/1.1/";
+
+export type DocumentKind = "pdf" | "docx" | "epub" | "markdown" | "text";
+
+export type DocumentChapter = {
+	title: string;
+	/** Markdown body; sub-headings are already rendered as `##` and below. */
+	text: string;
+};
+
+export type ExtractedDocument = {
+	kind: DocumentKind;
+	title: string;
+	authors: string[];
+	publishedAt: string | null;
+	chapters: DocumentChapter[];
+};
+
+export type DocumentResult =
+	| { ok: true; value: ExtractedDocument }
+	| { ok: false; error: string };
+
+/**
+ * Extract the text of an uploaded document chapter by chapter: EPUB spine
+ * items (titled from the table of contents), DOCX sections split at the
+ * top heading level, PDF pages grouped into parts, and Markdown split at
+ * top-level headings.
+ */
+export async function extractDocument(
+	fileName: string,
+	data: Uint8Array,
+): Promise<DocumentResult> {
+	const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+	const fallbackTitle = fileName.replace(/\.[^.]+$/, "") || fileName;
+	try {
+		switch (extension) {
+			case "epub":
+				return await extractEpub(data, fallbackTitle);
+			case "docx":
+				return await extractDocx(data, fallbackTitle);
+			case "pdf":
+				return extractPdf(data, fallbackTitle);
+			case "md":
+			case "markdown":
+				return extractMarkdown(new TextDecoder().decode(data), fallbackTitle);
+			case "txt":
+				return toResult({
+					kind: "text",
+					title: fallbackTitle,
+					authors: [],
+					publishedAt: null,
+					chapters: [
+						{
+							title: fallbackTitle,
+							text: new TextDecoder().decode(data).trim(),
+						},
+					],
+				});
+			default:
+				return {
+					ok: false,
+					error: `“${fileName}” isn’t a supported document. Upload PDF, DOCX, EPUB, Markdown or text files.`,
+				};
+		}
+	} catch (error) {
+		console.error(`Failed to extract ${fileName}`, error);
+		return {
+			ok: false,
+			error: `We couldn’t read “${fileName}”. The file may be damaged.`,
+		};
+	}
+}
+
+/**
+ * Turn a document into bundle entries. Short documents become one entry with
+ * a section per chapter; longer ones get one entry per chapter so each stays
+ * a manageable NotebookLM source.
+ */
+export function toDocumentEntries(
+	document: ExtractedDocument,
+	{
+		fileName,
+		group,
+		firstIndex,
+	}: { fileName: string; group: string; firstIndex: number },
+): FeedEntry[] {
+	const totalWords = document.chapters.reduce(
+		(total, chapter) => total + countWords(chapter.text),
+		0,
+	);
+	const shared = {
+		url: fileName,
+		publishedAt: document.publishedAt,
+		authors: document.authors,
+		categories: [document.kind],
+		contentSource: "document" as const,
+		group,
+	};
+
+	if (document.chapters.length <= 1 || totalWords <= SINGLE_ENTRY_MAX_WORDS) {
+		const textContent =
+			document.chapters.length === 1
+				? document.chapters[0].text
+				: document.chapters
+						.map((chapter) => `## ${chapter.title}\n\n${chapter.text}`)
+						.join("\n\n");
+		return [
+			{
+				...shared,
+				id: createEntryId(firstIndex, document.title),
+				title: document.title,
+				textContent,
+			},
+		];
+	}
+
+	return document.chapters.map((chapter, index) => {
+		const title = `${document.title} – ${chapter.title}`;
+		return {
+			...shared,
+			id: createEntryId(firstIndex + index, title),
+			title,
+			url: `${fileName}#chapter-${index + 1}`,
+			textContent: chapter.text,
+		};
+	});
+}
+
+async function extractEpub(
+	data: Uint8Array,
+	fallbackTitle: string,
+): Promise<DocumentResult> {
+	const zip = await new JSZip().loadAsync(data);
+	const container = await readZipText(zip, "META-INF/container.xml");
+	const opfPath = container
+		? parseXml(container)
+				?.getElementsByTagNameNS("*", "rootfile")[0]
+				?.getAttribute("full-path")
+		: null;
+	const opf = opfPath ? await readZipText(zip, opfPath) : null;
+	const packageDocument = opf ? parseXml(opf) : null;
+	if (!opfPath || !packageDocument) {
+		return { ok: false, error: "This EPUB has no readable package file." };
+	}
+
+	const manifest = new Map<
+		string,
+		{ path: string; mediaType: string; properties: string }
+	>();
+	for (const item of Array.from(
+		packageDocument.getElementsByTagNameNS("*", "item"),
+	)) {
+		const id = item.getAttribute("id");
+		const href = item.getAttribute("href");
+		if (!id || !href) continue;
+		manifest.set(id, {
+			path: resolveZipPath(opfPath, href),
+			mediaType: item.getAttribute("media-type") ?? "",
+			properties: item.getAttribute("properties") ?? "",
+		});
+	}
+
+	const spine = packageDocument.getElementsByTagNameNS("*", "spine")[0];
+	const tocTitles = await readEpubToc(
+		zip,
+		[...manifest.values()].find((item) =>
+			item.properties.split(/\s+/).includes("nav"),
+		)?.path ?? manifest.get(spine?.getAttribute("toc") ?? "")?.path,
+	);
+
+	const chapters: DocumentChapter[] = [];
+	for (const itemRef of Array.from(
+		packageDocument.getElementsByTagNameNS("*", "itemref"),
+	)) {
+		if (itemRef.getAttribute("linear") === "no") continue;
+		const item = manifest.get(itemRef.getAttribute("idref") ?? "");
+		if (!item || !/html/.test(item.mediaType)) continue;
+		const html = await readZipText(zip, item.path);
+		if (!html) continue;
+
+		const { document } = new JSDOM(html).window;
+		const text = htmlToPlainText(document.body?.innerHTML ?? "");
+		if (countWords(text) === 0) continue;
+		const heading = document
+			.querySelector("h1, h2, h3")
+			?.textContent?.replace(/\s+/g, " ")
+			.trim();
+		chapters.push({
+			title:
+				tocTitles.get(item.path) || heading || `Chapter ${chapters.length + 1}`,
+			text,
+		});
+	}
+
+	return toResult({
+		kind: "epub",
+		title: readDublinCore(packageDocument, "title")[0] ?? fallbackTitle,
+		authors: readDublinCore(packageDocument, "creator"),
+		publishedAt: normalizeDate(readDublinCore(packageDocument, "date")[0]),
+		chapters,
+	});
+}
+
+/**
+ * Map chapter files to their table-of-contents titles, from an EPUB 3
+ * navigation document or an EPUB 2 NCX file.
+ */
+async function readEpubToc(zip: JSZip, tocPath: string | undefined) {
+	const titles = new Map<string, string>();
+	const toc = tocPath ? await readZipText(zip, tocPath) : null;
+	if (!tocPath || !toc) {
+		return titles;
+	}
+
+	const add = (href: string | null | undefined, title: string | null) => {
+		const label = title?.replace(/\s+/g, " ").trim();
+		if (!href || !label) return;
+		const path = resolveZipPath(tocPath, href);
+		if (!titles.has(path)) titles.set(path, label);
+	};
+
+	if (tocPath.endsWith(".ncx")) {
+		for (const navPoint of Array.from(
+			parseXml(toc)?.getElementsByTagNameNS("*", "navPoint") ?? [],
+		)) {
+			add(
+				navPoint.getElementsByTagNameNS("*", "content")[0]?.getAttribute("src"),
+				navPoint.getElementsByTagNameNS("*", "text")[0]?.textContent ?? null,
+			);
+		}
+		return titles;
+	}
+
+	const { document } = new JSDOM(toc).window;
+	const nav =
+		Array.from(document.querySelectorAll("nav")).find((element) =>
+			(element.getAttribute("epub:type") ?? "").split(/\s+/).includes("toc"),
+		) ?? document.querySelector("nav");
+	for (const link of Array.from(nav?.querySelectorAll("a[href]") ?? [])) {
+		add(link.getAttribute("href"), link.textContent);
+	}
+	return titles;
+}
+
+async function extractDocx(
+	data: Uint8Array,
+	fallbackTitle: string,
+): Promise<DocumentResult> {
+	const zip = await new JSZip().loadAsync(data);
+	const documentXml = await readZipText(zip, "word/document.xml");
+	const document = documentXml ? parseXml(documentXml) : null;
+	const body = document?.getElementsByTagNameNS(WORD_NAMESPACE, "body")[0];
+	if (!body) {
+		return { ok: false, error: "This DOCX file has no document body." };
+	}
+
+	const styles = await readDocxHeadingStyles(zip);
+	const blocks: { level: number | null; text: string }[] = [];
+	for (const element of Array.from(body.children)) {
+		if (element.localName === "p") {
+			const text = readDocxParagraph(element);
+			if (!text.trim()) continue;
+			const properties = findWordChild(element, "pPr");
+			const styleId = getWordValue(findWordChild(properties, "pStyle"));
+			const outline = getWordValue(findWordChild(properties, "outlineLvl"));
+			const level =
+				(styleId ? styles.get(styleId) : undefined) ??
+				(outline ? Number(outline) + 1 : null);
+			const isListItem = Boolean(findWordChild(properties, "numPr"));
+			blocks.push({
+				level,
+				text: isListItem && level === null ? `- ${text}` : text,
+			});
+		} else if (element.localName === "tbl") {
+			const rows = Array.from(
+				element.getElementsByTagNameNS(WORD_NAMESPACE, "tr"),
+			).map((row) =>
+				Array.from(row.getElementsByTagNameNS(WORD_NAMESPACE, "tc"))
+					.map((cell) => readDocxParagraph(cell).replace(/\s+/g, " ").trim())
+					.join(" | "),
+			);
+			if (rows.length > 0) blocks.push({ level: null, text: rows.join("\n") });
+		}
+	}
+
+	const core = await readZipText(zip, "docProps/core.xml");
+	const coreDocument = core ? parseXml(core) : null;
+	const titleBlock = blocks.find((block) => block.level === 0);
+	const title =
+		(coreDocument ? readDublinCore(coreDocument, "title")[0] : undefined) ??
+		titleBlock?.text.trim() ??
+		fallbackTitle;
+
+	const headingLevels = blocks
+		.map((block) => block.level)
+		.filter((level): level is number => level !== null && level > 0);
+	const topLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : null;
+
+	const chapters: DocumentChapter[] = [];
+	let current: { title: string; lines: string[] } = {
+		title: topLevel === null ? title : "Introduction",
+		lines: [],
+	};
+	for (const block of blocks) {
+		if (block === titleBlock) continue;
+		if (block.level !== null && block.level === topLevel) {
+			if (current.lines.length > 0) {
+				chapters.push({
+					title: current.title,
+					text: current.lines.join("\n\n"),
+				});
+			}
+			current = { title: block.text.trim(), lines: [] };
+		} else if (block.level !== null && topLevel !== null && block.level > 0) {
+			const depth = Math.min(6, block.level - topLevel + 1);
+			current.lines.push(`${"#".repeat(depth)} ${block.text.trim()}`);
+		} else {
+			current.lines.push(block.text);
+		}
+	}
+	if (current.lines.length > 0 || chapters.length === 0) {
+		chapters.push({ title: current.title, text: current.lines.join("\n\n") });
+	}
+
+	return toResult({
+		kind: "docx",
+		title,
+		authors: coreDocument ? readDublinCore(coreDocument, "creator") : [],
+		publishedAt: normalizeDate(
+			coreDocument?.getElementsByTagNameNS("*", "created")[0]?.textContent,
+		),
+		chapters,
+	});
+}
+
+/**
+ * Heading level per paragraph style id: 0 for `Title`, 1–9 for the built-in
+ * headings (whose ids are localized, so the English style name and the
+ * outline level are checked instead).
+ */
+async function readDocxHeadingStyles(zip: JSZip) {
+	const levels = new Map<string, number>();
+	const xml = await readZipText(zip, "word/styles.xml");
+	const document = xml ? parseXml(xml) : null;
+	for (const style of Array.from(
+		document?.getElementsByTagNameNS(WORD_NAMESPACE, "style") ?? [],
+	)) {
+		const id = style.getAttributeNS(WORD_NAMESPACE, "styleId");
+		if (!id) continue;
+		const name = getWordValue(findWordChild(style, "name"))?.toLowerCase();
+		const outline = getWordValue(
+			findWordChild(findWordChild(style, "pPr"), "outlineLvl"),
+		);
+		const heading = name ? /^heading (\d)$/.exec(name) : null;
+		if (name === "title") {
+			levels.set(id, 0);
+		} else if (heading) {
+			levels.set(id, Number(heading[1]));
+		} else if (outline !== null && Number(outline) < 9) {
+			levels.set(id, Number(outline) + 1);
+		}
+	}
+	return levels;
+}
+
+function readDocxParagraph(element: Element) {
+	let text = "";
+	for (const node of Array.from(
+		element.getElementsByTagNameNS(WORD_NAMESPACE, "*"),
+	)) {
+		if (node.localName === "t") {
+			text += node.textContent ?? "";
+		} else if (node.localName === "tab") {
+			text += "\t";
+		} else if (node.localName === "br" || node.localName === "cr") {
+			text += "\n";
+		} else if (node.localName === "p" && text && !text.endsWith("\n")) {
+			// Table cells can hold several paragraphs.
+			text += "\n";
+		}
+	}
+	return text;
+}
+
+function findWordChild(element: Element | null | undefined, localName: string) {
+	return (
+		Array.from(element?.children ?? []).find(
+			(child) =>
+				child.localName === localName && child.namespaceURI === WORD_NAMESPACE,
+		) ?? null
+	);
+}
+
+function getWordValue(element: Element | null) {
+	return element?.getAttributeNS(WORD_NAMESPACE, "val") ?? null;
+}
+
+function extractPdf(data: Uint8Array, fallbackTitle: string): DocumentResult {
+	const result = extractPdfText(data);
+	if (!result.ok) {
+		return result;
+	}
+
+	const chapters: DocumentChapter[] = [];
+	let firstPage = 1;
+	let pages: string[] = [];
+	let words = 0;
+	const flush = (lastPage: number) => {
+		if (pages.length === 0) return;
+		chapters.push({
+			title:
+				firstPage === lastPage
+					? `Page ${firstPage}`
+					: `Pages ${firstPage}–${lastPage}`,
+			text: pages.join("\n\n"),
+		});
+	};
+	result.pages.forEach((page, index) => {
+		const pageWords = countWords(page);
+		if (pages.length > 0 && words + pageWords > PDF_PART_WORDS) {
+			flush(index);
+			firstPage = index + 1;
+			pages = [];
+			words = 0;
+		}
+		pages.push(page);
+		words += pageWords;
+	});
+	flush(result.pages.length);
+
+	return toResult({
+		kind: "pdf",
+		title: result.title ?? fallbackTitle,
+		authors: result.author ? [result.author] : [],
+		publishedAt: null,
+		chapters,
+	});
+}
+
+function extractMarkdown(text: string, fallbackTitle: string): DocumentResult {
+	const sections = text.split(/^(?=# )/m);
+	const titled = sections.filter((section) => section.startsWith("# "));
+	// A single top-level heading is the document title, not a chapter.
+	if (titled.length <= 1) {
+		const title = titled[0]?.split("\n")[0].slice(2).trim() || fallbackTitle;
+		return toResult({
+			kind: "markdown",
+			title,
+			authors: [],
+			publishedAt: null,
+			chapters: [{ title, text: text.trim() }],
+		});
+	}
+
+	const chapters = sections
+		.map((section) => {
+			const [firstLine, ...rest] = section.split("\n");
+			return firstLine.startsWith("# ")
+				? { title: firstLine.slice(2).trim(), text: rest.join("\n").trim() }
+				: { title: "Introduction", text: section.trim() };
+		})
+		.filter((chapter) => chapter.text.length > 0);
+	return toResult({
+		kind: "markdown",
+		title: fallbackTitle,
+		authors: [],
+		publishedAt: null,
+		chapters,
+	});
+}
+
+function toResult(document: ExtractedDocument): DocumentResult {
+	const chapters = document.chapters.filter(
+		(chapter) => countWords(chapter.text) > 0,
+	);
+	if (chapters.length === 0) {
+		return { ok: false, error: "We couldn’t find any text in this document." };
+	}
+	return { ok: true, value: { ...document, chapters } };
+}
+
+/** Missing parts and parts over `MAX_PART_BYTES` once inflated read as `null`. */
+async function readZipText(zip: JSZip, path: string) {
+	const file = zip.file(path);
+	const data = file ? await inflateZipEntry(file, MAX_PART_BYTES) : null;
+	return data ? new TextDecoder().decode(data) : null;
+}
+
+/**
+ * Resolve an `href` found in `fromPath` to a path inside the archive,
+ * dropping any fragment.
+ */
+function resolveZipPath(fromPath: string, href: string) {
+	const url = new URL(href, `http://archive/${fromPath}`);
+	return decodeURIComponent(url.pathname.slice(1));
+}
+
+function readDublinCore(document: Document, localName: string) {
+	return Array.from(document.getElementsByTagNameNS(DC_NAMESPACE, localName))
+		.map((element) => element.textContent?.replace(/\s+/g, " ").trim() ?? "")
+		.filter(Boolean);
+}
+
+function normalizeDate(value: string | null | undefined) {
+	if (!value) return null;
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseXml(xml: string) {
+	try {
+		return new JSDOM(xml, { contentType: "application/xml" }).window.document;
+	} catch {
+		return null;
+	}
+}
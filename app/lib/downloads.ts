@@ -0,0 +1,120 @@
+import { randomBytes } from "node:crypto";
+import type { DownloadLink } from "./types";
+
+/** How long a built file can be downloaded before it has to be rebuilt. */
+const DOWNLOAD_TTL_MS = 15 * 60_000;
+/** Oldest downloads are dropped once the stored files exceed this size. */
+const MAX_STORED_BYTES = 256 * 1024 * 1024;
+const STREAM_CHUNK_BYTES = 64 * 1024;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+type StoredDownload = {
+	data: Uint8Array;
+	fileName: string;
+	contentType: string;
+	expiresAt: number;
+	expiry: ReturnType<typeof setTimeout>;
+};
+
+// Downloads live in memory, so the link only works against the server process
+// that ran the build.
+const downloads = new Map<string, StoredDownload>();
+
+/**
+ * Keep a built file for `DOWNLOAD_TTL_MS` and return the link the client uses
+ * to fetch it from `/download/:token`.
+ */
+export function createDownload({
+	data,
+	fileName,
+	contentType,
+}: {
+	data: Uint8Array;
+	fileName: string;
+	contentType: string;
+}): DownloadLink {
+	const token = randomBytes(24).toString("base64url");
+	const expiresAt = Date.now() + DOWNLOAD_TTL_MS;
+	downloads.set(token, {
+		data,
+		fileName,
+		contentType,
+		expiresAt,
+		expiry: setTimeout(() => downloads.delete(token), DOWNLOAD_TTL_MS),
+	});
+	evictOverflow();
+
+	return {
+		url: `/download/${token}`,
+		fileName,
+		size: data.byteLength,
+		expiresAt: new Date(expiresAt).toISOString(),
+	};
+}
+
+/**
+ * Send a stored download as an attachment, or a 404 once it has expired.
+ * Links stay valid until expiry so the same bundle can be fetched again.
+ */
+export function createDownloadResponse(token: string) {
+	const download = TOKEN_PATTERN.test(token) ? downloads.get(token) : null;
+	if (!download || download.expiresAt <= Date.now()) {
+		return new Response(
+			"This download has expired. Build the bundle again to get a new link.",
+			{ status: 404, headers: { "Content-Type": "text/plain; charset=utf-8" } },
+		);
+	}
+
+	return new Response(streamBytes(download.data), {
+		headers: {
+			"Content-Type": download.contentType,
+			"Content-Length": String(download.data.byteLength),
+			"Content-Disposition": getContentDisposition(download.fileName),
+			"Cache-Control": "private, no-store",
+		},
+	});
+}
+
+/**
+ * Hand the stored bytes to the response in chunks instead of one large write.
+ */
+function streamBytes(data: Uint8Array) {
+	let offset = 0;
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			if (offset >= data.byteLength) {
+				controller.close();
+				return;
+			}
+			controller.enqueue(data.subarray(offset, offset + STREAM_CHUNK_BYTES));
+			offset += STREAM_CHUNK_BYTES;
+		},
+	});
+}
+
+function evictOverflow() {
+	let total = 0;
+	for (const download of downloads.values()) {
+		total += download.data.byteLength;
+	}
+	// Maps iterate in insertion order, so the oldest downloads go first.
+	for (const [token, download] of downloads) {
+		if (total <= MAX_STORED_BYTES || downloads.size === 1) {
+			break;
+		}
+		clearTimeout(download.expiry);
+		downloads.delete(token);
+		total -= download.data.byteLength;
+	}
+}
+
+/**
+ * `attachment` header with an ASCII fallback name for old clients and the
+ * UTF-8 name for everyone else.
+ */
+function getContentDisposition(fileName: string) {
+	const fallback = fileName
+		.replace(/[^\x20-\x7e]/g, "_")
+		.replace(/["\\]/g, "_");
+	return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseFeed } from "./feed";
+
+const url = "https://example.com/feed.xml";
+
+describe("parseFeed", () => {
+	it("reads feeds that use HTML named entities", () => {
+		const feed = parseFeed(
+			`<?xml version="1.0"?>
+<rss version="2.0"><channel>
+	<title>News&nbsp;&mdash; Daily</title>
+	<item><title>Caf&eacute; &amp; more&hellip;</title><link>https://example.com/a</link></item>
+	<item><title>Broken &bogus; entity</title><link>https://example.com/b</link></item>
+</channel></rss>`,
+			{ url },
+		);
+		expect(feed.title).toBe("News — Daily");
+		expect(feed.items.map((item) => item.title)).toEqual([
+			"Café & more…",
+			"Broken &bogus; entity",
+		]);
+	});
+
+	it("reads feeds with undeclared namespace prefixes", () => {
+		const feed = parseFeed(
+			`<rss version="2.0"><channel>
+	<title>Videos</title>
+	<item>
+		<title>Episode 1</title>
+		<link>https://example.com/1</link>
+		<media:content url="https://example.com/1.mp4" type="video/mp4" media:medium="video" />
+	</item>
+</channel></rss>`,
+			{ url },
+		);
+		expect(feed.title).toBe("Videos");
+		expect(feed.items[0]).toMatchObject({
+			title: "Episode 1",
+			link: "https://example.com/1",
+		});
+	});
+
+	it("still rejects bodies that are not feeds", () => {
+		expect(() => parseFeed("<html><body>Hi</body></html>", { url })).toThrow(
+			"Unsupported feed format",
+		);
+	});
+});
@@ -0,0 +1,740 @@
+import { JSDOM } from "jsdom";
+import { htmlToPlainText } from "./article";
+import { scheduleFetches } from "./fetch-scheduler";
+import { cachedFetch } from "./http-cache";
+import type {
+	FeedCandidate,
+	FeedEnclosure,
+	FeedEntry,
+	FeedFormat,
+} from "./types";
+
+export const FEED_USER_AGENT =
+	"NotebookLM-Source-Converter/1.0 (+https://notebooklm.google.com)";
+
+export const FEED_ACCEPT_HEADER =
+	"application/rss+xml, application/atom+xml, application/feed+json, application/rdf+xml, application/json; q=0.9, application/xml, text/xml; q=0.8, */*; q=0.7";
+
+const ATOM_NS = "http://www.w3.org/2005/Atom";
+const RSS1_NS = "http://purl.org/rss/1.0/";
+const RDF_NS = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const CONTENT_NS = "http://purl.org/rss/1.0/modules/content/";
+const DC_NS = "http://purl.org/dc/elements/1.1/";
+/** The only named entities XML knows without a DTD. */
+const XML_ENTITIES = new Set(["amp", "lt", "gt", "quot", "apos"]);
+
+export type FeedItem = {
+	guid: string | null;
+	title: string | null;
+	link: string | null;
+	contentHtml: string | null;
+	contentText: string | null;
+	publishedAt: string | null;
+	updatedAt: string | null;
+	authors: string[];
+	categories: string[];
+	enclosures: FeedEnclosure[];
+};
+
+export type ParsedFeed = {
+	format: FeedFormat;
+	title: string | null;
+	description: string | null;
+	link: string | null;
+	items: FeedItem[];
+};
+
+/**
+ * Everything a builder needs to turn a feed item into a `FeedEntry`, minus the
+ * id (assigned once the final order is known) and the resolved body.
+ */
+export type FeedEntryDraft = Omit<
+	FeedEntry,
+	"id" | "textContent" | "contentSource" | "fetchFailure"
+> & { feedText: string };
+
+export type FeedFetchResult =
+	| { ok: true; feed: ParsedFeed; feedUrl: string }
+	| {
+			ok: false;
+			status: number;
+			error: string;
+			candidates?: FeedCandidate[];
+	  };
+
+/**
+ * `<link rel="alternate">` types that point at a feed.
+ */
+const FEED_LINK_TYPES = new Set([
+	"application/rss+xml",
+	"application/atom+xml",
+	"application/feed+json",
+	"application/rdf+xml",
+]);
+
+/**
+ * Paths probed when a page does not advertise its feed.
+ */
+const COMMON_FEED_PATHS = ["/feed", "/rss.xml", "/atom.xml", "/index.xml"];
+
+/**
+ * Fetch a feed URL and parse it with `parseFeed`, mapping network and parse
+ * problems to the user-facing errors returned by the builder actions.
+ *
+ * With `discover`, an HTML page is searched for feeds instead of failing: a
+ * single match is fetched directly, several are returned as `candidates` so
+ * the user can choose.
+ */
+export async function fetchFeed(
+	url: URL,
+	{
+		discover = false,
+		signal,
+	}: { discover?: boolean; signal?: AbortSignal } = {},
+): Promise<FeedFetchResult> {
+	const response = await cachedFetch(url, {
+		headers: {
+			"User-Agent": FEED_USER_AGENT,
+			Accept: FEED_ACCEPT_HEADER,
+		},
+		signal,
+	});
+
+	if (!response.ok) {
+		return {
+			ok: false,
+			status: 502,
+			error: `We couldn’t reach that feed (status ${response.status}). Please try again later.`,
+		};
+	}
+
+	const body = await response.text();
+	const finalUrl = response.url || url.href;
+	const contentType = response.headers.get("content-type");
+
+	if (
+		discover &&
+		detectFeedFormat(body, contentType) === null &&
+		looksLikeHtml(body, contentType)
+	) {
+		const candidates = await discoverFeeds(body, finalUrl);
+		if (candidates.length === 0) {
+			return {
+				ok: false,
+				status: 404,
+				error:
+					"That page doesn’t advertise a feed and none of the usual feed paths worked. Paste the feed URL directly.",
+			};
+		}
+		if (candidates.length > 1) {
+			return {
+				ok: false,
+				status: 422,
+				error:
+					"That page links to several feeds. Pick the one you want to convert.",
+				candidates,
+			};
+		}
+		return fetchFeed(new URL(candidates[0].url), { signal });
+	}
+
+	try {
+		const feed = parseFeed(body, { url: finalUrl, contentType });
+		return { ok: true, feed, feedUrl: finalUrl };
+	} catch (error) {
+		console.error("Failed to parse feed", error);
+		return {
+			ok: false,
+			status: 422,
+			error:
+				"We couldn’t understand that feed. Double-check the URL or try another feed.",
+		};
+	}
+}
+
+/**
+ * Find the feeds behind a website: first the ones advertised through
+ * `<link rel="alternate">`, then the common feed paths on the same site.
+ */
+export async function discoverFeeds(
+	html: string,
+	pageUrl: string,
+): Promise<FeedCandidate[]> {
+	const advertised = findFeedLinks(html, pageUrl);
+	if (advertised.length > 0) {
+		return advertised;
+	}
+	return probeCommonFeedPaths(pageUrl);
+}
+
+/**
+ * Collect the feed `<link rel="alternate">` tags of an HTML page.
+ */
+export function findFeedLinks(html: string, pageUrl: string): FeedCandidate[] {
+	const { document } = new JSDOM(html, { url: pageUrl }).window;
+	const candidates = new Map<string, FeedCandidate>();
+
+	for (const link of document.querySelectorAll("link[rel][href][type]")) {
+		const rel = (link.getAttribute("rel") ?? "").toLowerCase().split(/\s+/);
+		const type = (link.getAttribute("type") ?? "").toLowerCase().trim();
+		if (!rel.includes("alternate") || !FEED_LINK_TYPES.has(type)) {
+			continue;
+		}
+		const url = resolveUrl(link.getAttribute("href"), pageUrl);
+		if (url && !candidates.has(url)) {
+			candidates.set(url, {
+				url,
+				title: textOrNull(link.getAttribute("title")),
+				type,
+			});
+		}
+	}
+
+	return Array.from(candidates.values());
+}
+
+async function probeCommonFeedPaths(pageUrl: string): Promise<FeedCandidate[]> {
+	const urls = Array.from(
+		new Set(
+			COMMON_FEED_PATHS.flatMap((path) => [
+				new URL(path, pageUrl).href,
+				new URL(path.slice(1), pageUrl).href,
+			]),
+		),
+	);
+
+	const results = await scheduleFetches(urls, async (url, signal) => {
+		const response = await cachedFetch(url, {
+			headers: {
+				"User-Agent": FEED_USER_AGENT,
+				Accept: FEED_ACCEPT_HEADER,
+			},
+			signal,
+		});
+		if (!response.ok) {
+			return null;
+		}
+		const finalUrl = response.url || url;
+		const contentType = response.headers.get("content-type");
+		const feed = parseFeed(await response.text(), {
+			url: finalUrl,
+			contentType,
+		});
+		return { url: finalUrl, title: feed.title, type: contentType };
+	});
+
+	const candidates = new Map<string, FeedCandidate>();
+	for (const result of results) {
+		// Several probe paths often redirect to the same feed.
+		if (result.ok && result.value && !candidates.has(result.value.url)) {
+			candidates.set(result.value.url, result.value);
+		}
+	}
+	return Array.from(candidates.values());
+}
+
+function looksLikeHtml(body: string, contentType: string | null) {
+	if (contentType?.includes("html")) {
+		return true;
+	}
+	return /^\s*(<!doctype html|<html)/i.test(body);
+}
+
+/**
+ * Work out which syndication format a response body uses.
+ */
+export function detectFeedFormat(
+	body: string,
+	contentType: string | null = null,
+): FeedFormat | null {
+	const trimmed = body.trimStart();
+	if (trimmed.startsWith("{") || contentType?.includes("json")) {
+		try {
+			const json = JSON.parse(trimmed);
+			return isJsonFeed(json) ? "json" : null;
+		} catch {
+			return null;
+		}
+	}
+
+	const root = parseXml(trimmed)?.documentElement;
+	if (!root) {
+		return null;
+	}
+	if (root.localName === "rss") {
+		return "rss";
+	}
+	if (root.localName === "RDF" && root.namespaceURI === RDF_NS) {
+		return "rdf";
+	}
+	if (root.localName === "feed" && root.namespaceURI === ATOM_NS) {
+		return "atom";
+	}
+	return null;
+}
+
+/**
+ * Parse RSS 2.0, RSS 1.0 (RDF), Atom 1.0 or JSON Feed into a common shape.
+ * Relative links are resolved against `url`. Throws when the body is not a
+ * feed in any of those formats.
+ */
+export function parseFeed(
+	body: string,
+	{ url, contentType = null }: { url: string; contentType?: string | null },
+): ParsedFeed {
+	const format = detectFeedFormat(body, contentType);
+	switch (format) {
+		case "json":
+			return parseJsonFeed(JSON.parse(body.trimStart()), url);
+		case "rss":
+		case "rdf":
+		case "atom": {
+			const root = parseXml(body.trimStart())?.documentElement;
+			if (!root) {
+				break;
+			}
+			if (format === "atom") {
+				return parseAtom(root, url);
+			}
+			return format === "rss" ? parseRss(root, url) : parseRdf(root, url);
+		}
+	}
+	throw new Error("Unsupported feed format");
+}
+
+/**
+ * Turn parsed feed items into entry drafts, filling in fallbacks for missing
+ * titles and links.
+ */
+export function toEntryDrafts(
+	feed: ParsedFeed,
+	fallbackUrl: string,
+): FeedEntryDraft[] {
+	return feed.items.map((item, index) => ({
+		title: item.title ?? `Entry ${index + 1}`,
+		url: item.link ?? feed.link ?? fallbackUrl,
+		guid: item.guid,
+		publishedAt: item.publishedAt,
+		updatedAt: item.updatedAt,
+		authors: item.authors,
+		categories: item.categories,
+		enclosures: item.enclosures,
+		feedText:
+			item.contentText?.trim() ?? htmlToPlainText(item.contentHtml ?? ""),
+	}));
+}
+
+function parseRss(root: Element, baseUrl: string): ParsedFeed {
+	const channel = firstChild(root, "channel", null) ?? root;
+	const link =
+		childText(channel, "link", null) ?? atomLink(channel, "alternate");
+
+	return {
+		format: "rss",
+		title: childText(channel, "title", null),
+		description: childText(channel, "description", null),
+		link: resolveUrl(link, baseUrl),
+		items: findChildren(channel, "item", null).map((item) => ({
+			guid: childText(item, "guid", null),
+			title: childText(item, "title", null),
+			link: resolveUrl(
+				childText(item, "link", null) ?? atomLink(item, "alternate"),
+				baseUrl,
+			),
+			contentHtml:
+				childText(item, "encoded", CONTENT_NS) ??
+				childText(item, "description", null),
+			contentText: null,
+			publishedAt: toIsoDate(
+				childText(item, "pubDate", null) ?? childText(item, "date", DC_NS),
+			),
+			updatedAt: toIsoDate(childText(item, "updated", ATOM_NS)),
+			authors: unique([
+				...childTexts(item, "author", null),
+				...childTexts(item, "creator", DC_NS),
+			]),
+			categories: unique([
+				...childTexts(item, "category", null),
+				...childTexts(item, "subject", DC_NS),
+			]),
+			enclosures: findChildren(item, "enclosure", null)
+				.map((enclosure) =>
+					toEnclosure(
+						enclosure.getAttribute("url"),
+						enclosure.getAttribute("type"),
+						enclosure.getAttribute("length"),
+						baseUrl,
+					),
+				)
+				.filter((enclosure) => enclosure !== null),
+		})),
+	};
+}
+
+function parseRdf(root: Element, baseUrl: string): ParsedFeed {
+	const channel = firstChild(root, "channel", RSS1_NS);
+
+	return {
+		format: "rdf",
+		title: channel ? childText(channel, "title", RSS1_NS) : null,
+		description: channel ? childText(channel, "description", RSS1_NS) : null,
+		link: resolveUrl(
+			channel ? childText(channel, "link", RSS1_NS) : null,
+			baseUrl,
+		),
+		items: findChildren(root, "item", RSS1_NS).map((item) => ({
+			guid: item.getAttributeNS(RDF_NS, "about"),
+			title: childText(item, "title", RSS1_NS),
+			link: resolveUrl(childText(item, "link", RSS1_NS), baseUrl),
+			contentHtml:
+				childText(item, "encoded", CONTENT_NS) ??
+				childText(item, "description", RSS1_NS),
+			contentText: null,
+			publishedAt: toIsoDate(childText(item, "date", DC_NS)),
+			updatedAt: null,
+			authors: unique(childTexts(item, "creator", DC_NS)),
+			categories: unique(childTexts(item, "subject", DC_NS)),
+			enclosures: [],
+		})),
+	};
+}
+
+function parseAtom(root: Element, baseUrl: string): ParsedFeed {
+	return {
+		format: "atom",
+		title: atomText(firstChild(root, "title", ATOM_NS)),
+		description: atomText(firstChild(root, "subtitle", ATOM_NS)),
+		link: resolveUrl(atomLink(root, "alternate"), baseUrl),
+		items: findChildren(root, "entry", ATOM_NS).map((entry) => {
+			const content = firstChild(entry, "content", ATOM_NS);
+			const summary = firstChild(entry, "summary", ATOM_NS);
+			const body = content ?? summary;
+			const bodyType = body?.getAttribute("type") ?? "text";
+
+			return {
+				guid: childText(entry, "id", ATOM_NS),
+				title: atomText(firstChild(entry, "title", ATOM_NS)),
+				link: resolveUrl(atomLink(entry, "alternate"), baseUrl),
+				contentHtml: body && bodyType !== "text" ? atomHtml(body) : null,
+				contentText: body && bodyType === "text" ? atomHtml(body) : null,
+				publishedAt: toIsoDate(childText(entry, "published", ATOM_NS)),
+				updatedAt: toIsoDate(childText(entry, "updated", ATOM_NS)),
+				authors: unique(
+					findChildren(entry, "author", ATOM_NS)
+						.map((author) => childText(author, "name", ATOM_NS))
+						.filter((name) => name !== null),
+				),
+				categories: unique(
+					findChildren(entry, "category", ATOM_NS)
+						.map(
+							(category) =>
+								category.getAttribute("label") ?? category.getAttribute("term"),
+						)
+						.filter((term) => term !== null),
+				),
+				enclosures: findChildren(entry, "link", ATOM_NS)
+					.filter((link) => link.getAttribute("rel") === "enclosure")
+					.map((link) =>
+						toEnclosure(
+							link.getAttribute("href"),
+							link.getAttribute("type"),
+							link.getAttribute("length"),
+							baseUrl,
+						),
+					)
+					.filter((enclosure) => enclosure !== null),
+			};
+		}),
+	};
+}
+
+type JsonFeedAuthor = { name?: unknown };
+type JsonFeedItem = {
+	id?: unknown;
+	url?: unknown;
+	external_url?: unknown;
+	title?: unknown;
+	content_html?: unknown;
+	content_text?: unknown;
+	summary?: unknown;
+	date_published?: unknown;
+	date_modified?: unknown;
+	author?: JsonFeedAuthor;
+	authors?: JsonFeedAuthor[];
+	tags?: unknown[];
+	attachments?: Array<{
+		url?: unknown;
+		mime_type?: unknown;
+		size_in_bytes?: unknown;
+	}>;
+};
+type JsonFeed = {
+	version: string;
+	title?: unknown;
+	description?: unknown;
+	home_page_url?: unknown;
+	items?: JsonFeedItem[];
+};
+
+function isJsonFeed(value: unknown): value is JsonFeed {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"version" in value &&
+		typeof value.version === "string" &&
+		value.version.startsWith("https://jsonfeed.org/version/")
+	);
+}
+
+function parseJsonFeed(json: JsonFeed, baseUrl: string): ParsedFeed {
+	const items = Array.isArray(json.items) ? json.items : [];
+
+	return {
+		format: "json",
+		title: stringOrNull(json.title),
+		description: stringOrNull(json.description),
+		link: resolveUrl(stringOrNull(json.home_page_url), baseUrl),
+		items: items.map((item) => {
+			// JSON Feed 1.0 used a single `author`; 1.1 switched to `authors`.
+			const authors = Array.isArray(item.authors)
+				? item.authors
+				: item.author
+					? [item.author]
+					: [];
+			const html = stringOrNull(item.content_html);
+			const text = stringOrNull(item.content_text);
+
+			return {
+				guid: item.id == null ? null : String(item.id),
+				title: stringOrNull(item.title),
+				link: resolveUrl(
+					stringOrNull(item.url) ?? stringOrNull(item.external_url),
+					baseUrl,
+				),
+				contentHtml: html ?? (text ? null : stringOrNull(item.summary)),
+				contentText: html ? null : text,
+				publishedAt: toIsoDate(stringOrNull(item.date_published)),
+				updatedAt: toIsoDate(stringOrNull(item.date_modified)),
+				authors: unique(
+					authors
+						.map((author) => stringOrNull(author?.name))
+						.filter((name) => name !== null),
+				),
+				categories: unique(
+					(Array.isArray(item.tags) ? item.tags : [])
+						.map(stringOrNull)
+						.filter((tag) => tag !== null),
+				),
+				enclosures: (Array.isArray(item.attachments) ? item.attachments : [])
+					.map((attachment) =>
+						toEnclosure(
+							stringOrNull(attachment.url),
+							stringOrNull(attachment.mime_type),
+							attachment.size_in_bytes == null
+								? null
+								: String(attachment.size_in_bytes),
+							baseUrl,
+						),
+					)
+					.filter((enclosure) => enclosure !== null),
+			};
+		}),
+	};
+}
+
+/**
+ * Parse strictly, and retry a body that isn't well-formed after repairing
+ * the two mistakes feeds make most: HTML named entities such as `&nbsp;`,
+ * and namespace prefixes used without a declaration (`<media:content>`
+ * without `xmlns:media`).
+ */
+function parseXml(xml: string) {
+	return parseStrictXml(xml) ?? parseStrictXml(repairXml(xml));
+}
+
+function parseStrictXml(xml: string) {
+	try {
+		return new JSDOM(xml, { contentType: "application/xml" }).window.document;
+	} catch {
+		return null;
+	}
+}
+
+function repairXml(xml: string) {
+	let repaired = replaceHtmlEntities(xml);
+	const declared = new Set(
+		Array.from(
+			repaired.matchAll(/\sxmlns:([\w.-]+)\s*=/g),
+			(match) => match[1],
+		),
+	);
+	const used = new Set(
+		Array.from(
+			repaired.matchAll(
+				/<\/?([A-Za-z_][\w.-]*):[A-Za-z_]|\s([A-Za-z_][\w.-]*):[A-Za-z_][\w.-]*\s*=/g,
+			),
+			(match) => match[1] ?? match[2],
+		),
+	);
+	const missing = [...used].filter(
+		(prefix) => prefix !== "xml" && prefix !== "xmlns" && !declared.has(prefix),
+	);
+	if (missing.length > 0) {
+		// A placeholder namespace is enough: elements are matched by local name.
+		const declarations = missing
+			.map((prefix) => ` xmlns:${prefix}="urn:x-undeclared:${prefix}"`)
+			.join("");
+		repaired = repaired.replace(
+			/<(?![?!])[A-Za-z_][\w.:-]*/,
+			(tag) => `${tag}${declarations}`,
+		);
+	}
+	return repaired;
+}
+
+/**
+ * Turn HTML named entities into numeric character references, looking their
+ * text up with the HTML parser. Unknown names are escaped as text.
+ */
+function replaceHtmlEntities(xml: string) {
+	const pattern = /&([A-Za-z][A-Za-z0-9]*);/g;
+	const names = [
+		...new Set(Array.from(xml.matchAll(pattern), (match) => match[1])),
+	].filter((name) => !XML_ENTITIES.has(name));
+	if (names.length === 0) {
+		return xml;
+	}
+	const { document } = new JSDOM(
+		names.map((name) => `<i>&${name};</i>`).join(""),
+	).window;
+	const elements = document.querySelectorAll("i");
+	const decoded = new Map(
+		names.map((name, index) => [name, elements[index]?.textContent ?? ""]),
+	);
+	return xml.replace(pattern, (match, name: string) => {
+		const text = decoded.get(name);
+		if (text === undefined) {
+			return match;
+		}
+		return text && text !== match
+			? Array.from(text, (char) => `&#${char.codePointAt(0)};`).join("")
+			: `&amp;${name};`;
+	});
+}
+
+function findChildren(
+	element: Element,
+	localName: string,
+	namespace: string | null,
+) {
+	return Array.from(element.children).filter(
+		(child) =>
+			child.localName === localName && child.namespaceURI === namespace,
+	);
+}
+
+function firstChild(
+	element: Element,
+	localName: string,
+	namespace: string | null,
+) {
+	return findChildren(element, localName, namespace)[0] ?? null;
+}
+
+function childText(
+	element: Element,
+	localName: string,
+	namespace: string | null,
+) {
+	return textOrNull(firstChild(element, localName, namespace)?.textContent);
+}
+
+function childTexts(
+	element: Element,
+	localName: string,
+	namespace: string | null,
+) {
+	return findChildren(element, localName, namespace)
+		.map((child) => textOrNull(child.textContent))
+		.filter((text) => text !== null);
+}
+
+function atomLink(element: Element, rel: string) {
+	const link = findChildren(element, "link", ATOM_NS).find(
+		(candidate) => (candidate.getAttribute("rel") ?? "alternate") === rel,
+	);
+	return link?.getAttribute("href") ?? null;
+}
+
+function atomText(element: Element | null) {
+	if (!element) {
+		return null;
+	}
+	const type = element.getAttribute("type") ?? "text";
+	return textOrNull(
+		type === "text" ? element.textContent : htmlToPlainText(atomHtml(element)),
+	);
+}
+
+function atomHtml(element: Element) {
+	// XHTML content wraps its markup in a single <div>; html and text content
+	// carry it as (escaped) text.
+	if (element.getAttribute("type") === "xhtml") {
+		return element.firstElementChild?.innerHTML ?? element.innerHTML;
+	}
+	return element.textContent ?? "";
+}
+
+function toEnclosure(
+	url: string | null,
+	type: string | null,
+	length: string | null,
+	baseUrl: string,
+): FeedEnclosure | null {
+	const resolved = resolveUrl(url, baseUrl);
+	if (!resolved) {
+		return null;
+	}
+	const parsedLength = Number.parseInt(length ?? "", 10);
+	return {
+		url: resolved,
+		type: textOrNull(type),
+		length: Number.isFinite(parsedLength) ? parsedLength : null,
+	};
+}
+
+function resolveUrl(value: string | null, baseUrl: string) {
+	if (!value) {
+		return null;
+	}
+	try {
+		return new URL(value.trim(), baseUrl).href;
+	} catch {
+		return value.trim();
+	}
+}
+
+/**
+ * Normalize RFC 822 and ISO 8601 dates to ISO strings, keeping unparseable
+ * values as they were.
+ */
+function toIsoDate(value: string | null) {
+	if (!value) {
+		return null;
+	}
+	const time = Date.parse(value);
+	return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+function textOrNull(value: string | null | undefined) {
+	const trimmed = value?.trim();
+	return trimmed && trimmed.length > 0 ? trimmed : null;
+}
+
+function stringOrNull(value: unknown) {
+	return typeof value === "string" ? textOrNull(value) : null;
+}
+
+function unique(values: string[]) {
+	return Array.from(new Set(values));
+}
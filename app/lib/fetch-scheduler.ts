@@ -0,0 +1,169 @@
+export type FetchSchedulerOptions = {
+	/** Maximum number of requests in flight across all hosts. */
+	concurrency: number;
+	/** Maximum number of requests in flight against a single host. */
+	perHostConcurrency: number;
+	/** Per-request budget before the request is aborted. */
+	timeoutMs: number;
+};
+
+export type ScheduledTaskResult<T> =
+	| { ok: true; value: T }
+	| { ok: false; reason: "timeout" | "failed"; error: string };
+
+export const DEFAULT_FETCH_SCHEDULER_OPTIONS: FetchSchedulerOptions = {
+	concurrency: 6,
+	perHostConcurrency: 2,
+	timeoutMs: 15_000,
+};
+
+/**
+ * Read scheduler limits from the environment, falling back to the defaults
+ * for anything missing or invalid.
+ */
+export function getFetchSchedulerOptions(
+	overrides: Partial<FetchSchedulerOptions> = {},
+): FetchSchedulerOptions {
+	return {
+		concurrency:
+			overrides.concurrency ??
+			readPositiveInt(
+				process.env.FETCH_CONCURRENCY,
+				DEFAULT_FETCH_SCHEDULER_OPTIONS.concurrency,
+			),
+		perHostConcurrency:
+			overrides.perHostConcurrency ??
+			readPositiveInt(
+				process.env.FETCH_PER_HOST_CONCURRENCY,
+				DEFAULT_FETCH_SCHEDULER_OPTIONS.perHostConcurrency,
+			),
+		timeoutMs:
+			overrides.timeoutMs ??
+			readPositiveInt(
+				process.env.FETCH_TIMEOUT_MS,
+				DEFAULT_FETCH_SCHEDULER_OPTIONS.timeoutMs,
+			),
+	};
+}
+
+/**
+ * Run one task per URL with a global and a per-host concurrency limit. Every
+ * task receives an AbortSignal that fires after `timeoutMs`; a task that does
+ * not settle by then is reported as timed out instead of blocking the batch.
+ * Results keep the order of `urls`; `onSettled` sees each one as it lands.
+ */
+export async function scheduleFetches<T>(
+	urls: string[],
+	task: (url: string, signal: AbortSignal) => Promise<T>,
+	options: FetchSchedulerOptions = getFetchSchedulerOptions(),
+	onSettled?: (result: ScheduledTaskResult<T>, index: number) => void,
+): Promise<ScheduledTaskResult<T>[]> {
+	const global = createLimiter(options.concurrency);
+	const hosts = new Map<string, ReturnType<typeof createLimiter>>();
+
+	const hostLimiter = (url: string) => {
+		const host = getHost(url);
+		let limiter = hosts.get(host);
+		if (!limiter) {
+			limiter = createLimiter(options.perHostConcurrency);
+			hosts.set(host, limiter);
+		}
+		return limiter;
+	};
+
+	return Promise.all(
+		urls.map(async (url, index) => {
+			// Take the host slot first so requests queued behind a busy host
+			// never hold one of the global slots.
+			const host = hostLimiter(url);
+			await host.acquire();
+			await global.acquire();
+			try {
+				const result = await runWithTimeout(url, task, options.timeoutMs);
+				onSettled?.(result, index);
+				return result;
+			} finally {
+				global.release();
+				host.release();
+			}
+		}),
+	);
+}
+
+async function runWithTimeout<T>(
+	url: string,
+	task: (url: string, signal: AbortSignal) => Promise<T>,
+	timeoutMs: number,
+): Promise<ScheduledTaskResult<T>> {
+	const controller = new AbortController();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<ScheduledTaskResult<T>>((resolve) => {
+		timer = setTimeout(() => {
+			controller.abort();
+			resolve({
+				ok: false,
+				reason: "timeout",
+				error: `Timed out after ${timeoutMs} ms`,
+			});
+		}, timeoutMs);
+	});
+
+	const run = task(url, controller.signal).then(
+		(value): ScheduledTaskResult<T> => ({ ok: true, value }),
+		(error): ScheduledTaskResult<T> =>
+			controller.signal.aborted
+				? {
+						ok: false,
+						reason: "timeout",
+						error: `Timed out after ${timeoutMs} ms`,
+					}
+				: {
+						ok: false,
+						reason: "failed",
+						error: error instanceof Error ? error.message : String(error),
+					},
+	);
+
+	try {
+		return await Promise.race([run, timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+function createLimiter(limit: number) {
+	let active = 0;
+	const waiting: Array<() => void> = [];
+
+	return {
+		acquire() {
+			if (active < limit) {
+				active++;
+				return Promise.resolve();
+			}
+			return new Promise<void>((resolve) => {
+				waiting.push(() => {
+					active++;
+					resolve();
+				});
+			});
+		},
+		release() {
+			active--;
+			waiting.shift()?.();
+		},
+	};
+}
+
+function getHost(url: string) {
+	try {
+		return new URL(url).hostname;
+	} catch {
+		return url;
+	}
+}
+
+function readPositiveInt(raw: string | undefined, fallback: number) {
+	const parsed = Number.parseInt(raw ?? "", 10);
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
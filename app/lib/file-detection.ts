@@ -0,0 +1,106 @@
+import type { RepoFileSkip } from "./types";
+
+/** Code and text files above this size are skipped as data rather than source. */
+export const MAX_TEXT_FILE_BYTES = 1024 * 1024;
+
+// Git treats a file as binary when its first 8000 bytes contain a NUL.
+const BINARY_SNIFF_BYTES = 8000;
+// Generated-file markers only count in the header comment.
+const MARKER_SCAN_LINES = 5;
+const MINIFIED_MIN_BYTES = 1024;
+const MINIFIED_AVERAGE_LINE = 250;
+const MINIFIED_LONGEST_LINE = 10_000;
+
+const LOCKFILE_NAMES = new Set([
+	"package-lock.json",
+	"npm-shrinkwrap.json",
+	"pnpm-lock.yaml",
+	"yarn.lock",
+	"bun.lock",
+	"composer.lock",
+	"Gemfile.lock",
+	"Cargo.lock",
+	"poetry.lock",
+	"Pipfile.lock",
+	"go.sum",
+	"flake.lock",
+]);
+const GENERATED_NAME_PATTERNS: [RegExp, string][] = [
+	[/\.min\.(?:js|mjs|css)$/i, "minified file name"],
+	[/[.-]bundle\.js$/i, "bundled file name"],
+	[/\.pb\.go$|_pb2(?:_grpc)?\.py$/, "protobuf output"],
+	[/\.g\.dart$|\.designer\.cs$|\.generated\.\w+$/i, "generated file name"],
+];
+const GENERATED_MARKERS: [RegExp, string][] = [
+	[/@generated\b/, "@generated"],
+	[/\bDO NOT EDIT\b/, "DO NOT EDIT"],
+	[/\bauto-?generated\b/i, "auto-generated"],
+];
+
+/**
+ * Skip lockfiles and files whose name marks them as minified or generated,
+ * before their content is read.
+ */
+export function detectGeneratedName(path: string): RepoFileSkip | null {
+	const fileName = path.split("/").pop() ?? "";
+	if (LOCKFILE_NAMES.has(fileName)) {
+		return { source: "generated", rule: "lockfile" };
+	}
+	const match = GENERATED_NAME_PATTERNS.find(([pattern]) =>
+		pattern.test(fileName),
+	);
+	return match ? { source: "generated", rule: match[1] } : null;
+}
+
+/**
+ * Check a code or text file's content: binaries mislabelled by their
+ * extension, files over `MAX_TEXT_FILE_BYTES`, generated-code header markers
+ * and minified code. Markdown and plain text skip the last two checks, since
+ * prose often has long lines and may mention generated code.
+ */
+export function detectUnreadableContent(
+	data: Uint8Array,
+	{ isCode }: { isCode: boolean },
+): RepoFileSkip | null {
+	if (data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+		return { source: "binary", rule: "contains NUL bytes" };
+	}
+	if (data.byteLength > MAX_TEXT_FILE_BYTES) {
+		return {
+			source: "size",
+			rule: `${formatMegabytes(data.byteLength)} over the ${formatMegabytes(MAX_TEXT_FILE_BYTES)} limit`,
+		};
+	}
+	if (!isCode) {
+		return null;
+	}
+
+	const text = new TextDecoder().decode(data);
+	const header = text.split("\n", MARKER_SCAN_LINES).join("\n");
+	const marker = GENERATED_MARKERS.find(([pattern]) => pattern.test(header));
+	if (marker) {
+		return { source: "generated", rule: `“${marker[1]}” in the header` };
+	}
+
+	if (data.byteLength >= MINIFIED_MIN_BYTES) {
+		const lines = text.split("\n");
+		const longest = lines.reduce((max, line) => Math.max(max, line.length), 0);
+		const average = text.length / lines.length;
+		if (average > MINIFIED_AVERAGE_LINE || longest > MINIFIED_LONGEST_LINE) {
+			return {
+				source: "minified",
+				rule: `average line ${Math.round(average)} characters, longest ${longest}`,
+			};
+		}
+	}
+	return null;
+}
+
+/** Skip reason for a file that was given up on while inflating it. */
+export function oversizedSkip(limit: number): RepoFileSkip {
+	return { source: "size", rule: `over the ${formatMegabytes(limit)} limit` };
+}
+
+function formatMegabytes(bytes: number) {
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
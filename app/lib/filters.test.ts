@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { assertSafePattern } from "./filters";
+
+describe("assertSafePattern", () => {
+	it("accepts ordinary patterns", () => {
+		for (const source of [
+			"^rust\\b",
+			"(foo|bar)",
+			"\\d+ (apples|pears)",
+			"(ab)+c",
+			"[(|)*]+",
+			"a{2,3}",
+		]) {
+			expect(() => assertSafePattern(source)).not.toThrow();
+		}
+	});
+
+	it("rejects nested repetitions", () => {
+		for (const source of ["(a+)+", "(\\w*\\s?)*$", "((a+)b)*", "(x+){2,}"]) {
+			expect(() => assertSafePattern(source)).toThrow(/nested repetitions/);
+		}
+	});
+
+	it("rejects repeated alternations", () => {
+		for (const source of [
+			"(a|a)*$",
+			"(\\w|\\d)*!",
+			"((a|b)c)+",
+			"(?:x|y){1,}",
+		]) {
+			expect(() => assertSafePattern(source)).toThrow(/repeated alternations/);
+		}
+	});
+
+	it("rejects overly long patterns", () => {
+		expect(() => assertSafePattern("a".repeat(201))).toThrow(/200 characters/);
+	});
+});
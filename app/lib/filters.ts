@@ -0,0 +1,298 @@
+import { countWords } from "./bundle";
+import type { FeedEntryDraft } from "./feed";
+import type { EntryFilterName, EntryFilterReport } from "./types";
+
+export type EntryFilters = {
+	since: Date | null;
+	until: Date | null;
+	include: RegExp[];
+	exclude: RegExp[];
+	minWords: number | null;
+};
+
+export type EntryFiltersResult =
+	| { ok: true; filters: EntryFilters }
+	| { ok: false; error: string };
+
+/** Longest `/regex/` term accepted; matched against every entry's text. */
+const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Order in which filters are checked. An entry rejected by several filters is
+ * only counted against the first one.
+ */
+const FILTER_ORDER: EntryFilterName[] = [
+	"since",
+	"until",
+	"include",
+	"exclude",
+	"minWords",
+];
+
+/**
+ * Read the `since`, `until`, `include`, `exclude` and `minWords` form fields.
+ * Dates are `YYYY-MM-DD` and inclusive; keyword fields hold comma-separated
+ * terms matched case-insensitively, or `/pattern/flags` regular expressions.
+ */
+export function parseEntryFilters(formData: FormData): EntryFiltersResult {
+	const since = parseDate(formData.get("since"), "start");
+	const until = parseDate(formData.get("until"), "end");
+	if (since === undefined || until === undefined) {
+		return { ok: false, error: "Dates must use the YYYY-MM-DD format." };
+	}
+	if (since && until && since > until) {
+		return {
+			ok: false,
+			error: "The “since” date must be on or before the “until” date.",
+		};
+	}
+
+	let include: RegExp[];
+	let exclude: RegExp[];
+	try {
+		include = parseMatchers(formData.get("include"));
+		exclude = parseMatchers(formData.get("exclude"));
+	} catch (error) {
+		return {
+			ok: false,
+			error: `That keyword pattern can’t be used: ${
+				error instanceof Error ? error.message : "unknown error"
+			}.`,
+		};
+	}
+
+	const minWordsRaw = formData.get("minWords");
+	const minWords =
+		typeof minWordsRaw === "string" && minWordsRaw.trim().length > 0
+			? Number.parseInt(minWordsRaw, 10)
+			: null;
+	if (minWords !== null && (!Number.isInteger(minWords) || minWords < 0)) {
+		return {
+			ok: false,
+			error: "The minimum word count must be a whole number.",
+		};
+	}
+
+	return {
+		ok: true,
+		filters: {
+			since,
+			until,
+			include,
+			exclude,
+			minWords: minWords || null,
+		},
+	};
+}
+
+export function hasEntryFilters(filters: EntryFilters) {
+	return (
+		filters.since !== null ||
+		filters.until !== null ||
+		filters.include.length > 0 ||
+		filters.exclude.length > 0 ||
+		filters.minWords !== null
+	);
+}
+
+/**
+ * Drop the drafts that fail `filters` and report how many each filter
+ * removed. Run this before applying the entry limit so the limit counts
+ * matching entries only.
+ *
+ * Entries without a date are kept by the date filters, and the word count is
+ * measured on the feed body because linked articles are fetched later.
+ */
+export function applyEntryFilters<T extends FeedEntryDraft>(
+	drafts: T[],
+	filters: EntryFilters,
+): { drafts: T[]; removed: EntryFilterReport } {
+	const removed = createFilterReport();
+
+	const kept = drafts.filter((draft) => {
+		const rejectedBy = FILTER_ORDER.find(
+			(name) => !passesFilter(draft, name, filters),
+		);
+		if (rejectedBy) {
+			removed[rejectedBy] += 1;
+			return false;
+		}
+		return true;
+	});
+
+	return { drafts: kept, removed };
+}
+
+/**
+ * Add up the reports of several `applyEntryFilters` runs, e.g. one per feed.
+ */
+export function mergeFilterReports(reports: EntryFilterReport[]) {
+	const merged = createFilterReport();
+	for (const report of reports) {
+		for (const name of FILTER_ORDER) {
+			merged[name] += report[name];
+		}
+	}
+	return merged;
+}
+
+function createFilterReport(): EntryFilterReport {
+	return { since: 0, until: 0, include: 0, exclude: 0, minWords: 0 };
+}
+
+function passesFilter(
+	draft: FeedEntryDraft,
+	name: EntryFilterName,
+	filters: EntryFilters,
+) {
+	switch (name) {
+		case "since":
+		case "until": {
+			const bound = filters[name];
+			const date = parseEntryDate(draft);
+			if (!bound || !date) {
+				return true;
+			}
+			return name === "since" ? date >= bound : date <= bound;
+		}
+		case "include":
+			return (
+				filters.include.length === 0 ||
+				filters.include.some((matcher) => matchesEntry(draft, matcher))
+			);
+		case "exclude":
+			return !filters.exclude.some((matcher) => matchesEntry(draft, matcher));
+		case "minWords":
+			return (
+				filters.minWords === null ||
+				countWords(draft.feedText) >= filters.minWords
+			);
+	}
+}
+
+function parseEntryDate(draft: FeedEntryDraft) {
+	const value = draft.publishedAt ?? draft.updatedAt;
+	if (!value) {
+		return null;
+	}
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function matchesEntry(draft: FeedEntryDraft, matcher: RegExp) {
+	return matcher.test(draft.title) || matcher.test(draft.feedText);
+}
+
+/**
+ * Returns `null` for an empty field and `undefined` for an invalid one.
+ */
+function parseDate(value: FormDataEntryValue | null, edge: "start" | "end") {
+	if (typeof value !== "string" || value.trim().length === 0) {
+		return null;
+	}
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+	if (!match) {
+		return undefined;
+	}
+	const date = new Date(
+		`${match[0]}T${edge === "start" ? "00:00:00.000" : "23:59:59.999"}Z`,
+	);
+	return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseMatchers(value: FormDataEntryValue | null) {
+	if (typeof value !== "string") {
+		return [];
+	}
+	return splitTerms(value).map((term) => {
+		const regex = /^\/(.+)\/([a-z]*)$/.exec(term);
+		if (regex) {
+			assertSafePattern(regex[1]);
+			// Drop the global/sticky flags: they make `test` stateful.
+			return new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+		}
+		return new RegExp(escapeRegExp(term), "i");
+	});
+}
+
+/**
+ * Refuse user patterns that can backtrack catastrophically: overly long ones,
+ * and a repeated group that itself contains a repetition or an alternation,
+ * like `(a+)+`, `(\w*\s?)*` or `(a|a)*`. Matching runs on the server against
+ * fetched text.
+ */
+export function assertSafePattern(source: string) {
+	if (source.length > MAX_PATTERN_LENGTH) {
+		throw new Error(`patterns are limited to ${MAX_PATTERN_LENGTH} characters`);
+	}
+	// Whether each open group contains a quantifier or a `|` so far.
+	const groups = [{ repeats: false, alternates: false }];
+	let inClass = false;
+	for (let index = 0; index < source.length; index++) {
+		const char = source[index];
+		const group = groups[groups.length - 1];
+		if (char === "\\") {
+			index++;
+		} else if (inClass) {
+			inClass = char !== "]";
+		} else if (char === "[") {
+			inClass = true;
+		} else if (char === "(") {
+			groups.push({ repeats: false, alternates: false });
+		} else if (char === "|") {
+			group.alternates = true;
+		} else if (char === ")" && groups.length > 1) {
+			groups.pop();
+			const parent = groups[groups.length - 1];
+			const repeated = /^(?:[*+]|\{\d*,)/.test(source.slice(index + 1));
+			if (repeated && group.repeats) {
+				throw new Error(
+					"nested repetitions such as (a+)+ can take too long to match",
+				);
+			}
+			if (repeated && group.alternates) {
+				throw new Error(
+					"repeated alternations such as (a|b)* can take too long to match",
+				);
+			}
+			parent.repeats ||= group.repeats || repeated;
+			parent.alternates ||= group.alternates;
+		} else if (
+			char === "*" ||
+			char === "+" ||
+			/^\{\d*,/.test(source.slice(index))
+		) {
+			group.repeats = true;
+		}
+	}
+}
+
+/**
+ * Split on commas that are not inside a `/regex/` term.
+ */
+function splitTerms(value: string) {
+	const terms: string[] = [];
+	let current = "";
+	let inRegex = false;
+	for (const char of value) {
+		if (char === "/" && !current.endsWith("\\")) {
+			if (current.trim().length === 0) {
+				inRegex = true;
+			} else if (inRegex) {
+				inRegex = false;
+			}
+		}
+		if (char === "," && !inRegex) {
+			terms.push(current);
+			current = "";
+			continue;
+		}
+		current += char;
+	}
+	terms.push(current);
+	return terms.map((term) => term.trim()).filter(Boolean);
+}
+
+function escapeRegExp(value: string) {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
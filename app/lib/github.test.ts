@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseGitHubUrl, resolveGitHubRepo } from "./github";
+
+const SHA = "1a2b3c4d5e6f";
+
+/**
+ * Answer GitHub API requests from `routes` by path, with a 404 for anything
+ * else. Returns the requested paths.
+ */
+function stubGitHub(routes: Record<string, () => Response>) {
+	const requested: string[] = [];
+	vi.stubGlobal("fetch", async (input: URL) => {
+		const path = decodeURIComponent(input.pathname);
+		requested.push(path);
+		return routes[path]?.() ?? new Response("Not Found", { status: 404 });
+	});
+	return requested;
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe("parseGitHubUrl", () => {
+	it("reads owner/repo shorthands", () => {
+		expect(parseGitHubUrl(" octo/demo.git ")).toEqual({
+			owner: "octo",
+			repo: "demo",
+			rest: [],
+		});
+	});
+
+	it("keeps the path after /tree/ and the folder of a /blob/ link", () => {
+		expect(
+			parseGitHubUrl("https://github.com/octo/demo/tree/feature/x/docs"),
+		).toEqual({ owner: "octo", repo: "demo", rest: ["feature", "x", "docs"] });
+		expect(
+			parseGitHubUrl("https://www.github.com/octo/demo/blob/main/src/a.ts"),
+		).toEqual({ owner: "octo", repo: "demo", rest: ["main", "src"] });
+		expect(parseGitHubUrl("https://github.com/octo/demo/issues/1")).toEqual({
+			owner: "octo",
+			repo: "demo",
+			rest: [],
+		});
+	});
+
+	it("rejects other hosts and incomplete paths", () => {
+		expect(parseGitHubUrl("https://gitlab.com/octo/demo")).toBeNull();
+		expect(parseGitHubUrl("https://github.com/octo")).toBeNull();
+		expect(parseGitHubUrl("not a repo")).toBeNull();
+	});
+});
+
+describe("resolveGitHubRepo", () => {
+	const options = { ref: null, subdir: null, token: null };
+
+	it("uses the default branch when no ref is given", async () => {
+		stubGitHub({
+			"/repos/octo/demo": () =>
+				Response.json({ default_branch: "main", description: " Demo " }),
+			"/repos/octo/demo/commits/main": () => new Response(`${SHA}\n`),
+		});
+		const result = await resolveGitHubRepo(
+			{ owner: "octo", repo: "demo", rest: [] },
+			options,
+		);
+		expect(result).toEqual({
+			ok: true,
+			value: {
+				owner: "octo",
+				name: "demo",
+				url: "https://github.com/octo/demo",
+				description: "Demo",
+				ref: "main",
+				sha: SHA,
+				subdir: null,
+			},
+		});
+	});
+
+	it("splits a tree path into a slashed branch and a folder", async () => {
+		const requested = stubGitHub({
+			"/repos/octo/demo/commits/feature/x": () => new Response(SHA),
+		});
+		const result = await resolveGitHubRepo(
+			{ owner: "octo", repo: "demo", rest: ["feature", "x", "docs", "api"] },
+			options,
+		);
+		expect(result).toMatchObject({
+			ok: true,
+			value: { ref: "feature/x", sha: SHA, subdir: "docs/api" },
+		});
+		expect(requested).toEqual([
+			"/repos/octo/demo/commits/feature",
+			"/repos/octo/demo/commits/feature/x",
+		]);
+	});
+
+	it("prefers the form's ref and subdirectory over the link", async () => {
+		stubGitHub({
+			"/repos/octo/demo/commits/v1.0": () => new Response(SHA),
+		});
+		const result = await resolveGitHubRepo(
+			{ owner: "octo", repo: "demo", rest: ["main", "src"] },
+			{ ...options, ref: "v1.0", subdir: "/docs/" },
+		);
+		expect(result).toMatchObject({
+			ok: true,
+			value: { ref: "v1.0", subdir: "docs" },
+		});
+	});
+
+	it("answers 404 for an unknown ref", async () => {
+		stubGitHub({});
+		const result = await resolveGitHubRepo(
+			{ owner: "octo", repo: "demo", rest: [] },
+			{ ...options, ref: "nope" },
+		);
+		expect(result).toMatchObject({ ok: false, status: 404 });
+		expect(!result.ok && result.error).toContain("“nope”");
+	});
+});
@@ -0,0 +1,316 @@
+import { FEED_USER_AGENT } from "./feed";
+import type { GitHubRepoInfo } from "./types";
+
+const GITHUB_API_URL = "https://api.github.com";
+
+/** Zipballs larger than this are refused instead of being buffered. */
+export const MAX_REPO_ARCHIVE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * A repository link as pasted by the user. `rest` holds the path segments
+ * after `/tree/` or `/blob/`, which mix the ref and a subdirectory: a branch
+ * name may contain slashes, so the split is only known once the ref resolves.
+ */
+export type GitHubTarget = {
+	owner: string;
+	repo: string;
+	rest: string[];
+};
+
+export type GitHubResult<T> =
+	| { ok: true; value: T }
+	| { ok: false; status: number; error: string };
+
+/**
+ * Parse `owner/repo` or a github.com repository, tree or blob URL. Returns
+ * `null` for anything else.
+ */
+export function parseGitHubUrl(value: string): GitHubTarget | null {
+	const trimmed = value.trim();
+	const shorthand = /^([\w.-]+)\/([\w.-]+)$/.exec(trimmed);
+	if (shorthand) {
+		return {
+			owner: shorthand[1],
+			repo: stripGitSuffix(shorthand[2]),
+			rest: [],
+		};
+	}
+
+	let url: URL;
+	try {
+		url = new URL(trimmed);
+	} catch {
+		return null;
+	}
+	if (url.hostname !== "github.com" && url.hostname !== "www.github.com") {
+		return null;
+	}
+
+	const [owner, repo, kind, ...rest] = url.pathname
+		.split("/")
+		.filter(Boolean)
+		.map(decodeURIComponent);
+	if (!owner || !repo) {
+		return null;
+	}
+	return {
+		owner,
+		repo: stripGitSuffix(repo),
+		// A blob link points at a file; convert the folder it lives in.
+		rest: kind === "tree" ? rest : kind === "blob" ? rest.slice(0, -1) : [],
+	};
+}
+
+/**
+ * Resolve the ref and subdirectory of a target to a commit. An explicit `ref`
+ * or `subdir` from the form wins over what the URL says; without any ref the
+ * repository's default branch is used. With `publicOnly`, repositories the
+ * token can see but that aren't public are refused, so a server-wide token
+ * never exposes private code to whoever fills in the form.
+ */
+export async function resolveGitHubRepo(
+	target: GitHubTarget,
+	{
+		ref,
+		subdir,
+		token,
+		publicOnly = false,
+	}: {
+		ref: string | null;
+		subdir: string | null;
+		token: string | null;
+		publicOnly?: boolean;
+	},
+): Promise<GitHubResult<GitHubRepoInfo>> {
+	const repoPath = `/repos/${encodeURIComponent(target.owner)}/${encodeURIComponent(target.repo)}`;
+	if (publicOnly) {
+		const repo = await githubFetch(repoPath, token);
+		if (!repo.ok) {
+			return repo;
+		}
+		const { private: isPrivate } = (await repo.value.json()) as {
+			private: boolean;
+		};
+		if (isPrivate) {
+			return {
+				ok: false,
+				status: 404,
+				error:
+					"We couldn’t find that repository. Private repositories need an access token.",
+			};
+		}
+	}
+	const toInfo = (
+		resolvedRef: string,
+		sha: string,
+		urlSubdir: string | null,
+		description: string | null = null,
+	): GitHubResult<GitHubRepoInfo> => ({
+		ok: true,
+		value: {
+			owner: target.owner,
+			name: target.repo,
+			url: `https://github.com/${target.owner}/${target.repo}`,
+			description,
+			ref: resolvedRef,
+			sha,
+			subdir: normalizeSubdir(subdir ?? urlSubdir),
+		},
+	});
+
+	if (ref) {
+		const sha = await fetchCommitSha(repoPath, ref, token);
+		if (!sha.ok) {
+			return sha.status === 404
+				? {
+						ok: false,
+						status: 404,
+						error: `We couldn’t find a branch, tag or commit named “${ref}” in ${target.owner}/${target.repo}.`,
+					}
+				: sha;
+		}
+		// The URL's tree path mixes its own ref into the folder, so only the
+		// form's subdirectory applies here.
+		return toInfo(ref, sha.value, null);
+	}
+
+	if (target.rest.length === 0) {
+		const repo = await githubFetch(repoPath, token);
+		if (!repo.ok) {
+			return repo;
+		}
+		const { default_branch: defaultBranch, description } =
+			(await repo.value.json()) as {
+				default_branch: string;
+				description: string | null;
+			};
+		const sha = await fetchCommitSha(repoPath, defaultBranch, token);
+		return sha.ok
+			? toInfo(defaultBranch, sha.value, null, description?.trim() || null)
+			: sha;
+	}
+
+	// Try the shortest prefix first: git cannot have both `a` and `a/b` as
+	// branch names, so the first prefix that resolves is the ref.
+	for (let length = 1; length <= target.rest.length; length++) {
+		const candidate = target.rest.slice(0, length).join("/");
+		const sha = await fetchCommitSha(repoPath, candidate, token);
+		if (sha.ok) {
+			return toInfo(candidate, sha.value, target.rest.slice(length).join("/"));
+		}
+		if (sha.status !== 404) {
+			return sha;
+		}
+	}
+	const repo = await githubFetch(repoPath, token);
+	if (!repo.ok) {
+		return repo;
+	}
+	await repo.value.body?.cancel();
+	return {
+		ok: false,
+		status: 404,
+		error: `We couldn’t find the branch or tag in that link to ${target.owner}/${target.repo}.`,
+	};
+}
+
+/**
+ * Download the zipball of a resolved commit.
+ */
+export async function downloadGitHubArchive(
+	repo: GitHubRepoInfo,
+	token: string | null,
+): Promise<GitHubResult<ArrayBuffer>> {
+	const response = await githubFetch(
+		`/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}/zipball/${repo.sha}`,
+		token,
+	);
+	if (!response.ok) {
+		return response;
+	}
+
+	const tooLarge = {
+		ok: false,
+		status: 413,
+		error: `That repository is larger than ${MAX_REPO_ARCHIVE_BYTES / 1024 / 1024} MB. Pick a subdirectory link or a smaller repository.`,
+	} as const;
+	const length = Number(response.value.headers.get("content-length"));
+	if (length > MAX_REPO_ARCHIVE_BYTES) {
+		await response.value.body?.cancel();
+		return tooLarge;
+	}
+
+	// Zipballs are usually sent without a length, so count while reading.
+	const body = response.value.body;
+	if (!body) {
+		return { ok: true, value: new ArrayBuffer(0) };
+	}
+	const chunks: Uint8Array[] = [];
+	let received = 0;
+	const reader = body.getReader();
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		received += value.byteLength;
+		if (received > MAX_REPO_ARCHIVE_BYTES) {
+			await reader.cancel();
+			return tooLarge;
+		}
+		chunks.push(value);
+	}
+	const archive = new Uint8Array(received);
+	let offset = 0;
+	for (const chunk of chunks) {
+		archive.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return { ok: true, value: archive.buffer };
+}
+
+async function fetchCommitSha(
+	repoPath: string,
+	ref: string,
+	token: string | null,
+): Promise<GitHubResult<string>> {
+	const encodedRef = ref.split("/").map(encodeURIComponent).join("/");
+	const response = await githubFetch(
+		`${repoPath}/commits/${encodedRef}`,
+		token,
+		"application/vnd.github.sha",
+	);
+	if (!response.ok) {
+		return response;
+	}
+	return { ok: true, value: (await response.value.text()).trim() };
+}
+
+async function githubFetch(
+	path: string,
+	token: string | null,
+	accept = "application/vnd.github+json",
+): Promise<GitHubResult<Response>> {
+	const headers: Record<string, string> = {
+		Accept: accept,
+		"User-Agent": FEED_USER_AGENT,
+		"X-GitHub-Api-Version": "2022-11-28",
+	};
+	if (token) {
+		headers.Authorization = `Bearer ${token}`;
+	}
+
+	const response = await fetch(new URL(path, GITHUB_API_URL), { headers });
+	if (response.ok) {
+		return { ok: true, value: response };
+	}
+	await response.body?.cancel();
+
+	if (response.status === 401) {
+		return {
+			ok: false,
+			status: 401,
+			error: "GitHub rejected the access token. Check that it is valid.",
+		};
+	}
+	if (
+		(response.status === 403 || response.status === 429) &&
+		response.headers.get("x-ratelimit-remaining") === "0"
+	) {
+		return {
+			ok: false,
+			status: 429,
+			error: token
+				? "The GitHub API rate limit for this token is used up. Try again later."
+				: "The GitHub API rate limit is used up. Add a token or try again later.",
+		};
+	}
+	// GitHub answers 404 for private repositories the caller cannot see, and
+	// 422 for refs that do not exist.
+	if (response.status === 404 || response.status === 422) {
+		return {
+			ok: false,
+			status: 404,
+			error: token
+				? "We couldn’t find that repository, or the token can’t access it."
+				: "We couldn’t find that repository. Private repositories need an access token.",
+		};
+	}
+	return {
+		ok: false,
+		status: 502,
+		error: `We couldn’t reach GitHub (status ${response.status}). Please try again later.`,
+	};
+}
+
+function stripGitSuffix(repo: string) {
+	return repo.replace(/\.git$/, "");
+}
+
+function normalizeSubdir(subdir: string | null) {
+	const normalized = subdir
+		?.split("/")
+		.filter((segment) => segment && segment !== "." && segment !== "..")
+		.join("/");
+	return normalized || null;
+}
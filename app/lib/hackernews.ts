@@ -0,0 +1,152 @@
+import { htmlToPlainText } from "./article";
+import {
+	DEFAULT_POINTS_THRESHOLD,
+	HACKERNEWS_LISTS,
+	type HackerNewsList,
+	MAX_COMMENTS_PER_STORY,
+} from "./builder-options";
+import { getFetchSchedulerOptions, scheduleFetches } from "./fetch-scheduler";
+import { cachedFetch } from "./http-cache";
+import type { EntryComment } from "./types";
+
+const HNRSS_BASE_URL = "https://hnrss.org";
+const HACKERNEWS_ITEM_API = "https://hacker-news.firebaseio.com/v0/item";
+
+/**
+ * hnrss.org URL for a story list. The points list is the newest stories
+ * that reached `points`.
+ */
+export function getHackerNewsFeedUrl(
+	list: HackerNewsList,
+	{ points = DEFAULT_POINTS_THRESHOLD }: { points?: number } = {},
+) {
+	const url = new URL(HACKERNEWS_LISTS[list].path, HNRSS_BASE_URL);
+	if (list === "points") {
+		url.searchParams.set("points", String(points));
+	}
+	return url;
+}
+
+/**
+ * Read the story id from an hnrss item, whose guid (and comments link) is the
+ * `news.ycombinator.com/item?id=` page.
+ */
+export function getStoryId(item: { guid?: string | null; url: string }) {
+	for (const value of [item.guid, item.url]) {
+		const match = value?.match(/news\.ycombinator\.com\/item\?id=(\d+)/);
+		if (match) {
+			return Number(match[1]);
+		}
+	}
+	return null;
+}
+
+export type CommentThreadOptions = {
+	/** Reply levels to follow; 1 keeps only top-level comments. */
+	depth: number;
+	/**
+	 * Comments kept per story and per parent comment, in HN ranking order,
+	 * within `MAX_COMMENTS_PER_STORY` in total.
+	 */
+	count: number;
+};
+
+type HackerNewsItem = {
+	id: number;
+	by?: string;
+	time?: number;
+	text?: string;
+	kids?: number[];
+	deleted?: boolean;
+	dead?: boolean;
+};
+
+/**
+ * Fetch the top comment tree of every story from the HN item API. Each level
+ * of the trees is fetched in one scheduled batch across all stories; deleted,
+ * dead and unreachable comments are left out. A story stops queuing replies
+ * once `MAX_COMMENTS_PER_STORY` of its comments are fetched, so the number of
+ * requests stays linear in the number of stories instead of growing as
+ * `count ** depth`. Results keep the order of `storyIds`.
+ */
+export async function fetchCommentThreads(
+	storyIds: Array<number | null>,
+	{ depth, count }: CommentThreadOptions,
+): Promise<EntryComment[][]> {
+	const items = new Map<number, HackerNewsItem>();
+	let pending = storyIds.filter((id): id is number => id !== null);
+	// The story each fetched item belongs to, and its comments queued so far.
+	const storyOf = new Map(pending.map((id) => [id, id]));
+	const queued = new Map<number, number>();
+
+	// Level 0 holds the stories themselves, level N the Nth level of replies.
+	for (let level = 0; level <= depth && pending.length > 0; level += 1) {
+		const fetched = await fetchItems(pending);
+		for (const item of fetched) {
+			items.set(item.id, item);
+		}
+		if (level === depth) {
+			break;
+		}
+		pending = [];
+		for (const item of fetched) {
+			const story = storyOf.get(item.id) ?? item.id;
+			for (const kid of topKids(item, count)) {
+				const total = queued.get(story) ?? 0;
+				if (total >= MAX_COMMENTS_PER_STORY) {
+					break;
+				}
+				queued.set(story, total + 1);
+				storyOf.set(kid, story);
+				pending.push(kid);
+			}
+		}
+	}
+
+	const buildReplies = (parent: HackerNewsItem, level: number) =>
+		topKids(parent, count).flatMap((id): EntryComment[] => {
+			const item = items.get(id);
+			if (!item || item.deleted || item.dead || !item.text) {
+				return [];
+			}
+			return [
+				{
+					id: String(item.id),
+					author: item.by ?? null,
+					postedAt: item.time ? new Date(item.time * 1000).toISOString() : null,
+					text: htmlToPlainText(item.text),
+					replies: level < depth ? buildReplies(item, level + 1) : [],
+				},
+			];
+		});
+
+	return storyIds.map((id) => {
+		const story = id === null ? undefined : items.get(id);
+		return story ? buildReplies(story, 1) : [];
+	});
+}
+
+function topKids(item: HackerNewsItem, count: number) {
+	return (item.kids ?? []).slice(0, count);
+}
+
+async function fetchItems(ids: number[]) {
+	const options = getFetchSchedulerOptions();
+	const results = await scheduleFetches(
+		ids.map((id) => `${HACKERNEWS_ITEM_API}/${id}.json`),
+		async (url, signal) => {
+			const response = await cachedFetch(url, { signal });
+			if (!response.ok) {
+				throw new Error(`Failed to fetch item (status ${response.status})`);
+			}
+			return (await response.json()) as HackerNewsItem | null;
+		},
+		// Every request goes to the same API host, so the per-host limit
+		// would serialize the whole tree.
+		{ ...options, perHostConcurrency: options.concurrency },
+	);
+
+	return results.flatMap((result) =>
+		result.ok && result.value ? [result.value] : [],
+	);
+}
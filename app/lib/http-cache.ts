@@ -0,0 +1,432 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomBytes } from "node:crypto";
+import {
+	mkdir,
+	readdir,
+	readFile,
+	rename,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import type { HttpCacheStats } from "./types";
+
+const DEFAULT_CACHE_DIR = ".cache/http";
+/** Bodies larger than this are passed through without being stored. */
+const MAX_CACHED_BODY_BYTES = 10 * 1024 * 1024;
+/** Upper bound for the freshness guessed from `Last-Modified` alone. */
+const MAX_HEURISTIC_FRESHNESS_MS = 24 * 60 * 60_000;
+/** Size the cache is trimmed to, least recently written entries first. */
+const DEFAULT_CACHE_MAX_MB = 500;
+/** Entries not written for this long are removed. */
+const DEFAULT_CACHE_MAX_AGE_DAYS = 30;
+/** The cache directory is swept at most this often. */
+const SWEEP_INTERVAL_MS = 10 * 60_000;
+const STORED_HEADERS = [
+	"age",
+	"cache-control",
+	"content-type",
+	"date",
+	"etag",
+	"expires",
+	"last-modified",
+];
+
+type StoredResponse = {
+	url: string;
+	/** The URL after redirects, reported as `Response.url`. */
+	finalUrl: string;
+	status: number;
+	headers: Record<string, string>;
+	storedAt: number;
+};
+
+type StoredValue<T> = {
+	storedAt: number;
+	value: T;
+};
+
+// Counters of the build running in the current async context; builds that
+// did not ask for stats share no counters.
+const statsStorage = new AsyncLocalStorage<HttpCacheStats>();
+
+let lastSweepAt = 0;
+
+/**
+ * Where cached responses and extractions are kept: `HTTP_CACHE_DIR`, or
+ * `.cache/http` in the working directory. `HTTP_CACHE_DIR=off` turns the
+ * cache off.
+ */
+export function getHttpCacheDir() {
+	const configured = process.env.HTTP_CACHE_DIR?.trim();
+	if (configured === "off") {
+		return null;
+	}
+	return path.resolve(configured || DEFAULT_CACHE_DIR);
+}
+
+/**
+ * Run a build while counting how the cache served its requests; read the
+ * counts with `getHttpCacheStats` before the response is built.
+ */
+export function withHttpCacheStats<T>(run: () => Promise<T>): Promise<T> {
+	return statsStorage.run(
+		{ hits: 0, revalidated: 0, misses: 0, reused: 0 },
+		run,
+	);
+}
+
+export function getHttpCacheStats(): HttpCacheStats | undefined {
+	const stats = statsStorage.getStore();
+	return stats ? { ...stats } : undefined;
+}
+
+/**
+ * `fetch` for GET requests through a shared filesystem cache. Fresh
+ * responses (`Cache-Control: max-age`, `Expires`, or a tenth of the age
+ * implied by `Last-Modified`) are served without a request; stale ones are
+ * revalidated with `If-None-Match`/`If-Modified-Since` and reused on a 304.
+ * Only `200` responses are stored, never with `no-store` or `private`.
+ * Entries are keyed by URL, `Accept` and `User-Agent`.
+ */
+export async function cachedFetch(
+	url: string | URL,
+	init: { headers?: Record<string, string>; signal?: AbortSignal } = {},
+): Promise<Response> {
+	const href = url instanceof URL ? url.href : url;
+	const dir = getHttpCacheDir();
+	if (!dir) {
+		return fetch(href, init);
+	}
+	scheduleSweep(dir);
+
+	const key = hashParts([
+		href,
+		init.headers?.Accept ?? "",
+		init.headers?.["User-Agent"] ?? "",
+	]);
+	const metaPath = getEntryPath(dir, "responses", key, "json");
+	const bodyPath = getEntryPath(dir, "responses", key, "body");
+	const cached = await readCachedResponse(metaPath, bodyPath);
+	const now = Date.now();
+	if (cached && isFresh(cached.meta, now)) {
+		count("hits");
+		return toResponse(cached.meta, cached.body);
+	}
+
+	const headers = { ...init.headers };
+	if (cached?.meta.headers.etag) {
+		headers["If-None-Match"] = cached.meta.headers.etag;
+	}
+	if (cached?.meta.headers["last-modified"]) {
+		headers["If-Modified-Since"] = cached.meta.headers["last-modified"];
+	}
+	const response = await fetch(href, { ...init, headers });
+
+	if (cached && response.status === 304) {
+		await response.body?.cancel();
+		const meta: StoredResponse = {
+			...cached.meta,
+			headers: { ...cached.meta.headers, ...pickHeaders(response.headers) },
+			storedAt: now,
+		};
+		try {
+			await writeAtomically(metaPath, JSON.stringify(meta));
+		} catch (error) {
+			console.error(`Failed to cache ${href}:`, error);
+		}
+		count("revalidated");
+		return toResponse(meta, cached.body);
+	}
+
+	count("misses");
+	const declaredLength = Number(response.headers.get("content-length"));
+	if (
+		response.status !== 200 ||
+		!isStorable(response.headers) ||
+		declaredLength > MAX_CACHED_BODY_BYTES
+	) {
+		return response;
+	}
+	const body = new Uint8Array(await response.arrayBuffer());
+	const meta: StoredResponse = {
+		url: href,
+		finalUrl: response.url || href,
+		status: response.status,
+		headers: pickHeaders(response.headers),
+		storedAt: now,
+	};
+	if (body.byteLength <= MAX_CACHED_BODY_BYTES) {
+		try {
+			await writeAtomically(bodyPath, body);
+			await writeAtomically(metaPath, JSON.stringify(meta));
+		} catch (error) {
+			console.error(`Failed to cache ${href}:`, error);
+		}
+	}
+	return toResponse(meta, body);
+}
+
+/**
+ * Reuse a value computed from a fetched document, e.g. a page's Readability
+ * extraction keyed by its URL and a hash of its HTML, so unchanged pages are
+ * not processed again. `null` results are not stored.
+ */
+export async function cachedValue<T>(
+	namespace: string,
+	keyParts: string[],
+	compute: () => T | Promise<T>,
+	{ maxAgeMs = Number.POSITIVE_INFINITY }: { maxAgeMs?: number } = {},
+): Promise<T> {
+	const dir = getHttpCacheDir();
+	if (!dir) {
+		return compute();
+	}
+	scheduleSweep(dir);
+
+	const entryPath = getEntryPath(dir, namespace, hashParts(keyParts), "json");
+	try {
+		const stored = JSON.parse(
+			await readFile(entryPath, "utf-8"),
+		) as StoredValue<T>;
+		if (Date.now() - stored.storedAt < maxAgeMs) {
+			count("reused");
+			return stored.value;
+		}
+	} catch {
+		// Not cached yet, or unreadable; compute it again.
+	}
+
+	const value = await compute();
+	if (value !== null && value !== undefined) {
+		try {
+			await writeAtomically(
+				entryPath,
+				JSON.stringify({ storedAt: Date.now(), value }),
+			);
+		} catch (error) {
+			console.error(`Failed to cache ${namespace} result:`, error);
+		}
+	}
+	return value;
+}
+
+/**
+ * Hash of a document body, for `cachedValue` keys.
+ */
+export function hashContent(content: string | Uint8Array) {
+	return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Start a sweep of the cache directory in the background unless one ran
+ * recently. Limits come from `HTTP_CACHE_MAX_MB` and
+ * `HTTP_CACHE_MAX_AGE_DAYS`.
+ */
+function scheduleSweep(dir: string) {
+	const now = Date.now();
+	if (now - lastSweepAt < SWEEP_INTERVAL_MS) {
+		return;
+	}
+	lastSweepAt = now;
+	sweepCache(dir, {
+		maxBytes:
+			readPositiveInt(process.env.HTTP_CACHE_MAX_MB, DEFAULT_CACHE_MAX_MB) *
+			1024 *
+			1024,
+		maxAgeMs:
+			readPositiveInt(
+				process.env.HTTP_CACHE_MAX_AGE_DAYS,
+				DEFAULT_CACHE_MAX_AGE_DAYS,
+			) *
+			24 *
+			60 *
+			60_000,
+	}).catch((error) => {
+		console.error("Failed to sweep the HTTP cache:", error);
+	});
+}
+
+/**
+ * Remove entries older than `maxAgeMs`, then the least recently written ones
+ * until the rest fit in `maxBytes`. A stored response's metadata and body
+ * count as one entry and are removed together.
+ */
+async function sweepCache(
+	dir: string,
+	{ maxBytes, maxAgeMs }: { maxBytes: number; maxAgeMs: number },
+) {
+	const entries = new Map<
+		string,
+		{ files: string[]; size: number; writtenAt: number }
+	>();
+	// Nothing to sweep before the first entry is written.
+	const files = await readdir(dir, { recursive: true }).catch(() => []);
+	for (const file of files) {
+		const filePath = path.join(dir, file);
+		const info = await stat(filePath).catch(() => null);
+		if (!info?.isFile()) {
+			continue;
+		}
+		// Leftover temporary files belong to no entry; they age out alone.
+		const key = file.endsWith(".tmp") ? file : file.replace(/\.[^./]+$/, "");
+		const entry = entries.get(key) ?? { files: [], size: 0, writtenAt: 0 };
+		entry.files.push(filePath);
+		entry.size += info.size;
+		entry.writtenAt = Math.max(entry.writtenAt, info.mtimeMs);
+		entries.set(key, entry);
+	}
+
+	const now = Date.now();
+	let total = 0;
+	const newestFirst = [...entries.values()].sort(
+		(a, b) => b.writtenAt - a.writtenAt,
+	);
+	for (const entry of newestFirst) {
+		if (now - entry.writtenAt > maxAgeMs || total + entry.size > maxBytes) {
+			await Promise.all(entry.files.map((file) => rm(file, { force: true })));
+		} else {
+			total += entry.size;
+		}
+	}
+}
+
+async function readCachedResponse(metaPath: string, bodyPath: string) {
+	try {
+		const meta = JSON.parse(
+			await readFile(metaPath, "utf-8"),
+		) as StoredResponse;
+		const body = new Uint8Array(await readFile(bodyPath));
+		return { meta, body };
+	} catch {
+		return null;
+	}
+}
+
+function toResponse(meta: StoredResponse, body: Uint8Array<ArrayBuffer>) {
+	const response = new Response(body, {
+		status: meta.status,
+		headers: meta.headers,
+	});
+	// Constructed responses have an empty `url`; callers resolve links and
+	// report redirects with it.
+	Object.defineProperty(response, "url", { value: meta.finalUrl });
+	return response;
+}
+
+function isStorable(headers: Headers) {
+	const directives = parseCacheControl(headers.get("cache-control"));
+	if (directives.has("no-store") || directives.has("private")) {
+		return false;
+	}
+	if (headers.get("vary")?.trim() === "*") {
+		return false;
+	}
+	return (
+		headers.has("etag") ||
+		headers.has("last-modified") ||
+		getFreshnessLifetime(pickHeaders(headers), Date.now()) > 0
+	);
+}
+
+function isFresh(meta: StoredResponse, now: number) {
+	const initialAge = Number.parseInt(meta.headers.age ?? "", 10) || 0;
+	const age = initialAge * 1000 + (now - meta.storedAt);
+	return age < getFreshnessLifetime(meta.headers, meta.storedAt);
+}
+
+/**
+ * How long a response stays fresh, in milliseconds, following RFC 9111 for
+ * a shared cache: `s-maxage`, then `max-age`, then `Expires`, then the
+ * `Last-Modified` heuristic.
+ */
+function getFreshnessLifetime(
+	headers: Record<string, string>,
+	storedAt: number,
+) {
+	const directives = parseCacheControl(headers["cache-control"]);
+	if (directives.has("no-cache")) {
+		return 0;
+	}
+	const maxAge = directives.get("s-maxage") ?? directives.get("max-age");
+	if (maxAge !== undefined) {
+		const seconds = Number.parseInt(maxAge ?? "", 10);
+		return Number.isFinite(seconds) ? seconds * 1000 : 0;
+	}
+
+	const date = Date.parse(headers.date ?? "") || storedAt;
+	if (headers.expires) {
+		const expires = Date.parse(headers.expires);
+		return Number.isNaN(expires) ? 0 : Math.max(0, expires - date);
+	}
+	const lastModified = Date.parse(headers["last-modified"] ?? "");
+	if (!Number.isNaN(lastModified)) {
+		return Math.min(
+			Math.max(0, (date - lastModified) / 10),
+			MAX_HEURISTIC_FRESHNESS_MS,
+		);
+	}
+	return 0;
+}
+
+function parseCacheControl(value: string | null | undefined) {
+	const directives = new Map<string, string | null>();
+	for (const part of (value ?? "").split(",")) {
+		const [name, argument] = part.split("=", 2);
+		if (name.trim()) {
+			directives.set(
+				name.trim().toLowerCase(),
+				argument?.trim().replace(/^"|"$/g, "") ?? null,
+			);
+		}
+	}
+	return directives;
+}
+
+function pickHeaders(headers: Headers) {
+	const picked: Record<string, string> = {};
+	for (const name of STORED_HEADERS) {
+		const value = headers.get(name);
+		if (value !== null) {
+			picked[name] = value;
+		}
+	}
+	return picked;
+}
+
+function count(counter: keyof HttpCacheStats) {
+	const stats = statsStorage.getStore();
+	if (stats) {
+		stats[counter]++;
+	}
+}
+
+function readPositiveInt(raw: string | undefined, fallback: number) {
+	const parsed = Number.parseInt(raw ?? "", 10);
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function hashParts(parts: string[]) {
+	return createHash("sha256").update(parts.join("\n")).digest("hex");
+}
+
+function getEntryPath(
+	dir: string,
+	namespace: string,
+	key: string,
+	extension: string,
+) {
+	return path.join(dir, namespace, key.slice(0, 2), `${key}.${extension}`);
+}
+
+/**
+ * Write through a temporary file so concurrent builds never read a partly
+ * written entry.
+ */
+async function writeAtomically(filePath: string, data: string | Uint8Array) {
+	await mkdir(path.dirname(filePath), { recursive: true });
+	const temporaryPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+	await writeFile(temporaryPath, data);
+	await rename(temporaryPath, filePath);
+}
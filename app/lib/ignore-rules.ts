@@ -0,0 +1,163 @@
+/**
+ * One line of a `.gitignore`-style file, compiled to a regular expression
+ * that is matched against paths relative to `base`.
+ */
+export type IgnoreRule = {
+	/** Where the rule was read from, e.g. `docs/.gitignore` or `exclude`. */
+	source: string;
+	/** The pattern as written, including a leading `!`. */
+	pattern: string;
+	/** Directory the rule is scoped to, with a trailing slash, or `""`. */
+	base: string;
+	negated: boolean;
+	directoryOnly: boolean;
+	regex: RegExp;
+};
+
+/**
+ * Parse `.gitignore` syntax: blank lines and `#` comments are skipped, `!`
+ * re-includes, a trailing `/` only matches directories and a pattern with a
+ * slash before its end is anchored to `base` instead of matching at any depth.
+ */
+export function parseIgnoreRules(
+	text: string,
+	{ source, base = "" }: { source: string; base?: string },
+): IgnoreRule[] {
+	const rules: IgnoreRule[] = [];
+	for (const rawLine of text.split(/\r?\n/)) {
+		// Trailing spaces are ignored unless escaped with a backslash.
+		const line = rawLine.replace(/(?<!\\)\s+$/, "");
+		if (!line || line.startsWith("#")) continue;
+
+		const negated = line.startsWith("!");
+		let pattern = negated ? line.slice(1) : line;
+		if (pattern.startsWith("\\#") || pattern.startsWith("\\!")) {
+			pattern = pattern.slice(1);
+		}
+		const directoryOnly = pattern.endsWith("/");
+		pattern = pattern.replace(/\/+$/, "");
+		if (!pattern) continue;
+
+		const anchored = pattern.includes("/");
+		pattern = pattern.replace(/^\/+/, "");
+		rules.push({
+			source,
+			pattern: line,
+			base,
+			negated,
+			directoryOnly,
+			regex: new RegExp(
+				`^${anchored ? "" : "(?:.*/)?"}${globToRegExpSource(pattern)}$`,
+			),
+		});
+	}
+	return rules;
+}
+
+/**
+ * Rules from a comma- or newline-separated list of patterns typed into a
+ * form, anchored at the repository root.
+ */
+export function parsePatternList(
+	value: string | null,
+	source: string,
+): IgnoreRule[] {
+	return value
+		? parseIgnoreRules(
+				value
+					.split(/[,\n]/)
+					.map((pattern) => pattern.trim())
+					.join("\n"),
+				{ source },
+			)
+		: [];
+}
+
+/**
+ * Build a matcher that returns the rule excluding a file path, or `null`.
+ * Later rules win over earlier ones, and a file inside an excluded directory
+ * stays excluded even if a later rule re-includes the file itself, as in git.
+ */
+export function createIgnoreMatcher(rules: IgnoreRule[]) {
+	const directories = new Map<string, IgnoreRule | null>();
+
+	const matchDirectory = (path: string): IgnoreRule | null => {
+		const cached = directories.get(path);
+		if (cached !== undefined) {
+			return cached;
+		}
+		const parent = path.includes("/")
+			? matchDirectory(path.slice(0, path.lastIndexOf("/")))
+			: null;
+		const result = parent ?? findLastMatch(rules, path, true);
+		directories.set(path, result);
+		return result;
+	};
+
+	return (path: string): IgnoreRule | null => {
+		const parent = path.includes("/")
+			? matchDirectory(path.slice(0, path.lastIndexOf("/")))
+			: null;
+		return parent ?? findLastMatch(rules, path, false);
+	};
+}
+
+function findLastMatch(
+	rules: IgnoreRule[],
+	path: string,
+	isDirectory: boolean,
+): IgnoreRule | null {
+	for (let index = rules.length - 1; index >= 0; index--) {
+		const rule = rules[index];
+		if (rule.directoryOnly && !isDirectory) continue;
+		if (!path.startsWith(rule.base)) continue;
+		if (rule.regex.test(path.slice(rule.base.length))) {
+			return rule.negated ? null : rule;
+		}
+	}
+	return null;
+}
+
+function globToRegExpSource(glob: string) {
+	let source = "";
+	for (let index = 0; index < glob.length; index++) {
+		const char = glob[index];
+		if (char === "*" && glob[index + 1] === "*") {
+			const atSegmentStart = index === 0 || glob[index - 1] === "/";
+			if (atSegmentStart && glob[index + 2] === "/") {
+				// `**/` matches zero or more directories.
+				source += "(?:.*/)?";
+				index += 2;
+			} else if (atSegmentStart && index + 2 === glob.length) {
+				// A trailing `/**` matches everything inside.
+				source += ".*";
+				index += 1;
+			} else {
+				source += "[^/]*";
+				index += 1;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "[") {
+			const end = glob.indexOf("]", index + 2);
+			if (end === -1) {
+				source += "\\[";
+				continue;
+			}
+			source += `[${glob.slice(index + 1, end).replace(/^!/, "^")}]`;
+			index = end;
+		} else if (char === "\\" && index + 1 < glob.length) {
+			source += escapeRegExp(glob[index + 1]);
+			index += 1;
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+	return source;
+}
+
+function escapeRegExp(value: string) {
+	return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
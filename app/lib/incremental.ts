@@ -0,0 +1,309 @@
+import { createHash, randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import JSZip from "jszip";
+import type { FeedEntryDraft } from "./feed";
+import type {
+	DroppedDuplicate,
+	FeedEntry,
+	IncrementalReport,
+	PreviousBundleReference,
+} from "./types";
+
+const DEFAULT_STATE_DIR = ".cache/feed-state";
+/** Entries remembered per source; older ones fall out as feeds move on. */
+const MAX_STORED_ENTRIES = 2000;
+/** Random keys from `crypto.randomUUID`, or anything at least as long. */
+const STATE_TOKEN_PATTERN = /^[\w-]{32,128}$/;
+
+/**
+ * The GUIDs and URLs of a previous export, and where they came from.
+ */
+export type PreviousEntries = {
+	reference: PreviousBundleReference;
+	guids: Set<string>;
+	urls: Set<string>;
+};
+
+export type PreviousManifestResult =
+	| { ok: true; previous: PreviousEntries }
+	| { ok: false; error: string };
+
+/**
+ * The incremental-export fields of a builder form: an uploaded previous
+ * manifest, and the state token under which the last export was stored when
+ * the build should compare against, and then update, that state. The token
+ * is the browser's own, so one visitor's exports never affect another's.
+ */
+export type IncrementalOptions = {
+	manifest: PreviousEntries | null;
+	stateToken: string | null;
+};
+
+export type IncrementalOptionsResult =
+	| { ok: true; options: IncrementalOptions }
+	| { ok: false; error: string };
+
+type ManifestEntry = { url?: unknown; guid?: unknown };
+
+type StoredFeedState = {
+	source: string;
+	updatedAt: string;
+	fileName: string;
+	entries: { guid: string | null; url: string }[];
+};
+
+/**
+ * Read the `previousManifest` upload, the `sinceLastExport` checkbox and the
+ * `stateToken` the form sends along with it.
+ */
+export async function parseIncrementalOptions(
+	formData: FormData,
+): Promise<IncrementalOptionsResult> {
+	let stateToken: string | null = null;
+	if (formData.get("sinceLastExport") === "on") {
+		const value = formData.get("stateToken");
+		if (typeof value !== "string" || !STATE_TOKEN_PATTERN.test(value)) {
+			return {
+				ok: false,
+				error:
+					"This browser has no key for its earlier exports. Allow site storage, or upload the previous bundle instead.",
+			};
+		}
+		stateToken = value;
+	}
+	const upload = formData.get("previousManifest");
+	if (!(upload instanceof File) || upload.size === 0) {
+		return { ok: true, options: { manifest: null, stateToken } };
+	}
+	const result = await readPreviousManifest(upload);
+	if (!result.ok) {
+		return result;
+	}
+	return { ok: true, options: { manifest: result.previous, stateToken } };
+}
+
+/**
+ * The entries to leave out of a new export of `source`: the uploaded
+ * manifest's when there is one, otherwise the stored state's, if asked for.
+ */
+export async function resolvePreviousEntries(
+	options: IncrementalOptions,
+	source: string,
+) {
+	if (options.manifest) {
+		return options.manifest;
+	}
+	return options.stateToken ? loadFeedState(options.stateToken, source) : null;
+}
+
+/**
+ * Store the export's entries for the next `sinceLastExport` build of
+ * `source` with the same state token. Failures are logged; the export itself
+ * already succeeded.
+ */
+export async function rememberExport(
+	options: IncrementalOptions,
+	source: string,
+	entries: readonly FeedEntry[],
+	fileName: string,
+) {
+	if (!options.stateToken) {
+		return;
+	}
+	try {
+		await saveFeedState(options.stateToken, source, entries, fileName);
+	} catch (error) {
+		console.error(`Failed to store the export state of ${source}`, error);
+	}
+}
+
+/**
+ * Read the entries of a previous bundle from its uploaded `manifest.json`,
+ * or from the bundle ZIP that contains it.
+ */
+export async function readPreviousManifest(
+	file: File,
+): Promise<PreviousManifestResult> {
+	let manifest: { generatedAt?: unknown; entries?: unknown };
+	try {
+		const data = new Uint8Array(await file.arrayBuffer());
+		// ZIP archives start with the "PK" local file header.
+		const text =
+			data[0] === 0x50 && data[1] === 0x4b
+				? await (await JSZip.loadAsync(data))
+						.file("manifest.json")
+						?.async("string")
+				: new TextDecoder().decode(data);
+		if (text === undefined) {
+			return {
+				ok: false,
+				error: "That ZIP file doesn’t contain a manifest.json.",
+			};
+		}
+		manifest = JSON.parse(text);
+	} catch (error) {
+		console.error("Failed to read previous manifest", error);
+		return {
+			ok: false,
+			error:
+				"We couldn’t read that file. Upload the manifest.json or the ZIP of a bundle built here.",
+		};
+	}
+
+	if (!Array.isArray(manifest.entries)) {
+		return {
+			ok: false,
+			error: "That manifest.json doesn’t list any bundle entries.",
+		};
+	}
+	const entries = (manifest.entries as ManifestEntry[]).map((entry) => ({
+		guid: typeof entry?.guid === "string" ? entry.guid : null,
+		url: typeof entry?.url === "string" ? entry.url : "",
+	}));
+	return {
+		ok: true,
+		previous: toPreviousEntries(entries, {
+			source: "manifest",
+			fileName: file.name || null,
+			generatedAt:
+				typeof manifest.generatedAt === "string" ? manifest.generatedAt : null,
+			entryCount: entries.length,
+		}),
+	};
+}
+
+/**
+ * Load what was exported from `source` (a feed URL, or another stable key of
+ * the bundle's origin) the last time `saveFeedState` ran for it with the same
+ * state token. Resolves to `null` before the first export.
+ */
+export async function loadFeedState(
+	stateToken: string,
+	source: string,
+): Promise<PreviousEntries | null> {
+	let state: StoredFeedState;
+	try {
+		state = JSON.parse(
+			await readFile(getStatePath(stateToken, source), "utf-8"),
+		);
+	} catch {
+		return null;
+	}
+	return toPreviousEntries(state.entries, {
+		source: "stored",
+		fileName: state.fileName,
+		generatedAt: state.updatedAt,
+		entryCount: state.entries.length,
+	});
+}
+
+/**
+ * Remember the entries of an export of `source` on top of those stored
+ * before, so the next incremental build skips all of them.
+ */
+export async function saveFeedState(
+	stateToken: string,
+	source: string,
+	entries: readonly FeedEntry[],
+	fileName: string,
+) {
+	const statePath = getStatePath(stateToken, source);
+	let previous: StoredFeedState["entries"] = [];
+	try {
+		previous = (
+			JSON.parse(await readFile(statePath, "utf-8")) as StoredFeedState
+		).entries;
+	} catch {
+		// First export of this source.
+	}
+	const state: StoredFeedState = {
+		source,
+		updatedAt: new Date().toISOString(),
+		fileName,
+		entries: [
+			...entries.map(({ guid, url }) => ({ guid: guid ?? null, url })),
+			...previous,
+		].slice(0, MAX_STORED_ENTRIES),
+	};
+	await mkdir(path.dirname(statePath), { recursive: true });
+	const temporaryPath = `${statePath}.${randomBytes(6).toString("hex")}.tmp`;
+	await writeFile(temporaryPath, JSON.stringify(state));
+	await rename(temporaryPath, statePath);
+}
+
+/**
+ * Drop the drafts a previous export already had, matched on the GUID first
+ * and the URL (without its fragment) otherwise. Entry ids are numbered by
+ * position in each bundle, so they can't identify an entry across exports.
+ * Run this before applying the entry limit so the limit counts new entries.
+ * Without a previous export every draft is kept and there is no report.
+ */
+export function dropPreviousEntries<T extends FeedEntryDraft>(
+	drafts: T[],
+	previous: PreviousEntries | null,
+): { drafts: T[]; report: IncrementalReport | undefined } {
+	if (!previous) {
+		return { drafts, report: undefined };
+	}
+	const dropped: DroppedDuplicate[] = [];
+	const kept = drafts.filter((draft) => {
+		const matchedOn =
+			draft.guid && previous.guids.has(draft.guid)
+				? "guid"
+				: previous.urls.has(normalizeEntryUrl(draft.url))
+					? "url"
+					: null;
+		if (matchedOn) {
+			dropped.push({
+				title: draft.title,
+				url: draft.url,
+				guid: draft.guid ?? null,
+				matchedOn,
+			});
+			return false;
+		}
+		return true;
+	});
+	return {
+		drafts: kept,
+		report: { previousBundle: previous.reference, droppedDuplicates: dropped },
+	};
+}
+
+function toPreviousEntries(
+	entries: { guid: string | null; url: string }[],
+	reference: PreviousBundleReference,
+): PreviousEntries {
+	const guids = new Set<string>();
+	const urls = new Set<string>();
+	for (const { guid, url } of entries) {
+		if (guid) {
+			guids.add(guid);
+		}
+		if (url) {
+			urls.add(normalizeEntryUrl(url));
+		}
+	}
+	return { reference, guids, urls };
+}
+
+function normalizeEntryUrl(url: string) {
+	try {
+		const parsed = new URL(url);
+		parsed.hash = "";
+		return parsed.href;
+	} catch {
+		return url;
+	}
+}
+
+function getStatePath(stateToken: string, source: string) {
+	const dir = path.resolve(
+		process.env.FEED_STATE_DIR?.trim() || DEFAULT_STATE_DIR,
+	);
+	const key = createHash("sha256")
+		.update(`${stateToken}\n${source}`)
+		.digest("hex");
+	return path.join(dir, `${key}.json`);
+}
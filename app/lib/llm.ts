@@ -0,0 +1,294 @@
+import { JSDOM } from "jsdom";
+import { getFetchSchedulerOptions } from "./fetch-scheduler";
+import { firstParagraph } from "./llms-export";
+
+const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+export const DEFAULT_OPENROUTER_MODEL = "openai/gpt-4o-mini";
+/** Page content beyond this many characters is left out of the prompt. */
+const MAX_PROMPT_CONTENT_CHARS = 4000;
+const MAX_FALLBACK_DESCRIPTION_CHARS = 160;
+
+/**
+ * `{url}` is replaced with the page URL; the page content is appended after
+ * the prompt.
+ */
+export const DEFAULT_DESCRIPTION_PROMPT = `Generate a 9-10 word description and a 3-4 word title of the entire page based on ALL the content one will find on the page for this url: {url}. This will help in a user finding the page for its intended purpose.
+
+Return the response in JSON format:
+{
+    "title": "3-4 word title",
+    "description": "9-10 word description"
+}`;
+
+const SYSTEM_PROMPT =
+	"You are a helpful assistant that generates concise titles and descriptions for web pages. Always respond with valid JSON.";
+
+/**
+ * A scraped page to describe. `metadata` holds whatever the scraper reported
+ * (e.g. Firecrawl's `title`, `description`, `ogDescription`).
+ */
+export type PageContent = {
+	url: string;
+	markdown: string;
+	html?: string | null;
+	metadata?: Record<string, unknown>;
+};
+
+export type PageSummary = {
+	title: string;
+	description: string;
+};
+
+/**
+ * Writes the title and description of an llms.txt link.
+ */
+export type LLMProvider = {
+	/** Shown to users, e.g. `OpenRouter (openai/gpt-4o-mini)`. */
+	label: string;
+	describePage(page: PageContent): Promise<PageSummary>;
+};
+
+export type LLMProviderConfig =
+	| { kind: "openrouter"; apiKey: string; model: string; prompt: string }
+	| {
+			kind: "openai-compatible";
+			baseUrl: string;
+			apiKey: string | null;
+			model: string;
+			prompt: string;
+	  }
+	| { kind: "metadata" };
+
+/**
+ * Pick the provider from the environment. `LLM_PROVIDER` selects
+ * `openrouter`, `openai-compatible` or `none`; without it, OpenRouter is used
+ * when `OPENROUTER_API_KEY` is set, an OpenAI-compatible server when
+ * `LLM_BASE_URL` is set, and page metadata otherwise. `LLM_MODEL` and
+ * `LLM_DESCRIPTION_PROMPT` override the model and prompt.
+ */
+export function readLLMProviderConfig(
+	env: Record<string, string | undefined> = process.env,
+): LLMProviderConfig {
+	const requested = env.LLM_PROVIDER?.trim().toLowerCase();
+	const openrouterApiKey = env.OPENROUTER_API_KEY?.trim();
+	const baseUrl = env.LLM_BASE_URL?.trim();
+	const model = env.LLM_MODEL?.trim();
+	const prompt =
+		env.LLM_DESCRIPTION_PROMPT?.trim() || DEFAULT_DESCRIPTION_PROMPT;
+
+	if (
+		requested &&
+		!["openrouter", "openai-compatible", "none"].includes(requested)
+	) {
+		console.warn(
+			`Unknown LLM_PROVIDER "${requested}", choosing a provider from the other settings`,
+		);
+	}
+
+	if (requested === "none") {
+		return { kind: "metadata" };
+	}
+	if (
+		(requested === "openrouter" || (!requested && !baseUrl)) &&
+		openrouterApiKey
+	) {
+		return {
+			kind: "openrouter",
+			apiKey: openrouterApiKey,
+			model: model || DEFAULT_OPENROUTER_MODEL,
+			prompt,
+		};
+	}
+	if (requested !== "openrouter" && baseUrl && model) {
+		return {
+			kind: "openai-compatible",
+			baseUrl: baseUrl.replace(/\/+$/, ""),
+			apiKey: env.LLM_API_KEY?.trim() || null,
+			model,
+			prompt,
+		};
+	}
+	if (requested === "openrouter") {
+		console.warn(
+			"LLM_PROVIDER=openrouter needs OPENROUTER_API_KEY; using page metadata instead",
+		);
+	} else if (requested === "openai-compatible" || baseUrl) {
+		console.warn(
+			"An OpenAI-compatible provider needs both LLM_BASE_URL and LLM_MODEL; using page metadata instead",
+		);
+	}
+	return { kind: "metadata" };
+}
+
+export function createLLMProvider(
+	config: LLMProviderConfig = readLLMProviderConfig(),
+): LLMProvider {
+	switch (config.kind) {
+		case "openrouter":
+			return createChatCompletionProvider({
+				label: `OpenRouter (${config.model})`,
+				endpoint: `${OPENROUTER_BASE_URL}/chat/completions`,
+				headers: {
+					Authorization: `Bearer ${config.apiKey}`,
+					"HTTP-Referer": "https://notebooklm.tools",
+					"X-Title": "LLMs.txt Generator",
+				},
+				model: config.model,
+				prompt: config.prompt,
+			});
+		case "openai-compatible":
+			return createChatCompletionProvider({
+				label: `${new URL(config.baseUrl).host} (${config.model})`,
+				endpoint: `${config.baseUrl}/chat/completions`,
+				headers: config.apiKey
+					? { Authorization: `Bearer ${config.apiKey}` }
+					: {},
+				model: config.model,
+				prompt: config.prompt,
+			});
+		case "metadata":
+			return metadataProvider;
+	}
+}
+
+/**
+ * The no-LLM provider: the title comes from `<title>` or the first `<h1>`,
+ * the description from the description meta tags or the first paragraph.
+ */
+export const metadataProvider: LLMProvider = {
+	label: "Page metadata",
+	async describePage(page) {
+		return describeFromMetadata(page);
+	},
+};
+
+export function describeFromMetadata(page: PageContent): PageSummary {
+	const document = page.html ? new JSDOM(page.html).window.document : null;
+	const meta = (selector: string) =>
+		document?.querySelector(selector)?.getAttribute("content") ?? null;
+	const metadata = page.metadata ?? {};
+	const field = (name: string) =>
+		typeof metadata[name] === "string" ? (metadata[name] as string) : null;
+	const markdownHeading = /^#\s+(.+)$/m.exec(page.markdown)?.[1] ?? null;
+
+	const title = firstText(
+		document?.title,
+		document?.querySelector("h1")?.textContent,
+		field("title"),
+		field("ogTitle"),
+		markdownHeading,
+	);
+	const description = firstText(
+		meta('meta[name="description"]'),
+		meta('meta[property="og:description"]'),
+		meta('meta[name="twitter:description"]'),
+		field("description"),
+		field("ogDescription"),
+		firstParagraph(page.markdown),
+	);
+	return {
+		title: title ?? new URL(page.url).pathname,
+		description: description
+			? truncate(description, MAX_FALLBACK_DESCRIPTION_CHARS)
+			: "No description available",
+	};
+}
+
+/**
+ * A provider for any `/chat/completions` endpoint. Pages the model cannot
+ * describe (request errors, timeouts after `FETCH_TIMEOUT_MS`, invalid JSON)
+ * fall back to their metadata.
+ */
+function createChatCompletionProvider({
+	label,
+	endpoint,
+	headers,
+	model,
+	prompt,
+}: {
+	label: string;
+	endpoint: string;
+	headers: Record<string, string>;
+	model: string;
+	prompt: string;
+}): LLMProvider {
+	return {
+		label,
+		async describePage(page) {
+			try {
+				const response = await fetch(endpoint, {
+					method: "POST",
+					headers: { ...headers, "Content-Type": "application/json" },
+					body: JSON.stringify({
+						model,
+						messages: [
+							{ role: "system", content: SYSTEM_PROMPT },
+							{
+								role: "user",
+								content: `${prompt.replaceAll("{url}", page.url)}\n\nPage content:\n${page.markdown.slice(0, MAX_PROMPT_CONTENT_CHARS)}`,
+							},
+						],
+						temperature: 0.3,
+						max_tokens: 100,
+						response_format: { type: "json_object" },
+					}),
+					signal: AbortSignal.timeout(getFetchSchedulerOptions().timeoutMs),
+				});
+				if (!response.ok) {
+					throw new Error(`status ${response.status}`);
+				}
+
+				const data = await response.json();
+				const summary = parseSummary(data.choices?.[0]?.message?.content);
+				if (summary) {
+					return summary;
+				}
+				throw new Error("the model did not return a title and description");
+			} catch (error) {
+				console.error(
+					`${label} could not describe ${page.url}:`,
+					error instanceof Error ? error.message : error,
+				);
+				return describeFromMetadata(page);
+			}
+		},
+	};
+}
+
+/**
+ * Read `{ "title", "description" }` from a model reply. Local models often
+ * wrap the JSON in prose or a code fence, so the outermost braces are used.
+ */
+function parseSummary(content: unknown): PageSummary | null {
+	if (typeof content !== "string") {
+		return null;
+	}
+	const start = content.indexOf("{");
+	const end = content.lastIndexOf("}");
+	if (start === -1 || end <= start) {
+		return null;
+	}
+	try {
+		const result = JSON.parse(content.slice(start, end + 1));
+		const title = typeof result.title === "string" ? result.title.trim() : "";
+		const description =
+			typeof result.description === "string" ? result.description.trim() : "";
+		return title && description ? { title, description } : null;
+	} catch {
+		return null;
+	}
+}
+
+function firstText(...values: (string | null | undefined)[]) {
+	for (const value of values) {
+		const text = value?.replace(/\s+/g, " ").trim();
+		if (text) return text;
+	}
+	return null;
+}
+
+function truncate(text: string, length: number) {
+	return text.length > length
+		? `${text.slice(0, length - 1).trimEnd()}…`
+		: text;
+}
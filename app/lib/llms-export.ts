@@ -0,0 +1,212 @@
+import { countWords, type SourceBundle } from "./bundle";
+import { createDownload } from "./downloads";
+import { renderLLMsFullTxt, renderLLMsTxt } from "./llmstxt";
+import { renderCodeBlock } from "./repo-digest";
+import type {
+	FeedEntry,
+	LLMsTxtExport,
+	LLMsTxtLink,
+	LLMsTxtSection,
+} from "./types";
+
+const MAX_LINK_NOTES_CHARS = 160;
+
+export type LLMsTxtFiles = {
+	llmsTxt: string;
+	llmsFullTxt: string;
+};
+
+/**
+ * A text file of a converted repository. `notes` describe it in the
+ * llms.txt; code files are fenced in the llms-full.txt.
+ */
+export type RepoTextFile = {
+	path: string;
+	text: string;
+	isCode: boolean;
+	notes: string | null;
+};
+
+/**
+ * Export the entries of a bundle as an llms.txt and llms-full.txt. The
+ * bundle's title and description become the H1 and summary, every group
+ * (feed or document) becomes a section, and each entry is linked with the
+ * start of its text as notes.
+ */
+export function bundleToLLMsTxt(bundle: SourceBundle): LLMsTxtFiles {
+	const { source } = bundle;
+	const entries = bundle.getEntries();
+	const toSection = (
+		title: string,
+		sectionEntries: readonly FeedEntry[],
+	): LLMsTxtSection => ({
+		title,
+		optional: false,
+		links: sectionEntries.map((entry) => ({
+			title: entry.title,
+			url: entry.url,
+			description: summarizeText(entry.textContent),
+		})),
+		notes: "",
+	});
+
+	const groups = bundle.getGroups();
+	const sections = groups.map((group) =>
+		toSection(
+			group.title,
+			entries.filter((entry) => entry.group === group.id),
+		),
+	);
+	const groupIds = new Set(groups.map((group) => group.id));
+	const ungrouped = entries.filter(
+		(entry) => !entry.group || !groupIds.has(entry.group),
+	);
+	if (ungrouped.length > 0) {
+		sections.push(toSection("Entries", ungrouped));
+	}
+
+	return {
+		llmsTxt: renderLLMsTxt({
+			title: source.title,
+			summary: source.description,
+			details: source.url ? `Source: ${source.url}` : "",
+			sections,
+		}),
+		llmsFullTxt: renderLLMsFullTxt({
+			title: source.title,
+			description: source.description,
+			pages: entries.map((entry) => ({
+				title: entry.title,
+				url: entry.url,
+				content: entry.textContent,
+			})),
+		}),
+	};
+}
+
+/**
+ * Export the text files of a converted repository as an llms.txt and
+ * llms-full.txt, with one section per top-level folder. Links point to the
+ * raw files at `fileBaseUrl`, or are relative paths when there is none (an
+ * uploaded archive). Without a `summary`, the first paragraph of the root
+ * README is used.
+ */
+export function repoToLLMsTxt({
+	title,
+	summary,
+	fileBaseUrl,
+	files,
+}: {
+	title: string;
+	summary: string | null;
+	fileBaseUrl: string | null;
+	files: RepoTextFile[];
+}): LLMsTxtFiles {
+	const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+	const toUrl = (path: string) =>
+		fileBaseUrl
+			? `${fileBaseUrl}/${path.split("/").map(encodeURIComponent).join("/")}`
+			: path;
+
+	const sections = new Map<string, LLMsTxtLink[]>();
+	for (const file of sorted) {
+		const folder = file.path.includes("/")
+			? file.path.slice(0, file.path.indexOf("/"))
+			: "";
+		const links = sections.get(folder) ?? [];
+		links.push({
+			title: file.path,
+			url: toUrl(file.path),
+			description: file.notes,
+		});
+		sections.set(folder, links);
+	}
+
+	const readme = sorted.find((file) => /^readme(?:\.\w+)?$/i.test(file.path));
+	const description = summary ?? (readme ? firstParagraph(readme.text) : null);
+	return {
+		llmsTxt: renderLLMsTxt({
+			title,
+			summary: description,
+			details: "",
+			sections: [...sections].map(([folder, links]) => ({
+				title: folder || "Root files",
+				optional: false,
+				links,
+				notes: "",
+			})),
+		}),
+		llmsFullTxt: renderLLMsFullTxt({
+			title,
+			description,
+			pages: sorted.map((file) => ({
+				title: file.path,
+				url: toUrl(file.path),
+				content: file.isCode
+					? renderCodeBlock(file.path, file.text)
+					: file.text,
+			})),
+		}),
+	};
+}
+
+/**
+ * Keep the exported files for download next to the bundle, named after it.
+ */
+export function createLLMsTxtDownloads(
+	files: LLMsTxtFiles,
+	bundleFileName: string,
+): LLMsTxtExport {
+	const baseName = bundleFileName.replace(/\.zip$/i, "");
+	const encoder = new TextEncoder();
+	return {
+		index: createDownload({
+			data: encoder.encode(files.llmsTxt),
+			fileName: `${baseName}-llms.txt`,
+			contentType: "text/plain; charset=utf-8",
+		}),
+		full: {
+			...createDownload({
+				data: encoder.encode(files.llmsFullTxt),
+				fileName: `${baseName}-llms-full.txt`,
+				contentType: "text/plain; charset=utf-8",
+			}),
+			wordCount: countWords(files.llmsFullTxt),
+		},
+	};
+}
+
+/**
+ * Export a bundle's entries and keep the files for download, named after
+ * the bundle.
+ */
+export function exportBundleAsLLMsTxt(bundle: SourceBundle) {
+	return createLLMsTxtDownloads(bundleToLLMsTxt(bundle), bundle.getFileName());
+}
+
+function summarizeText(text: string) {
+	const paragraph = firstParagraph(text);
+	if (!paragraph) return null;
+	if (paragraph.length <= MAX_LINK_NOTES_CHARS) return paragraph;
+	const cut = paragraph.slice(0, MAX_LINK_NOTES_CHARS - 1);
+	const lastSpace = cut.lastIndexOf(" ");
+	return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * The first block of prose, skipping headings, images, tables, code fences,
+ * lists and quotes.
+ */
+export function firstParagraph(text: string) {
+	return (
+		text
+			.split(/\n\s*\n/)
+			.map((block) => block.trim())
+			.find(
+				(block) =>
+					block.length > 0 && !/^(?:#|!\[|\||```|[-*+] |\d+\. |>)/.test(block),
+			)
+			?.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+			.replace(/\s+/g, " ") ?? null
+	);
+}
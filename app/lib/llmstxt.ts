@@ -0,0 +1,441 @@
+import { BROWSER_USER_AGENT, extractCachedArticle } from "./article";
+import { scheduleFetches } from "./fetch-scheduler";
+import { cachedFetch } from "./http-cache";
+import type {
+	LLMsTxtDocument,
+	LLMsTxtFetchedLink,
+	LLMsTxtIssue,
+	LLMsTxtLink,
+	LLMsTxtSection,
+} from "./types";
+
+export const LLMS_TXT_USER_AGENT =
+	"LLMsTxt-Fetcher/1.0 (https://github.com/answerdotai/llms-txt)";
+
+const MARKDOWN_PATH = /\.(?:md|markdown|mdx|txt)$/i;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^\s*(?:```|~~~)/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+// `[name](url)` or `[name](<url> "title")`, then the rest of the line.
+const LINK = /\[([^\]]+)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)(.*)$/;
+
+export type ParsedLLMsTxt = {
+	document: LLMsTxtDocument;
+	issues: LLMsTxtIssue[];
+};
+
+/**
+ * Parse an llms.txt into its title, summary, details and link sections, and
+ * report where it departs from the format. Parsing is lenient: links in
+ * nested or numbered lists, links outside lists and links before the first
+ * H2 are all collected, with a warning where the spec expects otherwise.
+ * Relative link URLs are resolved against `baseUrl`.
+ */
+export function parseLLMsTxt(content: string, baseUrl: string): ParsedLLMsTxt {
+	const document: LLMsTxtDocument = {
+		title: null,
+		summary: null,
+		details: "",
+		sections: [],
+	};
+	const issues: LLMsTxtIssue[] = [];
+	const report = (
+		line: number,
+		severity: LLMsTxtIssue["severity"],
+		message: string,
+	) => issues.push({ line, severity, message });
+
+	const details: string[] = [];
+	const summary: string[] = [];
+	const notes = new Map<LLMsTxtSection, string[]>();
+	// The summary is only read right after the title.
+	let summaryState: "pending" | "reading" | "done" = "pending";
+	let current: LLMsTxtSection | null = null;
+	let seenContent = false;
+	let inFence = false;
+
+	const addText = (text: string) => {
+		if (current) {
+			notes.get(current)?.push(text);
+		} else {
+			details.push(text);
+		}
+	};
+	const getLinkSection = (line: number) => {
+		if (current) return current;
+		report(line, "warning", "Links should be listed under an H2 section.");
+		current = { title: null, optional: false, links: [], notes: "" };
+		notes.set(current, []);
+		document.sections.push(current);
+		return current;
+	};
+
+	for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+		const lineNumber = index + 1;
+		const line = rawLine.trimEnd();
+
+		if (FENCE.test(line) || inFence) {
+			if (FENCE.test(line)) inFence = !inFence;
+			summaryState = "done";
+			seenContent = true;
+			addText(line);
+			continue;
+		}
+		if (line.trim().length === 0) {
+			if (summaryState === "reading") summaryState = "done";
+			addText("");
+			continue;
+		}
+
+		const heading = HEADING.exec(line);
+		if (heading?.[1].length === 1) {
+			if (document.title !== null) {
+				report(lineNumber, "error", "Only one H1 title is allowed.");
+				addText(line);
+			} else {
+				if (seenContent) {
+					report(lineNumber, "error", "The H1 title must come first.");
+				}
+				document.title = heading[2].trim();
+			}
+			seenContent = true;
+			continue;
+		}
+		if (!seenContent) {
+			report(lineNumber, "error", "The file must start with an H1 title.");
+		}
+		seenContent = true;
+
+		if (heading?.[1].length === 2) {
+			summaryState = "done";
+			const title = heading[2].trim();
+			if (document.sections.some((section) => section.title === title)) {
+				report(lineNumber, "warning", `Section “${title}” appears twice.`);
+			}
+			current = {
+				title,
+				optional: title.toLowerCase() === "optional",
+				links: [],
+				notes: "",
+			};
+			notes.set(current, []);
+			document.sections.push(current);
+			continue;
+		}
+		if (heading) {
+			report(
+				lineNumber,
+				"warning",
+				`Only H1 and H2 headings are part of the format; “${heading[2].trim()}” is read as text.`,
+			);
+			summaryState = "done";
+			addText(line);
+			continue;
+		}
+
+		const quote = /^>\s?(.*)$/.exec(line);
+		if (quote && !current && summaryState !== "done") {
+			if (document.title === null) {
+				report(lineNumber, "warning", "The summary should follow the title.");
+			}
+			summary.push(quote[1].trim());
+			summaryState = "reading";
+			continue;
+		}
+		if (quote && !current && summary.length === 0) {
+			report(
+				lineNumber,
+				"warning",
+				"The summary blockquote should directly follow the title.",
+			);
+		}
+		summaryState = "done";
+
+		const item = LIST_ITEM.exec(line);
+		const text = item ? item[1] : line.trim();
+		const link = LINK.exec(text);
+		if (!link) {
+			if (item && current) {
+				report(lineNumber, "warning", "List item without a link.");
+			}
+			addText(line);
+			continue;
+		}
+
+		if (!item) {
+			if (!current) {
+				addText(line);
+				continue;
+			}
+			report(lineNumber, "warning", "Links should be list items.");
+		} else if (link.index > 0) {
+			report(lineNumber, "warning", "List items should start with the link.");
+		}
+
+		const url = resolveLinkUrl(link[2], baseUrl);
+		if (!url) {
+			report(lineNumber, "error", `“${link[2]}” is not a valid URL.`);
+			continue;
+		}
+		const rest = link[3].trim();
+		let description: string | null = null;
+		if (rest.startsWith(":")) {
+			description = rest.slice(1).trim() || null;
+		} else if (rest.length > 0) {
+			report(
+				lineNumber,
+				"warning",
+				"Notes after a link should follow a colon.",
+			);
+			description = rest.replace(/^[-–—]\s*/, "") || null;
+		}
+		getLinkSection(lineNumber).links.push({
+			title: link[1].trim(),
+			url,
+			description,
+		});
+	}
+
+	if (document.title === null) {
+		report(1, "error", "The file has no H1 title.");
+	}
+	document.summary = summary.length > 0 ? summary.join(" ") : null;
+	document.details = details.join("\n").trim();
+	for (const section of document.sections) {
+		section.notes = (notes.get(section) ?? []).join("\n").trim();
+		if (section.links.length === 0 && section.title !== null) {
+			report(
+				findHeadingLine(content, section.title),
+				"warning",
+				`Section “${section.title}” has no links.`,
+			);
+		}
+	}
+	issues.sort((a, b) => a.line - b.line);
+	return { document, issues };
+}
+
+/**
+ * Every link of a parsed llms.txt, in document order.
+ */
+export function getLLMsTxtLinks(document: LLMsTxtDocument): LLMsTxtLink[] {
+	return document.sections.flatMap((section) => section.links);
+}
+
+/**
+ * Fetch the page behind every link of an llms.txt. The llms.txt convention
+ * is that pages offer a Markdown version at the same URL with `.md` appended,
+ * so that is tried first; pages without one are extracted with Readability.
+ * `onResult` is called as each link settles, in completion order.
+ */
+export async function fetchLLMsTxtLinks(
+	links: LLMsTxtLink[],
+	{
+		onResult,
+	}: { onResult?: (result: LLMsTxtFetchedLink, index: number) => void } = {},
+): Promise<LLMsTxtFetchedLink[]> {
+	const fetched: LLMsTxtFetchedLink[] = [];
+	await scheduleFetches(
+		links.map(({ url }) => url),
+		(url, signal) => fetchLinkedPage(url, { signal }),
+		undefined,
+		(result, index) => {
+			const { title, url } = links[index];
+			fetched[index] = result.ok
+				? {
+						title,
+						url,
+						content: result.value.text,
+						source: result.value.source,
+						error: null,
+					}
+				: {
+						title,
+						url,
+						content: null,
+						source: null,
+						error: result.error,
+					};
+			onResult?.(fetched[index], index);
+		},
+	);
+	return fetched;
+}
+
+/**
+ * Fetch one linked page, preferring its Markdown variant. Throws when
+ * neither the variant nor the page itself has readable content.
+ */
+export async function fetchLinkedPage(
+	url: string,
+	{ signal }: { signal?: AbortSignal } = {},
+): Promise<{ source: "markdown" | "article"; text: string }> {
+	const markdownUrl = getMarkdownVariantUrl(url);
+	if (markdownUrl) {
+		try {
+			const text = await fetchMarkdown(markdownUrl, signal);
+			if (text) {
+				return { source: "markdown", text };
+			}
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			// Most sites don't publish Markdown variants; use the page instead.
+		}
+	}
+
+	const response = await cachedFetch(url, {
+		headers: {
+			"User-Agent": BROWSER_USER_AGENT,
+			Accept: "text/markdown, text/html;q=0.9, */*;q=0.8",
+		},
+		signal,
+	});
+	if (!response.ok) {
+		throw new Error(`Failed to fetch page (status ${response.status})`);
+	}
+	const body = await response.text();
+	if (!isHtml(response.headers.get("content-type"), body)) {
+		if (body.trim().length === 0) {
+			throw new Error("The page is empty");
+		}
+		return { source: "markdown", text: body.trim() };
+	}
+	const article = await extractCachedArticle(body, response.url || url);
+	if (!article) {
+		throw new Error("No readable article content found");
+	}
+	return { source: "article", text: article.text };
+}
+
+/**
+ * The Markdown URL llms.txt sites serve next to a page: `page.md` for
+ * `page`, `page.html.md` for `page.html` and `index.html.md` for a folder.
+ * Links that already point at Markdown or text need no variant.
+ */
+export function getMarkdownVariantUrl(url: string) {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return null;
+	}
+	parsed.hash = "";
+	if (MARKDOWN_PATH.test(parsed.pathname)) {
+		return null;
+	}
+	parsed.pathname = parsed.pathname.endsWith("/")
+		? `${parsed.pathname}index.html.md`
+		: `${parsed.pathname}.md`;
+	return parsed.href;
+}
+
+/**
+ * Concatenate pages into an llms-full.txt: the title and summary, then one
+ * section per page with its source URL.
+ */
+export function renderLLMsFullTxt({
+	title,
+	description,
+	pages,
+}: {
+	title: string;
+	description: string | null;
+	pages: { title: string; url: string; content: string }[];
+}) {
+	let content = `# ${title}\n\n`;
+	if (description) {
+		content += `> ${description}\n\n`;
+	}
+	for (const page of pages) {
+		content += `## ${page.title}\n\nURL: ${page.url}\n\n${page.content.trim()}\n\n---\n\n`;
+	}
+	return content;
+}
+
+/**
+ * Write an llms.txt in the format `parseLLMsTxt` reads: the H1 title, the
+ * summary blockquote, the details, then one H2 per section with a
+ * `- [name](url): notes` line per link. Sections without links are left out.
+ */
+export function renderLLMsTxt(document: LLMsTxtDocument) {
+	const blocks = [`# ${toLine(document.title ?? "Untitled")}`];
+	if (document.summary) {
+		blocks.push(`> ${toLine(document.summary)}`);
+	}
+	if (document.details.trim()) {
+		blocks.push(document.details.trim());
+	}
+	for (const section of document.sections) {
+		if (section.links.length === 0) continue;
+		const links = section.links.map((link) => {
+			// Brackets would end the link text early
+			const name = toLine(link.title).replace(/\[/g, "(").replace(/\]/g, ")");
+			// encodeURIComponent leaves parentheses alone
+			const url = link.url.replace(
+				/[()\s]/g,
+				(char) =>
+					`%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`,
+			);
+			return link.description
+				? `- [${name}](${url}): ${toLine(link.description)}`
+				: `- [${name}](${url})`;
+		});
+		const notes = section.notes.trim();
+		blocks.push(
+			[
+				`## ${toLine(section.title ?? (section.optional ? "Optional" : "Links"))}`,
+				...(notes ? [notes] : []),
+				links.join("\n"),
+			].join("\n\n"),
+		);
+	}
+	return `${blocks.join("\n\n")}\n`;
+}
+
+async function fetchMarkdown(url: string, signal: AbortSignal | undefined) {
+	const response = await cachedFetch(url, {
+		headers: {
+			"User-Agent": LLMS_TXT_USER_AGENT,
+			Accept: "text/markdown, text/plain;q=0.9, */*;q=0.1",
+		},
+		signal,
+	});
+	if (!response.ok) {
+		return null;
+	}
+	const body = await response.text();
+	// Sites that route unknown paths to their app answer with an HTML page.
+	if (isHtml(response.headers.get("content-type"), body)) {
+		return null;
+	}
+	return body.trim() || null;
+}
+
+function resolveLinkUrl(value: string, baseUrl: string) {
+	try {
+		const url = new URL(value, baseUrl);
+		return url.protocol === "http:" || url.protocol === "https:"
+			? url.href
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+function findHeadingLine(content: string, title: string) {
+	const index = content
+		.split(/\r?\n/)
+		.findIndex((line) => HEADING.exec(line.trimEnd())?.[2].trim() === title);
+	return index + 1;
+}
+
+function toLine(text: string) {
+	return text.replace(/\s+/g, " ").trim();
+}
+
+function isHtml(contentType: string | null, body: string) {
+	return (
+		/html/i.test(contentType ?? "") ||
+		/^\s*<(?:!doctype html|html)/i.test(body.slice(0, 200))
+	);
+}
@@ -0,0 +1,157 @@
+import { JSDOM } from "jsdom";
+import { FEED_USER_AGENT } from "./feed";
+import { cachedFetch } from "./http-cache";
+
+export type OpmlFeed = {
+	title: string | null;
+	xmlUrl: string;
+	htmlUrl: string | null;
+	/** Folder path of the outline plus any `category` attribute values. */
+	tags: string[];
+};
+
+export type OpmlDocument = {
+	title: string | null;
+	feeds: OpmlFeed[];
+};
+
+export type OpmlFetchResult =
+	| { ok: true; opml: OpmlDocument }
+	| { ok: false; status: number; error: string };
+
+/**
+ * Fetch an OPML reading list and parse it with `parseOpml`.
+ */
+export async function fetchOpml(url: URL): Promise<OpmlFetchResult> {
+	const response = await cachedFetch(url, {
+		headers: {
+			"User-Agent": FEED_USER_AGENT,
+			Accept: "text/x-opml, application/xml, text/xml; q=0.9, */*; q=0.8",
+		},
+	});
+
+	if (!response.ok) {
+		return {
+			ok: false,
+			status: 502,
+			error: `We couldn’t reach that OPML file (status ${response.status}). Please try again later.`,
+		};
+	}
+
+	try {
+		return {
+			ok: true,
+			opml: parseOpml(await response.text(), response.url || url.href),
+		};
+	} catch (error) {
+		console.error("Failed to parse OPML", error);
+		return {
+			ok: false,
+			status: 422,
+			error:
+				"We couldn’t understand that OPML file. Export it again from your feed reader and retry.",
+		};
+	}
+}
+
+/**
+ * Collect every `<outline xmlUrl>` of an OPML document. Outlines without a
+ * feed URL are treated as folders, and their titles become tags on the feeds
+ * nested below them. A feed listed in several folders is kept once with the
+ * tags of all of them.
+ */
+export function parseOpml(xml: string, baseUrl?: string): OpmlDocument {
+	const { document } = new JSDOM(xml, { contentType: "application/xml" })
+		.window;
+	const root = document.documentElement;
+	if (root.localName !== "opml") {
+		throw new Error("Not an OPML document");
+	}
+
+	const head = findChild(root, "head");
+	const body = findChild(root, "body");
+	const feeds = new Map<string, OpmlFeed>();
+
+	const visit = (parent: Element, folders: string[]) => {
+		for (const outline of Array.from(parent.children)) {
+			if (outline.localName !== "outline") {
+				continue;
+			}
+			const title = textOrNull(
+				outline.getAttribute("title") ?? outline.getAttribute("text"),
+			);
+			const xmlUrl = resolveUrl(outline.getAttribute("xmlUrl"), baseUrl);
+			if (!xmlUrl) {
+				visit(outline, title ? [...folders, title] : folders);
+				continue;
+			}
+
+			const tags = [...folders, ...parseCategories(outline)];
+			const existing = feeds.get(xmlUrl);
+			if (existing) {
+				existing.tags = unique([...existing.tags, ...tags]);
+				continue;
+			}
+			feeds.set(xmlUrl, {
+				title,
+				xmlUrl,
+				htmlUrl: resolveUrl(outline.getAttribute("htmlUrl"), baseUrl),
+				tags: unique(tags),
+			});
+		}
+	};
+
+	if (body) {
+		visit(body, []);
+	}
+
+	return {
+		title: textOrNull(head ? findChild(head, "title")?.textContent : null),
+		feeds: Array.from(feeds.values()),
+	};
+}
+
+/**
+ * OPML 2.0 `category` attributes hold comma-separated values, either plain
+ * tags or slash-delimited folder paths such as `/Tech/Web`.
+ */
+function parseCategories(outline: Element) {
+	const value = outline.getAttribute("category");
+	if (!value) {
+		return [];
+	}
+	return value
+		.split(",")
+		.flatMap((category) => category.split("/"))
+		.map((tag) => tag.trim())
+		.filter(Boolean);
+}
+
+function findChild(element: Element, localName: string) {
+	return (
+		Array.from(element.children).find(
+			(child) => child.localName === localName,
+		) ?? null
+	);
+}
+
+function resolveUrl(value: string | null, baseUrl?: string) {
+	const trimmed = value?.trim();
+	if (!trimmed) {
+		return null;
+	}
+	try {
+		return new URL(trimmed, baseUrl).href;
+	} catch {
+		return null;
+	}
+}
+
+function textOrNull(value: string | null | undefined) {
+	const trimmed = value?.trim();
+	return trimmed ? trimmed : null;
+}
+
+function unique(values: string[]) {
+	return Array.from(new Set(values));
+}
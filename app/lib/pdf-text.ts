@@ -0,0 +1,677 @@
+import { constants, inflateSync } from "node:zlib";
+
+/**
+ * A value of the PDF object syntax. Names keep their leading slash so they can
+ * be told apart from strings, which are kept as raw bytes (one char per byte).
+ */
+type PdfValue =
+	| number
+	| boolean
+	| null
+	| { name: string }
+	| { bytes: string }
+	| { ref: number }
+	| PdfValue[]
+	| PdfDict;
+
+type PdfDict = { dict: Map<string, PdfValue> };
+
+/**
+ * Upper bound for one decompressed stream. Page content rarely gets near it;
+ * a deflate bomb hits it instead of filling the memory.
+ */
+const MAX_STREAM_BYTES = 32 * 1024 * 1024;
+
+type PdfObject = {
+	value: PdfValue;
+	stream: string | null;
+};
+
+/**
+ * Maps character codes of a font to Unicode text. `codeLengths` holds the
+ * byte lengths allowed by the CMap's code space, longest first. Fonts without
+ * a decoder are read as Latin-1.
+ */
+type FontDecoder = {
+	codeLengths: number[];
+	map: Map<string, string>;
+};
+
+export type PdfTextResult =
+	| { ok: true; pages: string[]; title: string | null; author: string | null }
+	| { ok: false; error: string };
+
+/**
+ * Extract the text layer of a PDF page by page. This reads the page tree,
+ * decompresses Flate content streams (including compressed object streams)
+ * and decodes text-showing operators through each font's ToUnicode CMap,
+ * falling back to Latin-1 for simple fonts without one. Layout is
+ * approximated from text positioning: vertical moves start a new line.
+ *
+ * Scanned PDFs have no text layer and encrypted PDFs cannot be read; both
+ * return an error.
+ *
+ * This is deliberately not pdf.js: only the text layer is needed, and reading
+ * it here keeps extraction synchronous and lets every stream be inflated with
+ * an output limit, which pdf.js offers no way to set.
+ */
+export function extractPdfText(data: Uint8Array): PdfTextResult {
+	const source = Buffer.from(data).toString("latin1");
+	if (!source.startsWith("%PDF-")) {
+		return { ok: false, error: "This file isn’t a PDF." };
+	}
+
+	const objects = readObjects(source);
+	const trailer = findTrailer(source, objects);
+	if (trailer?.dict.has("Encrypt")) {
+		return {
+			ok: false,
+			error: "This PDF is encrypted, so its text can’t be read.",
+		};
+	}
+
+	const resolve = (value: PdfValue | undefined): PdfValue | undefined =>
+		value && typeof value === "object" && "ref" in value
+			? objects.get(value.ref)?.value
+			: value;
+	const root = asDict(resolve(trailer?.dict.get("Root")));
+	const pagesRoot = asDict(resolve(root?.dict.get("Pages")));
+	if (!pagesRoot) {
+		return { ok: false, error: "We couldn’t find the pages of this PDF." };
+	}
+
+	// Fonts are shared between pages through indirect references.
+	const fontCache = new Map<number, FontDecoder | null>();
+	const pages: string[] = [];
+	const visit = (node: PdfDict, inherited: PdfDict | null, depth: number) => {
+		if (depth > 32) return;
+		const resources = asDict(resolve(node.dict.get("Resources"))) ?? inherited;
+		const type = asName(node.dict.get("Type"));
+		if (type === "Pages" || node.dict.has("Kids")) {
+			for (const kid of asArray(resolve(node.dict.get("Kids")))) {
+				const child = asDict(resolve(kid));
+				if (child) visit(child, resources, depth + 1);
+			}
+			return;
+		}
+
+		const fonts = new Map<string, FontDecoder | null>();
+		const fontDict = asDict(resolve(resources?.dict.get("Font")));
+		for (const [name, fontRef] of fontDict?.dict ?? []) {
+			if (!fontRef || typeof fontRef !== "object" || !("ref" in fontRef)) {
+				fonts.set(name, readFontDecoder(fontRef, objects));
+				continue;
+			}
+			if (!fontCache.has(fontRef.ref)) {
+				fontCache.set(fontRef.ref, readFontDecoder(resolve(fontRef), objects));
+			}
+			fonts.set(name, fontCache.get(fontRef.ref) ?? null);
+		}
+
+		const contents = node.dict.get("Contents");
+		const streams = Array.isArray(resolve(contents))
+			? asArray(resolve(contents))
+			: [contents];
+		const content = streams
+			.map((stream) =>
+				stream && typeof stream === "object" && "ref" in stream
+					? (objects.get(stream.ref)?.stream ?? "")
+					: "",
+			)
+			.join("\n");
+		pages.push(extractContentText(content, fonts));
+	};
+	visit(pagesRoot, null, 0);
+
+	if (pages.every((page) => page.trim().length === 0)) {
+		return {
+			ok: false,
+			error:
+				"This PDF has no text layer (it may be scanned). Run it through OCR first.",
+		};
+	}
+
+	const info = asDict(resolve(trailer?.dict.get("Info")));
+	return {
+		ok: true,
+		pages,
+		title: decodeTextString(resolve(info?.dict.get("Title"))),
+		author: decodeTextString(resolve(info?.dict.get("Author"))),
+	};
+}
+
+function readObjects(source: string) {
+	const objects = new Map<number, PdfObject>();
+	const pattern = /(\d+)\s+\d+\s+obj\b/g;
+	for (const match of source.matchAll(pattern)) {
+		const start = (match.index ?? 0) + match[0].length;
+		const parsed = parseObjectAt(source, start);
+		if (!parsed) continue;
+
+		let stream: string | null = null;
+		const after = /^\s*stream\r?\n/.exec(
+			source.slice(parsed.end, parsed.end + 32),
+		);
+		if (after && isDict(parsed.value)) {
+			const dataStart = parsed.end + after[0].length;
+			const length = parsed.value.dict.get("Length");
+			const end =
+				typeof length === "number" &&
+				source.startsWith(
+					"endstream",
+					skipWhitespace(source, dataStart + length),
+				)
+					? dataStart + length
+					: source.indexOf("endstream", dataStart);
+			stream = decodeStream(parsed.value, source.slice(dataStart, end));
+		}
+		// Later definitions (incremental updates) replace earlier ones.
+		objects.set(Number(match[1]), { value: parsed.value, stream });
+	}
+
+	// PDF 1.5 files keep most small objects inside compressed object streams.
+	for (const object of [...objects.values()]) {
+		if (!isDict(object.value) || object.stream === null) continue;
+		if (asName(object.value.dict.get("Type")) !== "ObjStm") continue;
+		const count = object.value.dict.get("N");
+		const first = object.value.dict.get("First");
+		if (typeof count !== "number" || typeof first !== "number") continue;
+
+		const header = object.stream
+			.slice(0, first)
+			.trim()
+			.split(/\s+/)
+			.map(Number);
+		for (let index = 0; index < count; index++) {
+			const number = header[index * 2];
+			const offset = header[index * 2 + 1];
+			if (!Number.isFinite(number) || !Number.isFinite(offset)) break;
+			if (objects.has(number)) continue;
+			const parsed = parseObjectAt(object.stream, first + offset);
+			if (parsed) objects.set(number, { value: parsed.value, stream: null });
+		}
+	}
+	return objects;
+}
+
+function findTrailer(source: string, objects: Map<number, PdfObject>) {
+	const index = source.lastIndexOf("trailer");
+	if (index !== -1) {
+		const parsed = safeParse(source, index + "trailer".length);
+		if (parsed && isDict(parsed.value) && parsed.value.dict.has("Root")) {
+			return parsed.value;
+		}
+	}
+	// Cross-reference streams carry the trailer keys in their own dictionary.
+	for (const object of objects.values()) {
+		if (
+			isDict(object.value) &&
+			asName(object.value.dict.get("Type")) === "XRef" &&
+			object.value.dict.has("Root")
+		) {
+			return object.value;
+		}
+	}
+	return null;
+}
+
+function decodeStream(dict: PdfDict, raw: string) {
+	const filter = dict.dict.get("Filter");
+	const filters = (Array.isArray(filter) ? filter : [filter])
+		.map(asName)
+		.filter(Boolean);
+	let data = raw;
+	for (const name of filters) {
+		if (name === "FlateDecode") {
+			try {
+				data = inflateSync(Buffer.from(data, "latin1"), {
+					finishFlush: constants.Z_SYNC_FLUSH,
+					maxOutputLength: MAX_STREAM_BYTES,
+				}).toString("latin1");
+			} catch {
+				// Corrupt, or larger than MAX_STREAM_BYTES once inflated.
+				return null;
+			}
+		} else {
+			// Images and other encodings carry no text.
+			return null;
+		}
+	}
+	return data;
+}
+
+function readFontDecoder(
+	font: PdfValue | undefined,
+	objects: Map<number, PdfObject>,
+): FontDecoder | null {
+	const dict = asDict(font);
+	const toUnicode = dict?.dict.get("ToUnicode");
+	const cmap =
+		toUnicode && typeof toUnicode === "object" && "ref" in toUnicode
+			? objects.get(toUnicode.ref)?.stream
+			: null;
+	if (cmap) {
+		return parseToUnicodeCMap(cmap);
+	}
+	// Composite fonts use two-byte glyph ids that mean nothing without a
+	// ToUnicode map; drop their text instead of emitting garbage.
+	return asName(dict?.dict.get("Subtype")) === "Type0"
+		? { codeLengths: [2], map: new Map() }
+		: null;
+}
+
+function parseToUnicodeCMap(cmap: string): FontDecoder {
+	const map = new Map<string, string>();
+	const lengths = new Set<number>();
+	for (const block of cmap.matchAll(
+		/begincodespacerange([\s\S]*?)endcodespacerange/g,
+	)) {
+		for (const range of block[1].matchAll(
+			/<([0-9a-fA-F]+)>\s*<[0-9a-fA-F]+>/g,
+		)) {
+			lengths.add(range[1].length / 2);
+		}
+	}
+	for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+		for (const pair of block[1].matchAll(
+			/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g,
+		)) {
+			map.set(pair[1].toLowerCase(), utf16HexToString(pair[2]));
+			lengths.add(pair[1].length / 2);
+		}
+	}
+	for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+		for (const range of block[1].matchAll(
+			/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]*)>|\[([^\]]*)\])/g,
+		)) {
+			const width = range[1].length;
+			const low = Number.parseInt(range[1], 16);
+			const high = Number.parseInt(range[2], 16);
+			const targets = range[4]
+				? [...range[4].matchAll(/<([0-9a-fA-F]*)>/g)].map((target) =>
+						utf16HexToString(target[1]),
+					)
+				: null;
+			const base = range[3] ? Number.parseInt(range[3], 16) : 0;
+			for (let code = low; code <= high && code - low < 65536; code++) {
+				const key = code.toString(16).padStart(width, "0");
+				const text = targets
+					? targets[code - low]
+					: String.fromCodePoint(base + code - low);
+				if (text !== undefined) map.set(key, text);
+			}
+			lengths.add(width / 2);
+		}
+	}
+	return {
+		codeLengths: [...lengths].sort((a, b) => b - a),
+		map,
+	};
+}
+
+/**
+ * Walk a content stream and collect the strings shown by `Tj`, `TJ`, `'` and
+ * `"`, inserting line breaks on vertical text moves.
+ */
+function extractContentText(
+	content: string,
+	fonts: Map<string, FontDecoder | null>,
+) {
+	let text = "";
+	let font: FontDecoder | null = null;
+	let lastY: number | null = null;
+	const operands: PdfValue[] = [];
+
+	const newline = () => {
+		if (text && !text.endsWith("\n")) text += "\n";
+	};
+	const show = (value: PdfValue | undefined) => {
+		if (value && typeof value === "object" && "bytes" in value) {
+			text += decodeString(value.bytes, font);
+		}
+	};
+
+	let position = 0;
+	while (position < content.length) {
+		const token = safeParse(content, position, true);
+		if (!token) break;
+		position = token.end;
+		if (!isOperator(token.value)) {
+			operands.push(token.value);
+			continue;
+		}
+
+		switch (token.value.operator) {
+			case "Tf":
+				font = fonts.get(asName(operands[0]) ?? "") ?? null;
+				break;
+			case "Tj":
+				show(operands[0]);
+				break;
+			case "'":
+			case '"':
+				newline();
+				show(operands[operands.length - 1]);
+				break;
+			case "TJ":
+				for (const part of asArray(operands[0])) {
+					if (typeof part === "number") {
+						// Large negative kerning is how many PDFs encode spaces.
+						if (part < -200 && !text.endsWith(" ")) text += " ";
+					} else {
+						show(part);
+					}
+				}
+				break;
+			case "Td":
+			case "TD":
+				if (typeof operands[1] === "number" && Math.abs(operands[1]) > 0.1) {
+					newline();
+				} else if (text && !/\s$/.test(text)) {
+					text += " ";
+				}
+				break;
+			case "Tm": {
+				const y = operands[5];
+				if (typeof y === "number") {
+					if (lastY !== null && Math.abs(y - lastY) > 0.1) newline();
+					lastY = y;
+				}
+				break;
+			}
+			case "T*":
+				newline();
+				break;
+			case "ET":
+				if (text && !/\s$/.test(text)) text += " ";
+				break;
+		}
+		operands.length = 0;
+	}
+
+	return text
+		.split("\n")
+		.map((line) => line.replace(/\s+/g, " ").trim())
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+function decodeString(bytes: string, font: FontDecoder | null) {
+	if (!font) {
+		return bytes;
+	}
+	let text = "";
+	let index = 0;
+	while (index < bytes.length) {
+		let matched = false;
+		for (const length of font.codeLengths) {
+			const code = [...bytes.slice(index, index + length)]
+				.map((char) => char.charCodeAt(0).toString(16).padStart(2, "0"))
+				.join("");
+			const mapped = font.map.get(code);
+			if (mapped !== undefined) {
+				text += mapped;
+				index += length;
+				matched = true;
+				break;
+			}
+		}
+		if (!matched) {
+			index += font.codeLengths.at(-1) ?? 1;
+		}
+	}
+	return text;
+}
+
+/**
+ * Document info strings are UTF-16BE with a byte order mark or
+ * PDFDocEncoding, which matches Latin-1 for printable text.
+ */
+function decodeTextString(value: PdfValue | undefined) {
+	if (!value || typeof value !== "object" || !("bytes" in value)) {
+		return null;
+	}
+	const text = value.bytes.startsWith("\xfe\xff")
+		? Buffer.from(value.bytes.slice(2), "latin1").swap16().toString("utf16le")
+		: value.bytes;
+	return text.replace(/\0/g, "").trim() || null;
+}
+
+function utf16HexToString(hex: string) {
+	const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex");
+	return bytes.length % 2 === 0
+		? Buffer.from(bytes).swap16().toString("utf16le")
+		: bytes.toString("latin1");
+}
+
+type ParseResult = { value: PdfValue | { operator: string }; end: number };
+
+function parseObjectAt(source: string, start: number) {
+	const parsed = safeParse(source, start);
+	return parsed && !isOperator(parsed.value)
+		? { value: parsed.value, end: parsed.end }
+		: null;
+}
+
+function safeParse(source: string, start: number, allowOperators = false) {
+	try {
+		return parseValue(source, start, allowOperators, 0);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Parse one value of the PDF object syntax starting at `start`. In content
+ * streams, bare keywords are returned as operators.
+ */
+function parseValue(
+	source: string,
+	start: number,
+	allowOperators: boolean,
+	depth: number,
+): ParseResult | null {
+	if (depth > 64) throw new Error("Nesting too deep");
+	let position = skipWhitespace(source, start);
+	if (position >= source.length) return null;
+	const char = source[position];
+
+	if (char === "<" && source[position + 1] === "<") {
+		const dict = new Map<string, PdfValue>();
+		position += 2;
+		while (true) {
+			position = skipWhitespace(source, position);
+			if (source.startsWith(">>", position)) {
+				return { value: { dict }, end: position + 2 };
+			}
+			const key = parseValue(source, position, false, depth + 1);
+			if (!key || !isName(key.value)) throw new Error("Bad dictionary key");
+			const value = parseValue(source, key.end, false, depth + 1);
+			if (!value) throw new Error("Unterminated dictionary");
+			dict.set(key.value.name, value.value as PdfValue);
+			position = value.end;
+		}
+	}
+	if (char === "[") {
+		const items: PdfValue[] = [];
+		position += 1;
+		while (true) {
+			position = skipWhitespace(source, position);
+			if (source[position] === "]") {
+				return { value: items, end: position + 1 };
+			}
+			const item = parseValue(source, position, false, depth + 1);
+			if (!item) throw new Error("Unterminated array");
+			items.push(item.value as PdfValue);
+			position = item.end;
+		}
+	}
+	if (char === "(") {
+		return parseLiteralString(source, position);
+	}
+	if (char === "<") {
+		const end = source.indexOf(">", position);
+		if (end === -1) throw new Error("Unterminated hex string");
+		const hex = source.slice(position + 1, end).replace(/\s+/g, "");
+		return {
+			value: {
+				bytes: Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex").toString(
+					"latin1",
+				),
+			},
+			end: end + 1,
+		};
+	}
+	if (char === "/") {
+		const match = /^\/([^\s/<>[\]()%{}]*)/.exec(
+			source.slice(position, position + 256),
+		);
+		const raw = match?.[1] ?? "";
+		return {
+			value: {
+				name: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) =>
+					String.fromCharCode(Number.parseInt(hex, 16)),
+				),
+			},
+			end: position + 1 + raw.length,
+		};
+	}
+
+	const numberMatch = /^[+-]?(?:\d+\.?\d*|\.\d+)/.exec(
+		source.slice(position, position + 64),
+	);
+	if (numberMatch) {
+		const end = position + numberMatch[0].length;
+		// `12 0 R` is an indirect reference.
+		const reference = /^\s+(\d+)\s+R(?![A-Za-z])/.exec(
+			source.slice(end, end + 32),
+		);
+		if (reference && /^\d+$/.test(numberMatch[0])) {
+			return {
+				value: { ref: Number(numberMatch[0]) },
+				end: end + reference[0].length,
+			};
+		}
+		return { value: Number(numberMatch[0]), end };
+	}
+
+	const keyword = /^[A-Za-z'"*][A-Za-z0-9'"*]*/.exec(
+		source.slice(position, position + 32),
+	);
+	if (keyword) {
+		const end = position + keyword[0].length;
+		if (keyword[0] === "true" || keyword[0] === "false") {
+			return { value: keyword[0] === "true", end };
+		}
+		if (keyword[0] === "null") {
+			return { value: null, end };
+		}
+		if (allowOperators) {
+			// Inline images hold binary data up to `EI`.
+			if (keyword[0] === "BI") {
+				const imageEnd = source.indexOf("EI", end);
+				return {
+					value: { operator: "BI" },
+					end: imageEnd === -1 ? source.length : imageEnd + 2,
+				};
+			}
+			return { value: { operator: keyword[0] }, end };
+		}
+		return { value: null, end };
+	}
+	// Skip anything unexpected, such as stray delimiters.
+	return allowOperators ? { value: { operator: "" }, end: position + 1 } : null;
+}
+
+function parseLiteralString(source: string, start: number): ParseResult {
+	let depth = 0;
+	let bytes = "";
+	let position = start;
+	while (position < source.length) {
+		const char = source[position];
+		if (char === "\\") {
+			const next = source[position + 1];
+			const escapes: Record<string, string> = {
+				n: "\n",
+				r: "\r",
+				t: "\t",
+				b: "\b",
+				f: "\f",
+			};
+			if (next in escapes) {
+				bytes += escapes[next];
+				position += 2;
+			} else if (/[0-7]/.test(next)) {
+				const octal = /^[0-7]{1,3}/.exec(source.slice(position + 1))?.[0] ?? "";
+				bytes += String.fromCharCode(Number.parseInt(octal, 8) & 0xff);
+				position += 1 + octal.length;
+			} else if (next === "\r" || next === "\n") {
+				position += source.startsWith("\r\n", position + 1) ? 3 : 2;
+			} else {
+				bytes += next ?? "";
+				position += 2;
+			}
+			continue;
+		}
+		if (char === "(") {
+			depth++;
+			if (depth > 1) bytes += char;
+		} else if (char === ")") {
+			depth--;
+			if (depth === 0) {
+				return { value: { bytes }, end: position + 1 };
+			}
+			bytes += char;
+		} else {
+			bytes += char;
+		}
+		position++;
+	}
+	throw new Error("Unterminated string");
+}
+
+function skipWhitespace(source: string, start: number) {
+	let position = start;
+	while (position < source.length) {
+		const char = source[position];
+		if (char === "%") {
+			while (
+				position < source.length &&
+				source[position] !== "\n" &&
+				source[position] !== "\r"
+			) {
+				position++;
+			}
+		} else if (/[\s\0]/.test(char)) {
+			position++;
+		} else {
+			break;
+		}
+	}
+	return position;
+}
+
+function isOperator(value: unknown): value is { operator: string } {
+	return Boolean(value && typeof value === "object" && "operator" in value);
+}
+
+function isDict(value: unknown): value is PdfDict {
+	return Boolean(value && typeof value === "object" && "dict" in value);
+}
+
+function isName(value: unknown): value is { name: string } {
+	return Boolean(value && typeof value === "object" && "name" in value);
+}
+
+function asDict(value: PdfValue | undefined) {
+	return isDict(value) ? value : null;
+}
+
+function asName(value: PdfValue | undefined) {
+	return isName(value) ? value.name : null;
+}
+
+function asArray(value: PdfValue | undefined): PdfValue[] {
+	return Array.isArray(value) ? value : [];
+}
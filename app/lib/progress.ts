@@ -0,0 +1,218 @@
+import type { ArticleResult } from "./article";
+import type {
+	BuildProgressEvent,
+	BuildProgressStatus,
+	FeedEntry,
+} from "./types";
+
+/** How long a finished job stays around for a browser that connects late. */
+const FINISHED_JOB_TTL_MS = 60_000;
+/** Upper bound for a job whose build never finishes. */
+const ABANDONED_JOB_TTL_MS = 15 * 60_000;
+const KEEP_ALIVE_MS = 15_000;
+const JOB_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+type ProgressEventListener = (event: BuildProgressEvent) => void;
+
+type ProgressChannel = {
+	/** Latest event per item, replayed to browsers that connect later. */
+	items: Map<string, BuildProgressEvent>;
+	done: boolean;
+	listeners: Set<ProgressEventListener>;
+	expiry: ReturnType<typeof setTimeout> | undefined;
+};
+
+export type ProgressReporter = {
+	item(
+		id: string,
+		label: string,
+		status: BuildProgressStatus,
+		detail?: string | null,
+	): void;
+};
+
+const NOOP_REPORTER: ProgressReporter = { item() {} };
+
+// Jobs live in memory, so progress only reaches browsers served by the same
+// process that runs the action.
+const channels = new Map<string, ProgressChannel>();
+
+export function isProgressJobId(value: unknown): value is string {
+	return typeof value === "string" && JOB_ID_PATTERN.test(value);
+}
+
+/**
+ * Run a build while publishing to the progress channel named by the form's
+ * `jobId` field. Forms submitted without one (no JavaScript, API clients) get
+ * a reporter that drops every event. `done` is published however the build
+ * ends.
+ */
+export async function withProgress<T>(
+	jobId: FormDataEntryValue | null,
+	run: (progress: ProgressReporter) => Promise<T>,
+): Promise<T> {
+	if (!isProgressJobId(jobId)) {
+		return run(NOOP_REPORTER);
+	}
+
+	const channel = getChannel(jobId);
+	try {
+		return await run({
+			item(id, label, status, detail = null) {
+				publish(channel, { type: "item", id, label, status, detail });
+			},
+		});
+	} finally {
+		publish(channel, { type: "done" });
+		expireChannel(jobId, channel, FINISHED_JOB_TTL_MS);
+	}
+}
+
+/**
+ * Report how extracting the linked article of an entry went.
+ */
+export function reportArticleResult(
+	progress: ProgressReporter,
+	id: string,
+	label: string,
+	article: ArticleResult,
+) {
+	if (article.text) {
+		progress.item(id, label, "extracted");
+	} else {
+		progress.item(id, label, "failed", article.failure?.message ?? null);
+	}
+}
+
+/**
+ * Mark entries as packed into the bundle, noting the ones that fell back to
+ * their feed body.
+ */
+export function reportBundledEntries(
+	progress: ProgressReporter,
+	entries: FeedEntry[],
+) {
+	for (const entry of entries) {
+		progress.item(
+			entry.id,
+			entry.title,
+			"zipped",
+			entry.fetchFailure
+				? `Used the feed body: ${entry.fetchFailure.message}`
+				: null,
+		);
+	}
+}
+
+/**
+ * Stream a job's events as Server-Sent Events. Events published before the
+ * browser connected are replayed first, and the stream ends after `done`.
+ * Only builds create channels, so a job that hasn't started yet (or expired)
+ * is a 404 and the browser retries.
+ */
+export function createProgressEventStream(jobId: string, signal: AbortSignal) {
+	const channel = channels.get(jobId);
+	if (!channel) {
+		return new Response("Unknown job", { status: 404 });
+	}
+	const encoder = new TextEncoder();
+	let cleanup = () => {};
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const write = (chunk: string) => {
+				controller.enqueue(encoder.encode(chunk));
+			};
+			const send: ProgressEventListener = (event) => {
+				write(`data: ${JSON.stringify(event)}\n\n`);
+				if (event.type === "done") {
+					cleanup();
+					controller.close();
+				}
+			};
+
+			for (const event of channel.items.values()) {
+				write(`data: ${JSON.stringify(event)}\n\n`);
+			}
+			if (channel.done) {
+				send({ type: "done" });
+				return;
+			}
+
+			const keepAlive = setInterval(
+				() => write(": keep-alive\n\n"),
+				KEEP_ALIVE_MS,
+			);
+			const onAbort = () => {
+				cleanup();
+				try {
+					controller.close();
+				} catch {
+					// The stream was already cancelled by the disconnecting client.
+				}
+			};
+			cleanup = () => {
+				clearInterval(keepAlive);
+				channel.listeners.delete(send);
+				signal.removeEventListener("abort", onAbort);
+			};
+			channel.listeners.add(send);
+			signal.addEventListener("abort", onAbort);
+		},
+		cancel() {
+			cleanup();
+		},
+	});
+
+	return new Response(stream, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			Connection: "keep-alive",
+		},
+	});
+}
+
+/**
+ * Look up a job's channel, creating it when its build starts.
+ */
+function getChannel(jobId: string) {
+	let channel = channels.get(jobId);
+	if (!channel) {
+		channel = {
+			items: new Map(),
+			done: false,
+			listeners: new Set(),
+			expiry: undefined,
+		};
+		channels.set(jobId, channel);
+		expireChannel(jobId, channel, ABANDONED_JOB_TTL_MS);
+	}
+	return channel;
+}
+
+function publish(channel: ProgressChannel, event: BuildProgressEvent) {
+	if (channel.done) {
+		return;
+	}
+	if (event.type === "item") {
+		channel.items.set(event.id, event);
+	} else {
+		channel.done = true;
+	}
+	for (const listener of [...channel.listeners]) {
+		listener(event);
+	}
+}
+
+function expireChannel(
+	jobId: string,
+	channel: ProgressChannel,
+	afterMs: number,
+) {
+	clearTimeout(channel.expiry);
+	channel.expiry = setTimeout(() => {
+		publish(channel, { type: "done" });
+		channels.delete(jobId);
+	}, afterMs);
+}
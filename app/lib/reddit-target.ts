@@ -0,0 +1,44 @@
+/**
+ * Recognising what a Reddit input points at. The Reddit form validates with
+ * this in the browser, so it is kept apart from the fetching code in
+ * `./reddit`, which pulls in server-only modules.
+ */
+
+export type RedditTarget =
+	| { kind: "subreddit"; name: string }
+	| { kind: "thread"; permalink: string };
+
+/**
+ * Work out whether the user asked for a subreddit (`r/name`, `name` or a
+ * subreddit URL) or a single thread (a `/comments/` or `redd.it` URL).
+ * Returns `null` for anything else.
+ */
+export function parseRedditTarget(value: string): RedditTarget | null {
+	const trimmed = value.trim();
+	const bare = /^\/?(?:r\/)?([A-Za-z0-9_]{2,21})\/?$/.exec(trimmed);
+	if (bare) {
+		return { kind: "subreddit", name: bare[1] };
+	}
+
+	let url: URL;
+	try {
+		url = new URL(trimmed);
+	} catch {
+		return null;
+	}
+
+	if (url.hostname === "redd.it") {
+		const id = url.pathname.slice(1).split("/")[0];
+		return id ? { kind: "thread", permalink: `/comments/${id}/` } : null;
+	}
+	if (!/(^|\.)reddit\.com$/.test(url.hostname)) {
+		return null;
+	}
+
+	const thread = /^(\/r\/[^/]+)?\/comments\/([a-z0-9]+)/i.exec(url.pathname);
+	if (thread) {
+		return { kind: "thread", permalink: `${thread[0]}/` };
+	}
+	const subreddit = /^\/r\/([A-Za-z0-9_]{2,21})\/?/.exec(url.pathname);
+	return subreddit ? { kind: "subreddit", name: subreddit[1] } : null;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import subredditFixture from "./__fixtures__/reddit/subreddit-listing.json";
+import threadFixture from "./__fixtures__/reddit/thread.json";
+import { parseSubredditListing, parseThreadListing } from "./reddit";
+import { parseRedditTarget } from "./reddit-target";
+
+type SubredditListing = Parameters<typeof parseSubredditListing>[0];
+type ThreadListing = Parameters<typeof parseThreadListing>[0];
+
+// JSON imports widen string literals such as `kind`, so cast via `unknown`.
+const subredditListing = subredditFixture as unknown as SubredditListing;
+const thread = threadFixture as unknown as ThreadListing;
+
+describe("parseRedditTarget", () => {
+	it("reads bare subreddit names", () => {
+		expect(parseRedditTarget("typescript")).toEqual({
+			kind: "subreddit",
+			name: "typescript",
+		});
+		expect(parseRedditTarget(" r/typescript/ ")).toEqual({
+			kind: "subreddit",
+			name: "typescript",
+		});
+	});
+
+	it("reads subreddit URLs on any reddit.com host", () => {
+		expect(
+			parseRedditTarget("https://old.reddit.com/r/typescript/top/"),
+		).toEqual({ kind: "subreddit", name: "typescript" });
+	});
+
+	it("reads thread URLs and redd.it short links", () => {
+		expect(
+			parseRedditTarget(
+				"https://www.reddit.com/r/typescript/comments/1g5x0ze/how_do_you_type/",
+			),
+		).toEqual({
+			kind: "thread",
+			permalink: "/r/typescript/comments/1g5x0ze/",
+		});
+		expect(parseRedditTarget("https://redd.it/1g5x0ze")).toEqual({
+			kind: "thread",
+			permalink: "/comments/1g5x0ze/",
+		});
+	});
+
+	it("rejects other input", () => {
+		expect(parseRedditTarget("https://example.com/r/typescript")).toBeNull();
+		expect(parseRedditTarget("https://www.reddit.com/user/spez")).toBeNull();
+		expect(parseRedditTarget("not a subreddit")).toBeNull();
+	});
+});
+
+describe("parseSubredditListing", () => {
+	it("keeps posts and skips moderator pins", () => {
+		const posts = parseSubredditListing(subredditListing);
+		expect(posts.map((post) => post.id)).toEqual(["1g5w8kp", "1g5x0ze"]);
+		expect(posts[0]).toMatchObject({
+			title: "Announcing TypeScript 5.7 Beta",
+			is_self: false,
+			url: "https://devblogs.microsoft.com/typescript/announcing-typescript-5-7-beta/",
+		});
+	});
+});
+
+describe("parseThreadListing", () => {
+	it("returns the post and its comment tree", () => {
+		const result = parseThreadListing(thread, {
+			depth: 3,
+			count: 10,
+		});
+		expect(result?.post.id).toBe("1g5x0ze");
+		expect(result?.comments).toEqual([
+			{
+				id: "lsc1a0b",
+				author: "u/type_wizard",
+				postedAt: "2024-10-17T19:40:11.000Z",
+				text: "Overloads are still the clearest option for callers.",
+				replies: [
+					{
+						id: "lsc2f9q",
+						author: "u/curious_dev_42",
+						postedAt: "2024-10-17T19:50:22.000Z",
+						text: "Thanks, that reads much better.",
+						replies: [
+							{
+								id: "lsc3k1d",
+								author: "u/type_wizard",
+								postedAt: "2024-10-17T19:58:50.000Z",
+								text: "No problem.",
+								replies: [],
+							},
+						],
+					},
+				],
+			},
+			{
+				id: "lsc1z8m",
+				author: "u/generic_enjoyer",
+				postedAt: "2024-10-17T19:46:49.000Z",
+				text: "A conditional return type works, but you'll need a cast in the body.",
+				replies: [],
+			},
+		]);
+	});
+
+	it("drops deleted and removed comments and “more” stubs", () => {
+		const result = parseThreadListing(thread, {
+			depth: 3,
+			count: 10,
+		});
+		const serialized = JSON.stringify(result?.comments);
+		expect(serialized).not.toContain("lsc2h7x");
+		expect(serialized).not.toContain("lsc1q4e");
+		expect(serialized).not.toContain("lsc4m2n");
+		expect(serialized).not.toContain("[deleted]");
+	});
+
+	it("applies the depth and count limits", () => {
+		const result = parseThreadListing(thread, {
+			depth: 1,
+			count: 1,
+		});
+		expect(result?.comments).toHaveLength(1);
+		expect(result?.comments[0].replies).toEqual([]);
+	});
+
+	it("returns null when the thread has no post", () => {
+		const [, comments] = thread;
+		const empty: ThreadListing[0] = { kind: "Listing", data: { children: [] } };
+		expect(parseThreadListing([empty, comments], { depth: 1, count: 1 })).toBe(
+			null,
+		);
+	});
+});
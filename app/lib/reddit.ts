@@ -0,0 +1,265 @@
+import type { RedditSort, RedditTimeWindow } from "./builder-options";
+import { FEED_USER_AGENT, type FeedEntryDraft } from "./feed";
+import { scheduleFetches } from "./fetch-scheduler";
+import { cachedFetch } from "./http-cache";
+import type { EntryComment } from "./types";
+
+const REDDIT_BASE_URL = "https://www.reddit.com";
+
+export type RedditPost = {
+	id: string;
+	title: string;
+	author: string;
+	subreddit: string;
+	permalink: string;
+	url: string;
+	selftext: string;
+	is_self: boolean;
+	created_utc: number;
+	link_flair_text: string | null;
+	stickied: boolean;
+};
+
+type RedditComment = {
+	id: string;
+	author: string;
+	body: string;
+	created_utc: number;
+	replies: RedditListing<RedditThing> | "";
+};
+
+type RedditThing =
+	| { kind: "t3"; data: RedditPost }
+	| { kind: "t1"; data: RedditComment }
+	| { kind: "more"; data: unknown };
+
+type RedditListing<T> = {
+	kind: "Listing";
+	data: { children: T[] };
+};
+
+export type RedditThread = {
+	post: RedditPost;
+	comments: EntryComment[];
+};
+
+export type CommentTreeOptions = {
+	/** Reply levels to keep; 1 keeps only top-level comments. */
+	depth: number;
+	/** Comments kept per post and per parent comment, best first. */
+	count: number;
+};
+
+export type RedditFetchResult<T> =
+	| { ok: true; value: T }
+	| { ok: false; status: number; error: string };
+
+/**
+ * Fetch a page of subreddit posts, skipping the moderator pins that sit at the
+ * top of every listing.
+ */
+export async function fetchSubredditPosts(
+	name: string,
+	{
+		sort,
+		time,
+		limit,
+	}: { sort: RedditSort; time: RedditTimeWindow; limit: number },
+): Promise<RedditFetchResult<RedditPost[]>> {
+	const url = new URL(`/r/${name}/${sort}.json`, REDDIT_BASE_URL);
+	url.searchParams.set("limit", String(limit));
+	url.searchParams.set("raw_json", "1");
+	if (sort === "top") {
+		url.searchParams.set("t", time);
+	}
+
+	const result = await fetchRedditJson<RedditListing<RedditThing>>(url);
+	if (!result.ok) {
+		return result;
+	}
+	return { ok: true, value: parseSubredditListing(result.value) };
+}
+
+/**
+ * Fetch a thread: the post itself plus its top comment tree.
+ */
+export async function fetchRedditThread(
+	permalink: string,
+	options: CommentTreeOptions,
+	signal?: AbortSignal,
+): Promise<RedditFetchResult<RedditThread>> {
+	const result = await fetchRedditJson<
+		[RedditListing<RedditThing>, RedditListing<RedditThing>]
+	>(getThreadJsonUrl(permalink, options), signal);
+	if (!result.ok) {
+		return result;
+	}
+
+	const thread = parseThreadListing(result.value, options);
+	return thread
+		? { ok: true, value: thread }
+		: {
+				ok: false,
+				status: 404,
+				error: "That Reddit thread doesn’t exist or was removed.",
+			};
+}
+
+/**
+ * Fetch the comment trees for several posts with the shared scheduler.
+ * Threads that fail to load come back without comments. Results keep the
+ * order of `posts`.
+ */
+export async function fetchRedditComments(
+	posts: RedditPost[],
+	options: CommentTreeOptions,
+): Promise<EntryComment[][]> {
+	const results = await scheduleFetches(
+		posts.map((post) => getThreadJsonUrl(post.permalink, options).href),
+		async (url, signal) => {
+			const result = await fetchRedditJson<
+				[RedditListing<RedditThing>, RedditListing<RedditThing>]
+			>(new URL(url), signal);
+			if (!result.ok) {
+				throw new Error(result.error);
+			}
+			return parseThreadListing(result.value, options)?.comments ?? [];
+		},
+	);
+	return results.map((result) => (result.ok ? result.value : []));
+}
+
+export function parseSubredditListing(listing: RedditListing<RedditThing>) {
+	return listing.data.children.flatMap((child) =>
+		child.kind === "t3" && !child.data.stickied ? [child.data] : [],
+	);
+}
+
+export function parseThreadListing(
+	[postListing, commentListing]: [
+		RedditListing<RedditThing>,
+		RedditListing<RedditThing>,
+	],
+	options: CommentTreeOptions,
+): RedditThread | null {
+	const post = postListing.data.children.find((child) => child.kind === "t3");
+	if (!post || post.kind !== "t3") {
+		return null;
+	}
+	return {
+		post: post.data,
+		comments: toEntryComments(commentListing, options, 1),
+	};
+}
+
+/**
+ * Map a Reddit post to an entry draft. Link posts point at the linked page so
+ * the article pipeline can extract it; self posts point at the thread and use
+ * their body as the entry text.
+ */
+export function toRedditDraft(post: RedditPost): FeedEntryDraft {
+	const threadUrl = new URL(post.permalink, REDDIT_BASE_URL).href;
+	return {
+		title: post.title,
+		url: post.is_self ? threadUrl : post.url,
+		guid: threadUrl,
+		publishedAt: new Date(post.created_utc * 1000).toISOString(),
+		updatedAt: null,
+		authors: [`u/${post.author}`],
+		categories: [`r/${post.subreddit}`, post.link_flair_text].filter(
+			(value): value is string => Boolean(value),
+		),
+		enclosures: [],
+		feedText: post.selftext.trim(),
+	};
+}
+
+/**
+ * Link posts whose target is worth running through Readability. Self posts and
+ * Reddit-hosted media have no article to extract.
+ */
+export function hasLinkedArticle(post: RedditPost) {
+	if (post.is_self) {
+		return false;
+	}
+	try {
+		const { hostname } = new URL(post.url);
+		return !/(^|\.)(reddit\.com|redd\.it)$/.test(hostname);
+	} catch {
+		return false;
+	}
+}
+
+function toEntryComments(
+	listing: RedditListing<RedditThing> | "",
+	options: CommentTreeOptions,
+	level: number,
+): EntryComment[] {
+	if (!listing) {
+		return [];
+	}
+	return listing.data.children
+		.flatMap((child) => (child.kind === "t1" ? [child.data] : []))
+		.filter(
+			(comment) =>
+				comment.author !== "[deleted]" && comment.body !== "[removed]",
+		)
+		.slice(0, options.count)
+		.map((comment) => ({
+			id: comment.id,
+			author: `u/${comment.author}`,
+			postedAt: new Date(comment.created_utc * 1000).toISOString(),
+			text: comment.body,
+			replies:
+				level < options.depth
+					? toEntryComments(comment.replies, options, level + 1)
+					: [],
+		}));
+}
+
+function getThreadJsonUrl(permalink: string, options: CommentTreeOptions) {
+	const url = new URL(`${permalink.replace(/\/?$/, "")}.json`, REDDIT_BASE_URL);
+	url.searchParams.set("raw_json", "1");
+	url.searchParams.set("sort", "top");
+	url.searchParams.set("depth", String(options.depth));
+	// Leave room for deleted comments that are filtered out afterwards.
+	url.searchParams.set("limit", String(options.count * 2));
+	return url;
+}
+
+async function fetchRedditJson<T>(
+	url: URL,
+	signal?: AbortSignal,
+): Promise<RedditFetchResult<T>> {
+	const response = await cachedFetch(url, {
+		headers: {
+			"User-Agent": FEED_USER_AGENT,
+			Accept: "application/json",
+		},
+		signal,
+	});
+
+	if (response.status === 403) {
+		return {
+			ok: false,
+			status: 403,
+			error: "That subreddit is private or quarantined.",
+		};
+	}
+	if (response.status === 404) {
+		return {
+			ok: false,
+			status: 404,
+			error: "We couldn’t find that subreddit or thread.",
+		};
+	}
+	if (!response.ok) {
+		return {
+			ok: false,
+			status: 502,
+			error: `We couldn’t reach Reddit (status ${response.status}). Please try again later.`,
+		};
+	}
+
+	return { ok: true, value: (await response.json()) as T };
+}
@@ -0,0 +1,65 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { convertRepoArchive } from "./repo-archive";
+import type { GitHubRepoInfo } from "./types";
+
+// A zipball as GitHub serves it: everything sits in one `owner-repo-sha/`
+// folder.
+const zipball = readFileSync(
+	new URL("./__fixtures__/github/zipball.zip", import.meta.url),
+);
+
+const repo: GitHubRepoInfo = {
+	owner: "octo",
+	name: "demo",
+	url: "https://github.com/octo/demo",
+	description: null,
+	ref: "main",
+	sha: "1a2b3c4",
+	subdir: null,
+};
+
+describe("convertRepoArchive", () => {
+	it("drops the zipball folder from every path", async () => {
+		const result = await convertRepoArchive(zipball, {
+			sourceName: "octo-demo",
+			repo,
+		});
+		if (!result.ok) throw new Error(result.error);
+		expect(result.files.filter((file) => !file.skipped)).toMatchObject([
+			{ path: "README.md" },
+			{ path: "src/index.ts.txt", isCode: true },
+			{ path: "docs/guide.md" },
+			{ path: "docs/api/reference.md" },
+		]);
+		expect(result.files.find((file) => file.skipped)).toMatchObject({
+			path: "package-lock.json",
+			skipped: { source: "generated", rule: "lockfile" },
+		});
+	});
+
+	it("keeps only the files of the requested subdirectory", async () => {
+		const result = await convertRepoArchive(zipball, {
+			sourceName: "octo-demo",
+			repo: { ...repo, subdir: "docs" },
+		});
+		if (!result.ok) throw new Error(result.error);
+		expect(result.files.map((file) => file.path)).toEqual([
+			"docs/guide.md",
+			"docs/api/reference.md",
+		]);
+		expect(result.stats.totalFiles).toBe(2);
+	});
+
+	it("answers 404 when the subdirectory doesn't exist", async () => {
+		const result = await convertRepoArchive(zipball, {
+			sourceName: "octo-demo",
+			repo: { ...repo, subdir: "missing" },
+		});
+		expect(result).toEqual({
+			ok: false,
+			status: 404,
+			error: "The folder “missing” doesn’t exist at main.",
+		});
+	});
+});
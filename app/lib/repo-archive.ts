@@ -0,0 +1,602 @@
+import JSZip from "jszip";
+import { SourceBundle } from "./bundle";
+import {
+	type CodeOutline,
+	outlineSourceFile,
+	renderOutlineHeader,
+} from "./code-outline";
+import {
+	detectGeneratedName,
+	detectUnreadableContent,
+	MAX_TEXT_FILE_BYTES,
+	oversizedSkip,
+} from "./file-detection";
+import {
+	createIgnoreMatcher,
+	type IgnoreRule,
+	parseIgnoreRules,
+	parsePatternList,
+} from "./ignore-rules";
+import {
+	type LLMsTxtFiles,
+	type RepoTextFile,
+	repoToLLMsTxt,
+} from "./llms-export";
+import {
+	buildRepoDigest,
+	type DigestInput,
+	type RepoDigestOptions,
+} from "./repo-digest";
+import type { GitHubRepoInfo, RepoFile, RepoFileSkip } from "./types";
+import { inflateZipEntry } from "./zip-entry";
+
+// File extension lists
+const DOC_EXTENSIONS = new Set(["pdf", "txt", "md", "docx"]);
+const IMG_EXTENSIONS = new Set([
+	"avif",
+	"bmp",
+	"gif",
+	"ico",
+	"jp2",
+	"png",
+	"webp",
+	"tif",
+	"tiff",
+	"heic",
+	"heif",
+	"jpeg",
+	"jpg",
+	"jpe",
+]);
+const MEDIA_EXTENSIONS = new Set([
+	"3g2",
+	"3gp",
+	"aac",
+	"aif",
+	"aifc",
+	"aiff",
+	"amr",
+	"au",
+	"avi",
+	"cda",
+	"m4a",
+	"mid",
+	"mp3",
+	"mp4",
+	"mpeg",
+	"ogg",
+	"opus",
+	"ra",
+	"ram",
+	"snd",
+	"wav",
+	"wma",
+]);
+// Common code extensions to convert to .txt
+const CODE_EXTENSIONS = new Set([
+	"js",
+	"ts",
+	"jsx",
+	"tsx",
+	"py",
+	"java",
+	"c",
+	"cpp",
+	"h",
+	"hpp",
+	"cs",
+	"go",
+	"rs",
+	"rb",
+	"php",
+	"swift",
+	"kt",
+	"scala",
+	"vue",
+	"svelte",
+	"sql",
+	"sh",
+	"bash",
+	"yaml",
+	"yml",
+	"json",
+	"xml",
+	"html",
+	"css",
+	"scss",
+	"less",
+	"r",
+	"m",
+	"pl",
+	"pm",
+	"t",
+	"lua",
+	"dart",
+	"elm",
+	"erl",
+	"ex",
+	"exs",
+	"fs",
+	"fsx",
+	"hs",
+	"lhs",
+]);
+const IGNORED_DIRS = new Set([
+	"node_modules",
+	".git",
+	"dist",
+	"build",
+	"out",
+	"target",
+	"vendor",
+	"bin",
+	"obj",
+	".idea",
+	".vscode",
+	"__pycache__",
+	".next",
+	".nuxt",
+	"coverage",
+]);
+// Plain-text documents: merged into digests along with code, and checked for
+// binary content and size like code.
+const DIGEST_TEXT_EXTENSIONS = new Set(["md", "txt"]);
+const IGNORE_FILE_NAMES = [".gitignore", ".notebooklmignore"];
+/** Skipped files beyond this are only counted, not listed. */
+const MAX_LISTED_SKIPS = 1000;
+/** Exported symbols named in a code file's llms.txt notes. */
+const MAX_DESCRIBED_EXPORTS = 8;
+/** Documents, images and media above this size are skipped. */
+const MAX_BINARY_FILE_BYTES = 50 * 1024 * 1024;
+/** Bytes inflated from one archive at most, so a ZIP bomb is refused. */
+const MAX_INFLATED_BYTES = 256 * 1024 * 1024;
+
+// Dotfiles are skipped, but dot-directories such as `.github` are kept unless
+// they are in `IGNORED_DIRS`.
+const DEFAULT_RULES = parseIgnoreRules(
+	[".*", "!.*/", ...[...IGNORED_DIRS].map((dir) => `${dir}/`)].join("\n"),
+	{ source: "defaults" },
+);
+
+export type RepoArchiveStats = {
+	totalFiles: number;
+	includedFiles: number;
+	codeFilesConverted: number;
+	skippedFiles: number;
+	digestDocuments: number;
+};
+
+export type RepoArchiveResult =
+	| {
+			ok: true;
+			archive: { data: Uint8Array; fileName: string };
+			stats: RepoArchiveStats;
+			files: RepoFile[];
+			llmsTxt: LLMsTxtFiles | null;
+	  }
+	| { ok: false; status: number; error: string };
+
+/**
+ * Include and exclude patterns typed into the form, in `.gitignore` syntax and
+ * relative to the repository root.
+ */
+export type RepoArchiveFilters = {
+	include: string | null;
+	exclude: string | null;
+};
+
+/**
+ * Filter a repository ZIP (a GitHub zipball or an upload) down to the files
+ * NotebookLM can read and package them as a bundle. Code files get a `.txt`
+ * suffix and an outline header (see `outlineSourceFile`);
+ * `notebooklm-manifest.json` records what was kept.
+ *
+ * Files are excluded by the built-in defaults, every `.gitignore` and
+ * `.notebooklmignore` in the archive and the `exclude` patterns, in that
+ * order with later rules winning. `include` patterns, when given, then limit
+ * the bundle to matching files. Code and text files are then checked by
+ * name and content for lockfiles, binaries, generated or minified code and
+ * oversized data. Skipped files are listed with the rule that excluded them.
+ * Entries are inflated with a size limit each and `MAX_INFLATED_BYTES` for
+ * the whole archive, which fails with a 413 once it is used up.
+ *
+ * With `digest` options, code and plain-text files are merged into a few
+ * Markdown digests instead (see `buildRepoDigest`), and the manifest maps each
+ * original path to the digest sections that hold it. PDFs, images and media
+ * are still copied as they are.
+ *
+ * With `llmsTxt`, the code and text files are also exported as an llms.txt
+ * and llms-full.txt (see `repoToLLMsTxt`).
+ *
+ * GitHub zipballs wrap everything in one `owner-repo-sha/` folder, which is
+ * dropped when `repo` is given. `repo.subdir` then limits the bundle to that
+ * folder.
+ */
+export async function convertRepoArchive(
+	zipData: ArrayBuffer | Uint8Array,
+	{
+		sourceName,
+		repo = null,
+		filters = { include: null, exclude: null },
+		digest = null,
+		llmsTxt = false,
+	}: {
+		sourceName: string;
+		repo?: GitHubRepoInfo | null;
+		filters?: RepoArchiveFilters;
+		digest?: RepoDigestOptions | null;
+		llmsTxt?: boolean;
+	},
+): Promise<RepoArchiveResult> {
+	let inputZip: JSZip;
+	try {
+		inputZip = await new JSZip().loadAsync(zipData);
+	} catch (error) {
+		console.error("Failed to read repository archive", error);
+		return {
+			ok: false,
+			status: 422,
+			error: "That file isn’t a readable ZIP archive.",
+		};
+	}
+
+	const entries = Object.entries(inputZip.files)
+		.filter(([, file]) => !file.dir)
+		.map(([zipPath, file]) => ({
+			path: repo ? zipPath.split("/").slice(1).join("/") : zipPath,
+			file,
+		}));
+
+	// Every entry is inflated against its own size limit and what is left of
+	// `MAX_INFLATED_BYTES`; running out of the latter fails the conversion.
+	let inflatedBytes = 0;
+	let overBudget = false;
+	const readEntry = async (file: JSZip.JSZipObject, maxBytes: number) => {
+		const remaining = MAX_INFLATED_BYTES - inflatedBytes;
+		const data = await inflateZipEntry(file, Math.min(maxBytes, remaining));
+		if (!data) {
+			overBudget = remaining <= maxBytes;
+			return null;
+		}
+		inflatedBytes += data.byteLength;
+		return data;
+	};
+	const tooLarge = {
+		ok: false,
+		status: 413,
+		error: `That archive expands to more than ${MAX_INFLATED_BYTES / 1024 / 1024} MB. Narrow it down with include or exclude patterns.`,
+	} as const;
+
+	const knownPaths = new Set(entries.map(({ path }) => path));
+	const ignoreFiles = await readIgnoreRules(entries, readEntry);
+	if (overBudget) {
+		return tooLarge;
+	}
+	const excludeRules = parsePatternList(filters.exclude, "exclude");
+	const includeRules = parsePatternList(filters.include, "include");
+	const matchExclude = createIgnoreMatcher([
+		...DEFAULT_RULES,
+		...ignoreFiles.rules,
+		...excludeRules,
+	]);
+	const matchInclude = createIgnoreMatcher(includeRules);
+
+	const bundle = new SourceBundle(
+		{
+			title: repo ? `${repo.owner}/${repo.name}` : sourceName,
+			description: null,
+			url: repo?.url ?? sourceName,
+		},
+		{ fileName: `${sourceName}-notebooklm.zip` },
+	);
+
+	const stats: RepoArchiveStats = {
+		totalFiles: 0,
+		includedFiles: 0,
+		codeFilesConverted: 0,
+		skippedFiles: 0,
+		digestDocuments: 0,
+	};
+	const processedFiles: RepoFile[] = [];
+	const digestInputs: DigestInput[] = [];
+	const textFiles: RepoTextFile[] = [];
+	const skippedFiles: RepoFile[] = [];
+	const subdirPrefix = repo?.subdir ? `${repo.subdir}/` : null;
+
+	for (const { path, file } of entries) {
+		if (subdirPrefix && !path.startsWith(subdirPrefix)) continue;
+		stats.totalFiles++;
+
+		const fileName = path.split("/").pop() || "";
+		const extension = fileName.split(".").pop()?.toLowerCase() || "";
+		const skip = (skipped: RepoFileSkip, size: number | null = null) => {
+			stats.skippedFiles++;
+			if (skippedFiles.length < MAX_LISTED_SKIPS) {
+				skippedFiles.push({
+					path,
+					name: fileName,
+					originalExtension: extension,
+					convertedName: fileName,
+					size,
+					isCode: false,
+					skipped,
+				});
+			}
+		};
+
+		const excludedBy = matchExclude(path);
+		if (excludedBy) {
+			skip({ source: excludedBy.source, rule: excludedBy.pattern });
+			continue;
+		}
+		if (includeRules.length > 0 && !matchInclude(path)) {
+			skip({ source: "include", rule: null });
+			continue;
+		}
+
+		const isCode = CODE_EXTENSIONS.has(extension);
+		const isText = isCode || DIGEST_TEXT_EXTENSIONS.has(extension);
+		if (
+			!isCode &&
+			!DOC_EXTENSIONS.has(extension) &&
+			!IMG_EXTENSIONS.has(extension) &&
+			!MEDIA_EXTENSIONS.has(extension)
+		) {
+			skip({ source: "file type", rule: null });
+			continue;
+		}
+
+		const generatedName = isText ? detectGeneratedName(path) : null;
+		if (generatedName) {
+			skip(generatedName);
+			continue;
+		}
+
+		const content = await readEntry(
+			file,
+			isText ? MAX_TEXT_FILE_BYTES : MAX_BINARY_FILE_BYTES,
+		);
+		if (overBudget) {
+			return tooLarge;
+		}
+		if (!content) {
+			skip(oversizedSkip(isText ? MAX_TEXT_FILE_BYTES : MAX_BINARY_FILE_BYTES));
+			continue;
+		}
+		// Extensions are only trusted for documents and media; code and text
+		// files are checked for binaries, generated code and minification.
+		const unreadable = isText
+			? detectUnreadableContent(content, { isCode })
+			: null;
+		if (unreadable) {
+			skip(unreadable, content.byteLength);
+			continue;
+		}
+		stats.includedFiles++;
+		if (isCode) {
+			stats.codeFilesConverted++;
+		}
+
+		if (llmsTxt && isText) {
+			const text = new TextDecoder().decode(content);
+			textFiles.push({
+				path: subdirPrefix ? path.slice(subdirPrefix.length) : path,
+				text,
+				isCode,
+				notes: isCode
+					? describeOutline(outlineSourceFile(path, text, knownPaths))
+					: null,
+			});
+		}
+
+		if (digest && isText) {
+			digestInputs.push({
+				path: subdirPrefix ? path.slice(subdirPrefix.length) : path,
+				text: new TextDecoder().decode(content),
+			});
+			// `convertedName` is set to the digest file once digests are built.
+			processedFiles.push({
+				path,
+				name: fileName,
+				originalExtension: extension,
+				convertedName: "",
+				size: content.byteLength,
+				isCode,
+				skipped: null,
+			});
+			continue;
+		}
+
+		// Rename code to .txt for NotebookLM readability, with a header that
+		// says what the file was.
+		const targetPath = isCode ? `${path}.txt` : path;
+		if (isCode) {
+			const text = new TextDecoder().decode(content);
+			const outline = outlineSourceFile(path, text, knownPaths);
+			bundle.addFile(targetPath, renderOutlineHeader(path, outline) + text);
+		} else {
+			bundle.addFile(targetPath, content);
+		}
+
+		processedFiles.push({
+			path: targetPath,
+			name: fileName,
+			originalExtension: extension,
+			convertedName: targetPath.split("/").pop() || "",
+			size: content.byteLength,
+			isCode,
+			skipped: null,
+		});
+	}
+
+	if (subdirPrefix && stats.totalFiles === 0) {
+		return {
+			ok: false,
+			status: 404,
+			error: `The folder “${repo?.subdir}” doesn’t exist at ${repo?.ref}.`,
+		};
+	}
+	if (stats.includedFiles === 0) {
+		return {
+			ok: false,
+			status: 422,
+			error:
+				stats.skippedFiles > 0
+					? "Every file in the archive was excluded by an ignore rule, a filter or its file type."
+					: "No supported files found in the archive.",
+		};
+	}
+
+	const digestSections =
+		digest && digestInputs.length > 0
+			? addDigests(bundle, digestInputs, {
+					title: repo ? `${repo.owner}/${repo.name}` : sourceName,
+					baseName: sourceName,
+					options: digest,
+					pathPrefix: subdirPrefix ?? "",
+				})
+			: null;
+	if (digestSections) {
+		stats.digestDocuments = new Set(
+			Object.values(digestSections).flatMap((sections) =>
+				sections.map((section) => section.file),
+			),
+		).size;
+		for (const processed of processedFiles) {
+			const sections = digestSections[processed.path];
+			if (sections) {
+				processed.convertedName = sections[0].file;
+			}
+		}
+	}
+
+	const manifest = {
+		source: repo ? "github" : "upload",
+		generatedAt: new Date().toISOString(),
+		repo: repo ?? undefined,
+		rules: {
+			ignoreFiles: ignoreFiles.paths,
+			include: includeRules.map((rule) => rule.pattern),
+			exclude: excludeRules.map((rule) => rule.pattern),
+		},
+		stats,
+		files: processedFiles
+			.filter((f) => !digestSections?.[f.path])
+			.map((f) => f.path),
+		digest: digestSections ? { ...digest, files: digestSections } : undefined,
+	};
+	bundle.addFile("notebooklm-manifest.json", JSON.stringify(manifest, null, 2));
+
+	return {
+		ok: true,
+		archive: await bundle.toUint8Array(),
+		stats,
+		files: [...processedFiles, ...skippedFiles],
+		llmsTxt: llmsTxt
+			? repoToLLMsTxt({
+					title: repo ? `${repo.owner}/${repo.name}` : sourceName,
+					summary: repo?.description ?? null,
+					fileBaseUrl: repo
+						? `https://raw.githubusercontent.com/${repo.owner}/${repo.name}/${repo.sha}${repo.subdir ? `/${repo.subdir}` : ""}`
+						: null,
+					files: textFiles,
+				})
+			: null,
+	};
+}
+
+/**
+ * Notes for a code file's llms.txt link: its language, size and exported
+ * symbols.
+ */
+function describeOutline(outline: CodeOutline) {
+	const size = `${outline.language}, ${outline.lineCount} lines`;
+	const exported = outline.symbols
+		.filter((symbol) => symbol.exported)
+		.map((symbol) => symbol.name);
+	if (exported.length === 0) {
+		return size;
+	}
+	const listed = exported.slice(0, MAX_DESCRIBED_EXPORTS).join(", ");
+	return exported.length > MAX_DESCRIBED_EXPORTS
+		? `${size}; exports ${listed} and ${exported.length - MAX_DESCRIBED_EXPORTS} more`
+		: `${size}; exports ${listed}`;
+}
+
+/**
+ * Add the digests to the bundle and return the sections for each original
+ * archive path.
+ */
+function addDigests(
+	bundle: SourceBundle,
+	inputs: DigestInput[],
+	{
+		title,
+		baseName,
+		options,
+		pathPrefix,
+	}: {
+		title: string;
+		baseName: string;
+		options: RepoDigestOptions;
+		pathPrefix: string;
+	},
+) {
+	const { documents, sections } = buildRepoDigest(inputs, {
+		title,
+		baseName,
+		options,
+	});
+	for (const document of documents) {
+		bundle.addFile(document.fileName, document.content);
+	}
+	return Object.fromEntries(
+		Object.entries(sections).map(([path, pathSections]) => [
+			`${pathPrefix}${path}`,
+			pathSections,
+		]),
+	);
+}
+
+/**
+ * Read every `.gitignore` and `.notebooklmignore` in the archive. Each file's
+ * rules are scoped to its folder; deeper files come later so they override
+ * their parents, and `.notebooklmignore` overrides `.gitignore`.
+ */
+async function readIgnoreRules(
+	entries: { path: string; file: JSZip.JSZipObject }[],
+	readEntry: (
+		file: JSZip.JSZipObject,
+		maxBytes: number,
+	) => Promise<Uint8Array | null>,
+) {
+	const ignoreEntries = entries
+		.filter(({ path }) =>
+			IGNORE_FILE_NAMES.includes(path.split("/").pop() || ""),
+		)
+		.map(({ path, file }) => ({
+			path,
+			file,
+			base: path.slice(0, path.lastIndexOf("/") + 1),
+			kind: IGNORE_FILE_NAMES.indexOf(path.split("/").pop() || ""),
+		}))
+		.sort(
+			(a, b) =>
+				a.kind - b.kind || a.base.split("/").length - b.base.split("/").length,
+		);
+
+	const rules: IgnoreRule[] = [];
+	for (const { path, file, base } of ignoreEntries) {
+		// An ignore file too large to be a real one is left out.
+		const content = await readEntry(file, MAX_TEXT_FILE_BYTES);
+		if (content) {
+			rules.push(
+				...parseIgnoreRules(new TextDecoder().decode(content), {
+					source: path,
+					base,
+				}),
+			);
+		}
+	}
+	return { paths: ignoreEntries.map(({ path }) => path), rules };
+}
@@ -0,0 +1,291 @@
+import { countWords } from "./bundle";
+
+const LANGUAGE_TAGS: Record<string, string> = {
+	bash: "bash",
+	cs: "csharp",
+	ex: "elixir",
+	exs: "elixir",
+	fs: "fsharp",
+	fsx: "fsharp",
+	hs: "haskell",
+	js: "javascript",
+	jsx: "jsx",
+	kt: "kotlin",
+	md: "markdown",
+	pl: "perl",
+	pm: "perl",
+	py: "python",
+	rb: "ruby",
+	rs: "rust",
+	sh: "bash",
+	ts: "typescript",
+	tsx: "tsx",
+	txt: "text",
+	yml: "yaml",
+};
+
+export type RepoDigestOptions = {
+	/** `directory` writes one digest per top-level folder, `none` a single one. */
+	groupBy: "directory" | "none";
+	maxWords: number;
+	maxBytes: number;
+};
+
+/** A text file to merge, with its path relative to the converted folder. */
+export type DigestInput = {
+	path: string;
+	text: string;
+};
+
+export type DigestSection = {
+	file: string;
+	/** 1-based position of the section in its digest document. */
+	section: number;
+};
+
+export type RepoDigest = {
+	documents: { fileName: string; content: string }[];
+	/** Every input path and the sections that hold it; large files span several. */
+	sections: Record<string, DigestSection[]>;
+};
+
+type Section = {
+	path: string;
+	body: string;
+	words: number;
+	bytes: number;
+};
+
+// Room for the document title and the tree's heading and fence.
+const DOCUMENT_HEADER_WORDS = 32;
+const DOCUMENT_HEADER_BYTES = 512;
+
+const encoder = new TextEncoder();
+
+/**
+ * Merge text files into a few Markdown documents, each starting with a
+ * directory tree of the files it holds followed by one fenced code block per
+ * file. Documents are split so they stay within the word and byte budget; a
+ * single file larger than the budget is split by lines across parts.
+ */
+export function buildRepoDigest(
+	files: DigestInput[],
+	{
+		title,
+		baseName,
+		options,
+	}: { title: string; baseName: string; options: RepoDigestOptions },
+): RepoDigest {
+	const groups = new Map<string, DigestInput[]>();
+	for (const file of files) {
+		const group =
+			options.groupBy === "none"
+				? ""
+				: file.path.includes("/")
+					? file.path.split("/")[0]
+					: "root";
+		const groupFiles = groups.get(group) ?? [];
+		groupFiles.push(file);
+		groups.set(group, groupFiles);
+	}
+
+	const digest: RepoDigest = { documents: [], sections: {} };
+	for (const [group, groupFiles] of [...groups].sort(([a], [b]) =>
+		a.localeCompare(b),
+	)) {
+		const parts = packSections(
+			groupFiles
+				.sort((a, b) => a.path.localeCompare(b.path))
+				.flatMap((file) => toSections(file, options)),
+			options,
+		);
+		const groupName = group
+			? `${baseName}-${group.replace(/[^\w.-]+/g, "-")}`
+			: baseName;
+
+		parts.forEach((sections, index) => {
+			const fileName =
+				parts.length > 1
+					? `${groupName}-part-${index + 1}.md`
+					: `${groupName}.md`;
+			const heading = [
+				title,
+				group || null,
+				parts.length > 1 ? `part ${index + 1} of ${parts.length}` : null,
+			]
+				.filter(Boolean)
+				.join(" · ");
+			digest.documents.push({
+				fileName,
+				content: renderDocument(heading, sections),
+			});
+			sections.forEach((section, sectionIndex) => {
+				const mapped = digest.sections[section.path] ?? [];
+				mapped.push({ file: fileName, section: sectionIndex + 1 });
+				digest.sections[section.path] = mapped;
+			});
+		});
+	}
+	return digest;
+}
+
+/**
+ * Fill parts in path order, starting a new one when the next section and its
+ * directory tree lines would exceed the budget.
+ */
+function packSections(sections: Section[], options: RepoDigestOptions) {
+	const parts: Section[][] = [];
+	let current: Section[] = [];
+	let words = DOCUMENT_HEADER_WORDS;
+	let bytes = DOCUMENT_HEADER_BYTES;
+
+	for (const section of sections) {
+		const tree = estimateTreeLine(section.path);
+		const sectionWords = section.words + tree.words;
+		const sectionBytes = section.bytes + tree.bytes;
+		if (
+			current.length > 0 &&
+			(words + sectionWords > options.maxWords ||
+				bytes + sectionBytes > options.maxBytes)
+		) {
+			parts.push(current);
+			current = [];
+			words = DOCUMENT_HEADER_WORDS;
+			bytes = DOCUMENT_HEADER_BYTES;
+		}
+		current.push(section);
+		words += sectionWords;
+		bytes += sectionBytes;
+	}
+	if (current.length > 0) {
+		parts.push(current);
+	}
+	return parts;
+}
+
+/**
+ * Render a file as one section, or several when it alone exceeds half the
+ * budget, leaving room for the rest of the document.
+ */
+function toSections(file: DigestInput, options: RepoDigestOptions): Section[] {
+	const limitWords = Math.floor(options.maxWords / 2);
+	const limitBytes = Math.floor(options.maxBytes / 2);
+
+	const chunks: string[] = [];
+	let chunk: string[] = [];
+	let chunkWords = 0;
+	let chunkBytes = 0;
+	for (const line of file.text.split("\n")) {
+		const lineWords = countWords(line);
+		const lineBytes = encoder.encode(line).byteLength + 1;
+		if (
+			chunk.length > 0 &&
+			(chunkWords + lineWords > limitWords ||
+				chunkBytes + lineBytes > limitBytes)
+		) {
+			chunks.push(chunk.join("\n"));
+			chunk = [];
+			chunkWords = 0;
+			chunkBytes = 0;
+		}
+		chunk.push(line);
+		chunkWords += lineWords;
+		chunkBytes += lineBytes;
+	}
+	chunks.push(chunk.join("\n"));
+
+	return chunks.map((text, index) => {
+		const heading =
+			chunks.length > 1
+				? `${file.path} (part ${index + 1} of ${chunks.length})`
+				: file.path;
+		const body = `## ${heading}\n\n${renderCodeBlock(file.path, text)}\n`;
+		return {
+			path: file.path,
+			body,
+			words: countWords(body),
+			bytes: encoder.encode(body).byteLength + 1,
+		};
+	});
+}
+
+/**
+ * Wrap a file in a code fence tagged with its language. The fence is longer
+ * than any run of backticks in the file.
+ */
+export function renderCodeBlock(path: string, text: string) {
+	const fence = "`".repeat(Math.max(3, longestBacktickRun(text) + 1));
+	return `${fence}${getLanguageTag(path)}\n${text.replace(/\n$/, "")}\n${fence}`;
+}
+
+function renderDocument(heading: string, sections: Section[]) {
+	return [
+		`# ${heading}`,
+		"",
+		"## Directory tree",
+		"",
+		"```text",
+		renderTree([...new Set(sections.map((section) => section.path))]),
+		"```",
+		"",
+		...sections.map((section) => section.body),
+	].join("\n");
+}
+
+/**
+ * Indented tree of the given sorted file paths, one folder or file per line.
+ */
+function renderTree(paths: string[]) {
+	const lines: string[] = [];
+	let previous: string[] = [];
+	for (const path of paths) {
+		const segments = path.split("/");
+		let shared = 0;
+		while (
+			shared < segments.length - 1 &&
+			shared < previous.length - 1 &&
+			segments[shared] === previous[shared]
+		) {
+			shared++;
+		}
+		segments.forEach((segment, depth) => {
+			if (depth < shared) return;
+			const isFile = depth === segments.length - 1;
+			lines.push(`${"  ".repeat(depth)}${segment}${isFile ? "" : "/"}`);
+		});
+		previous = segments;
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Upper bound for what a file adds to the directory tree: its own line and
+ * one line per parent folder, as if none were shared.
+ */
+function estimateTreeLine(path: string) {
+	const segments = path.split("/");
+	return {
+		words: segments.length,
+		bytes: segments.reduce(
+			(total, segment, depth) =>
+				total + encoder.encode(segment).byteLength + depth * 2 + 2,
+			0,
+		),
+	};
+}
+
+function getLanguageTag(path: string) {
+	const fileName = path.split("/").pop() ?? "";
+	const extension = fileName.includes(".")
+		? (fileName.split(".").pop()?.toLowerCase() ?? "")
+		: "";
+	return LANGUAGE_TAGS[extension] ?? extension;
+}
+
+function longestBacktickRun(text: string) {
+	let longest = 0;
+	for (const match of text.matchAll(/`+/g)) {
+		longest = Math.max(longest, match[0].length);
+	}
+	return longest;
+}
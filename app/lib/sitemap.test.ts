@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { isAllowedByRobots, parseRobotsTxt } from "./sitemap";
+
+const robots = parseRobotsTxt(
+	`User-agent: *
+Disallow: /private/
+Allow: /private/press
+Disallow: /*.pdf$
+Disallow: /search*q=
+
+Sitemap: /sitemap.xml`,
+	"https://example.com/robots.txt",
+);
+
+const allowed = (path: string) =>
+	isAllowedByRobots(robots, new URL(path, "https://example.com"));
+
+describe("isAllowedByRobots", () => {
+	it("applies the longest matching rule", () => {
+		expect(allowed("/blog/post")).toBe(true);
+		expect(allowed("/private/notes")).toBe(false);
+		expect(allowed("/private/press/2024")).toBe(true);
+	});
+
+	it("supports wildcards and end anchors", () => {
+		expect(allowed("/files/report.pdf")).toBe(false);
+		expect(allowed("/files/report.pdf.html")).toBe(true);
+		expect(allowed("/search?page=2&q=cats")).toBe(false);
+		expect(allowed("/search?page=2")).toBe(true);
+	});
+
+	it("matches long wildcard patterns without backtracking", () => {
+		const pattern = `/${"*a".repeat(200)}$`;
+		const path = `/${"a".repeat(5000)}b`;
+		const started = performance.now();
+		expect(
+			isAllowedByRobots(
+				{ sitemaps: [], rules: [{ allow: false, pattern }] },
+				new URL(path, "https://example.com"),
+			),
+		).toBe(true);
+		expect(performance.now() - started).toBeLessThan(100);
+	});
+});
@@ -0,0 +1,384 @@
+import { gunzipSync } from "node:zlib";
+import { JSDOM } from "jsdom";
+import { BROWSER_USER_AGENT, extractCachedArticle } from "./article";
+import { FEED_USER_AGENT } from "./feed";
+import { getFetchSchedulerOptions } from "./fetch-scheduler";
+import { cachedFetch } from "./http-cache";
+
+/** Sitemap indexes can nest; stop after this many sitemap files. */
+const MAX_SITEMAP_FILES = 50;
+/** The sitemap protocol caps an uncompressed sitemap at 50 MB. */
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const FALLBACK_SITEMAP_PATHS = ["/sitemap.xml", "/sitemap_index.xml"];
+const SITEMAP_ACCEPT_HEADER =
+	"application/xml, text/xml; q=0.9, text/plain; q=0.8, */*; q=0.7";
+
+export type SitemapPage = {
+	url: string;
+	lastModified: string | null;
+};
+
+/**
+ * The `Allow`/`Disallow` rules of the `User-agent: *` groups of a robots.txt,
+ * plus every `Sitemap:` line.
+ */
+export type RobotsTxt = {
+	sitemaps: string[];
+	rules: { allow: boolean; pattern: string }[];
+};
+
+export type SitemapFilters = {
+	/** Only keep pages whose path starts with this prefix. */
+	pathPrefix: string | null;
+	/** Only keep pages whose path and query match this expression. */
+	pattern: RegExp | null;
+};
+
+export type SitemapCrawl = {
+	pages: SitemapPage[];
+	/** Sitemap files read, in the order they were fetched. */
+	sitemaps: { url: string; urlCount: number; error: string | null }[];
+	/** Every page URL listed before filtering and the limit. */
+	listedPages: number;
+	skipped: { robots: number; filtered: number; offsite: number };
+};
+
+export type SitemapCrawlResult =
+	| { ok: true; value: SitemapCrawl }
+	| { ok: false; status: number; error: string };
+
+/**
+ * Collect page URLs from a site's sitemaps. `target` is either a sitemap
+ * (`.xml` or `.xml.gz`) or any page of the site, in which case the sitemaps
+ * listed in robots.txt are used, falling back to `/sitemap.xml`. Sitemap
+ * indexes are followed breadth-first, and pages disallowed by robots.txt,
+ * outside the site or rejected by the filters are skipped.
+ */
+export async function collectSitemapPages(
+	target: URL,
+	{ filters, limit }: { filters: SitemapFilters; limit: number },
+): Promise<SitemapCrawlResult> {
+	const robots = await fetchRobotsTxt(target);
+	const usesFallback = !isSitemapUrl(target) && robots.sitemaps.length === 0;
+	const fallbackUrls = usesFallback
+		? FALLBACK_SITEMAP_PATHS.map((path) => new URL(path, target).href)
+		: [];
+	const queue = isSitemapUrl(target)
+		? [target.href]
+		: usesFallback
+			? [...fallbackUrls]
+			: [...robots.sitemaps];
+
+	const crawl: SitemapCrawl = {
+		pages: [],
+		sitemaps: [],
+		listedPages: 0,
+		skipped: { robots: 0, filtered: 0, offsite: 0 },
+	};
+	const seenSitemaps = new Set<string>();
+	const seenPages = new Set<string>();
+
+	while (
+		queue.length > 0 &&
+		crawl.pages.length < limit &&
+		crawl.sitemaps.length < MAX_SITEMAP_FILES
+	) {
+		const sitemapUrl = queue.shift() as string;
+		if (seenSitemaps.has(sitemapUrl)) continue;
+		seenSitemaps.add(sitemapUrl);
+
+		const sitemap = await fetchSitemap(sitemapUrl);
+		if (!sitemap.ok) {
+			crawl.sitemaps.push({
+				url: sitemapUrl,
+				urlCount: 0,
+				error: sitemap.error,
+			});
+			continue;
+		}
+		crawl.sitemaps.push({
+			url: sitemapUrl,
+			urlCount: sitemap.value.locations.length,
+			error: null,
+		});
+		// The other fallback paths are only tried while none has worked.
+		if (fallbackUrls.includes(sitemapUrl)) {
+			for (const url of fallbackUrls) seenSitemaps.add(url);
+		}
+		if (sitemap.value.kind === "index") {
+			queue.push(...sitemap.value.locations.map(({ url }) => url));
+			continue;
+		}
+		for (const page of sitemap.value.locations) {
+			crawl.listedPages++;
+			const url = new URL(page.url);
+			url.hash = "";
+			if (seenPages.has(url.href)) continue;
+			seenPages.add(url.href);
+
+			if (stripWww(url.hostname) !== stripWww(target.hostname)) {
+				crawl.skipped.offsite++;
+			} else if (!isAllowedByRobots(robots, url)) {
+				crawl.skipped.robots++;
+			} else if (!matchesFilters(url, filters)) {
+				crawl.skipped.filtered++;
+			} else if (crawl.pages.length < limit) {
+				crawl.pages.push({ url: url.href, lastModified: page.lastModified });
+			}
+		}
+	}
+
+	if (crawl.sitemaps.every((sitemap) => sitemap.error !== null)) {
+		return {
+			ok: false,
+			status: 404,
+			error: usesFallback
+				? "We couldn’t find a sitemap for that site. Its robots.txt doesn’t list one and /sitemap.xml is missing. Paste the sitemap URL directly."
+				: "We couldn’t read that site’s sitemap. Check the URL and try again.",
+		};
+	}
+	return { ok: true, value: crawl };
+}
+
+/**
+ * Fetch and parse `/robots.txt`. A missing or unreadable file allows
+ * everything.
+ */
+export async function fetchRobotsTxt(siteUrl: URL): Promise<RobotsTxt> {
+	try {
+		const response = await cachedFetch(new URL("/robots.txt", siteUrl), {
+			headers: { "User-Agent": FEED_USER_AGENT, Accept: "text/plain" },
+			signal: AbortSignal.timeout(getFetchSchedulerOptions().timeoutMs),
+		});
+		if (response.ok) {
+			return parseRobotsTxt(await response.text(), siteUrl.href);
+		}
+	} catch (error) {
+		console.error(`Failed to fetch robots.txt for ${siteUrl.origin}`, error);
+	}
+	return { sitemaps: [], rules: [] };
+}
+
+/**
+ * Read the `Sitemap:` lines and the rules that apply to every crawler
+ * (`User-agent: *`). Consecutive `User-agent` lines share one group.
+ */
+export function parseRobotsTxt(text: string, baseUrl: string): RobotsTxt {
+	const robots: RobotsTxt = { sitemaps: [], rules: [] };
+	let agents: string[] = [];
+	let inRules = false;
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*$/, "").trim();
+		const separator = line.indexOf(":");
+		if (separator === -1) continue;
+		const field = line.slice(0, separator).trim().toLowerCase();
+		const value = line.slice(separator + 1).trim();
+
+		if (field === "sitemap") {
+			try {
+				robots.sitemaps.push(new URL(value, baseUrl).href);
+			} catch {
+				// Ignore malformed sitemap URLs.
+			}
+		} else if (field === "user-agent") {
+			if (inRules) {
+				agents = [];
+				inRules = false;
+			}
+			agents.push(value.toLowerCase());
+		} else if (field === "allow" || field === "disallow") {
+			inRules = true;
+			// An empty `Disallow:` allows everything, same as no rule.
+			if (!agents.includes("*") || value.length === 0) continue;
+			robots.rules.push({ allow: field === "allow", pattern: value });
+		}
+	}
+	return robots;
+}
+
+/**
+ * Apply the most specific (longest) matching rule; `Allow` wins a tie.
+ */
+export function isAllowedByRobots(robots: RobotsTxt, url: URL) {
+	const path = `${url.pathname}${url.search}`;
+	let best: RobotsTxt["rules"][number] | null = null;
+	for (const rule of robots.rules) {
+		if (!matchesRobotsPattern(rule.pattern, path)) continue;
+		if (
+			!best ||
+			rule.pattern.length > best.pattern.length ||
+			(rule.pattern.length === best.pattern.length && rule.allow)
+		) {
+			best = rule;
+		}
+	}
+	return best?.allow ?? true;
+}
+
+/**
+ * Parse a sitemap or sitemap index. Plain-text sitemaps with one URL per
+ * line are accepted too.
+ */
+export function parseSitemap(
+	text: string,
+	baseUrl: string,
+): { kind: "index" | "urlset"; locations: SitemapPage[] } {
+	if (!text.trimStart().startsWith("<")) {
+		return {
+			kind: "urlset",
+			locations: text
+				.split(/\r?\n/)
+				.map((line) => resolveUrl(line.trim(), baseUrl))
+				.filter((url): url is string => url !== null)
+				.map((url) => ({ url, lastModified: null })),
+		};
+	}
+
+	const { document } = new JSDOM(text, { contentType: "application/xml" })
+		.window;
+	const root = document.documentElement;
+	if (root.localName !== "sitemapindex" && root.localName !== "urlset") {
+		throw new Error("Not a sitemap");
+	}
+	const kind = root.localName === "sitemapindex" ? "index" : "urlset";
+	const locations: SitemapPage[] = [];
+	for (const element of Array.from(
+		root.getElementsByTagNameNS("*", kind === "index" ? "sitemap" : "url"),
+	)) {
+		const url = resolveUrl(readChildText(element, "loc"), baseUrl);
+		if (!url) continue;
+		const lastModified = readChildText(element, "lastmod");
+		const date = lastModified ? new Date(lastModified) : null;
+		locations.push({
+			url,
+			lastModified:
+				date && !Number.isNaN(date.getTime()) ? date.toISOString() : null,
+		});
+	}
+	return { kind, locations };
+}
+
+/**
+ * Fetch a page listed in a sitemap and extract its article with
+ * Readability. Throws when the request fails or the page isn't HTML;
+ * resolves to `null` when no article content is found.
+ */
+export async function fetchSitemapPage(
+	url: string,
+	{ signal }: { signal?: AbortSignal } = {},
+) {
+	const response = await cachedFetch(url, {
+		headers: { "User-Agent": BROWSER_USER_AGENT },
+		signal,
+	});
+	if (!response.ok) {
+		throw new Error(`Failed to fetch page (status ${response.status})`);
+	}
+	const contentType = response.headers.get("content-type");
+	if (contentType && !/html/i.test(contentType)) {
+		throw new Error(`Not an HTML page (${contentType.split(";")[0]})`);
+	}
+	return extractCachedArticle(await response.text(), response.url || url);
+}
+
+async function fetchSitemap(url: string) {
+	try {
+		const response = await cachedFetch(url, {
+			headers: { "User-Agent": FEED_USER_AGENT, Accept: SITEMAP_ACCEPT_HEADER },
+			signal: AbortSignal.timeout(getFetchSchedulerOptions().timeoutMs),
+		});
+		if (!response.ok) {
+			return {
+				ok: false as const,
+				error: `The sitemap returned status ${response.status}.`,
+			};
+		}
+		let data = new Uint8Array(await response.arrayBuffer());
+		// `.xml.gz` files are served as gzip data rather than with a gzip
+		// content encoding, so fetch leaves them compressed.
+		if (data[0] === 0x1f && data[1] === 0x8b) {
+			data = gunzipSync(data, { maxOutputLength: MAX_SITEMAP_BYTES });
+		}
+		if (data.byteLength > MAX_SITEMAP_BYTES) {
+			return { ok: false as const, error: "The sitemap is larger than 50 MB." };
+		}
+		return {
+			ok: true as const,
+			value: parseSitemap(new TextDecoder().decode(data), response.url || url),
+		};
+	} catch (error) {
+		console.error(`Failed to read sitemap ${url}`, error);
+		return { ok: false as const, error: "The sitemap couldn’t be read." };
+	}
+}
+
+function matchesFilters(url: URL, filters: SitemapFilters) {
+	if (filters.pathPrefix && !url.pathname.startsWith(filters.pathPrefix)) {
+		return false;
+	}
+	return filters.pattern
+		? filters.pattern.test(`${url.pathname}${url.search}`)
+		: true;
+}
+
+/**
+ * Sites list `www.example.com` pages in the sitemap of `example.com` and the
+ * other way round, so both count as the same host.
+ */
+function stripWww(hostname: string) {
+	return hostname.replace(/^www\./, "");
+}
+
+function isSitemapUrl(url: URL) {
+	return /\.xml(?:\.gz)?$/i.test(url.pathname);
+}
+
+/**
+ * robots.txt paths support `*` for any characters and a trailing `$` that
+ * anchors the end of the path. Each literal part is matched at its first
+ * occurrence after the previous one, which is enough for `*` and never
+ * backtracks, unlike the equivalent `.*` regex.
+ */
+function matchesRobotsPattern(pattern: string, path: string) {
+	const anchored = pattern.endsWith("$");
+	const parts = (anchored ? pattern.slice(0, -1) : pattern).split("*");
+	const first = parts[0];
+	if (!path.startsWith(first)) {
+		return false;
+	}
+	if (parts.length === 1) {
+		return !anchored || path.length === first.length;
+	}
+	const last = parts[parts.length - 1];
+	let position = first.length;
+	for (const part of parts.slice(1, -1)) {
+		const index = path.indexOf(part, position);
+		if (index === -1) {
+			return false;
+		}
+		position = index + part.length;
+	}
+	return anchored
+		? path.length - last.length >= position && path.endsWith(last)
+		: path.indexOf(last, position) !== -1;
+}
+
+function readChildText(element: Element, localName: string) {
+	const child = Array.from(element.children).find(
+		(candidate) => candidate.localName === localName,
+	);
+	return child?.textContent?.trim() || null;
+}
+
+function resolveUrl(value: string | null, baseUrl: string) {
+	if (!value) return null;
+	try {
+		const url = new URL(value, baseUrl);
+		return url.protocol === "http:" || url.protocol === "https:"
+			? url.href
+			: null;
+	} catch {
+		return null;
+	}
+}
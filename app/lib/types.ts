@@ -1,32 +1,223 @@
 export type ActionData =
-	| { ok: false; error: string }
+	| { ok: false; error: string; feedCandidates?: FeedCandidate[] }
 	| {
 		ok: true;
-		archiveBase64: string;
-		fileName: string;
+		download: DownloadLink;
 		feed: {
 			title: string;
 			description: string | null;
-			url: string;
+			url: string | null;
+			format: SourceFormat;
 			totalEntries: number;
 			extractedEntries: number;
 		};
-		entries: Array<{
-			id: string;
-			title: string;
-			url: string;
-			publishedAt: string | null;
-			wordCount: number;
-			summary: string;
-		}>;
+		feeds?: FeedGroupSummary[];
+		filtered?: EntryFilterReport;
+		entries: BundleEntrySummary[];
+		llmsTxt?: LLMsTxtExport;
+		cache?: HttpCacheStats;
+		incremental?: IncrementalReport;
 	};
 
+/**
+ * The export an incremental bundle was built against: an uploaded
+ * `manifest.json` (or bundle ZIP), or the state the server stored after the
+ * last export of the same source.
+ */
+export type PreviousBundleReference = {
+	source: "manifest" | "stored";
+	fileName: string | null;
+	generatedAt: string | null;
+	entryCount: number;
+};
+
+/**
+ * An entry left out of an incremental bundle because the previous export
+ * already had it, matched on its GUID or URL.
+ */
+export type DroppedDuplicate = {
+	title: string;
+	url: string;
+	guid: string | null;
+	matchedOn: "guid" | "url";
+};
+
+export type IncrementalReport = {
+	previousBundle: PreviousBundleReference;
+	droppedDuplicates: DroppedDuplicate[];
+};
+
+/**
+ * How the HTTP cache served a build's requests.
+ */
+export type HttpCacheStats = {
+	/** Fresh responses served without a request. */
+	hits: number;
+	/** Stale responses the server confirmed unchanged (304). */
+	revalidated: number;
+	/** Responses downloaded in full. */
+	misses: number;
+	/** Readability extractions and scrapes reused for unchanged pages. */
+	reused: number;
+};
+
+/**
+ * A built file kept on the server for a short while and served from
+ * `/download/:token`.
+ */
+export type DownloadLink = {
+	url: string;
+	fileName: string;
+	size: number;
+	expiresAt: string;
+};
+
+/**
+ * An llms.txt index of a built bundle and the llms-full.txt with the content
+ * of every entry, offered next to the bundle download.
+ */
+export type LLMsTxtExport = {
+	index: DownloadLink;
+	full: DownloadLink & { wordCount: number };
+};
+
+export type BundleEntrySummary = {
+	id: string;
+	title: string;
+	url: string;
+	publishedAt: string | null;
+	wordCount: number;
+	summary: string;
+	contentSource: EntryContentSource;
+	fetchFailure: EntryFetchFailure | null;
+	group: string | null;
+	commentCount: number;
+};
+
+/**
+ * One feed of a multi-feed (OPML) bundle. Entries point back to it through
+ * `FeedEntry.group`.
+ */
+export type FeedGroup = {
+	id: string;
+	title: string;
+	url: string;
+	format: FeedFormat | null;
+	tags: string[];
+};
+
+export type FeedGroupSummary = FeedGroup & {
+	totalEntries: number;
+	extractedEntries: number;
+	error: string | null;
+};
+
+/**
+ * Where an entry's body came from: the feed item itself, the linked page
+ * extracted with Readability, a video's caption track, or an uploaded
+ * document.
+ */
+export type EntryContentSource = "feed" | "article" | "transcript" | "document";
+
+/**
+ * Why the linked article could not be used for an entry.
+ */
+export type EntryFetchFailure = {
+	reason: "timeout" | "failed" | "empty";
+	message: string;
+};
+
+export type EntryFilterName =
+	| "since"
+	| "until"
+	| "include"
+	| "exclude"
+	| "minWords";
+
+/**
+ * How many feed entries each filter removed before the limit was applied.
+ */
+export type EntryFilterReport = Record<EntryFilterName, number>;
+
 export type FeedEntry = {
 	id: string;
 	title: string;
 	url: string;
 	publishedAt: string | null;
 	textContent: string;
+	contentSource?: EntryContentSource;
+	fetchFailure?: EntryFetchFailure | null;
+	guid?: string | null;
+	updatedAt?: string | null;
+	authors?: string[];
+	categories?: string[];
+	enclosures?: FeedEnclosure[];
+	group?: string | null;
+	tags?: string[];
+	comments?: EntryComment[];
+};
+
+/**
+ * A discussion comment attached to an entry, with its replies nested below.
+ */
+export type EntryComment = {
+	id: string;
+	author: string | null;
+	postedAt: string | null;
+	text: string;
+	replies: EntryComment[];
+};
+
+/**
+ * A feed found on a website page, either advertised through
+ * `<link rel="alternate">` or probed at a common feed path.
+ */
+export type FeedCandidate = {
+	url: string;
+	title: string | null;
+	type: string | null;
+};
+
+/**
+ * Where one item of a running build stands. Items move from `fetched` to
+ * `extracted` or `failed`, and end as `zipped` once they are in the bundle.
+ */
+export type BuildProgressStatus = "fetched" | "extracted" | "failed" | "zipped";
+
+/**
+ * An event on a build's progress channel. Item events for the same `id`
+ * replace each other; `done` is sent once when the action has finished.
+ */
+export type BuildProgressEvent =
+	| {
+		type: "item";
+		id: string;
+		label: string;
+		status: BuildProgressStatus;
+		detail: string | null;
+	}
+	| { type: "done" };
+
+export type FeedFormat = "rss" | "rdf" | "atom" | "json";
+
+/**
+ * What a bundle was built from: a single feed, an OPML reading list, a
+ * Reddit listing, a set of YouTube videos, uploaded documents, a sitemap
+ * crawl or the pages linked from an llms.txt.
+ */
+export type SourceFormat =
+	| FeedFormat
+	| "opml"
+	| "reddit"
+	| "youtube"
+	| "documents"
+	| "sitemap"
+	| "llmstxt";
+
+export type FeedEnclosure = {
+	url: string;
+	type: string | null;
+	length: number | null;
 };
 
 export type LLMsTxtLink = {
@@ -35,6 +226,52 @@ export type LLMsTxtLink = {
 	description: string | null;
 };
 
+/**
+ * An H2 section of an llms.txt and the links it lists. Links placed before
+ * the first H2 are collected in a section with a `null` title. Links in the
+ * `Optional` section can be skipped when a shorter context is needed.
+ */
+export type LLMsTxtSection = {
+	title: string | null;
+	optional: boolean;
+	links: LLMsTxtLink[];
+	/** Section text that isn't part of the link list. */
+	notes: string;
+};
+
+/**
+ * An llms.txt following https://llmstxt.org: the H1 title, the blockquote
+ * summary, free-form details and the H2 file-list sections.
+ */
+export type LLMsTxtDocument = {
+	title: string | null;
+	summary: string | null;
+	details: string;
+	sections: LLMsTxtSection[];
+};
+
+/**
+ * A spec violation found while parsing an llms.txt. `error`s break the
+ * format; `warning`s are tolerated by the parser.
+ */
+export type LLMsTxtIssue = {
+	line: number;
+	severity: "error" | "warning";
+	message: string;
+};
+
+/**
+ * A link of an llms.txt that was followed, with its Markdown variant's
+ * content (`markdown`) or the page's Readability extraction (`article`).
+ */
+export type LLMsTxtFetchedLink = {
+	title: string;
+	url: string;
+	content: string | null;
+	source: "markdown" | "article" | null;
+	error: string | null;
+};
+
 export type LLMsTxtActionData =
 	| { ok: false; error: string; requiresGeneration?: boolean }
 	| {
@@ -50,32 +287,58 @@ export type LLMsTxtActionData =
 			description: string | null;
 			content: string;
 			links: LLMsTxtLink[];
+			sections: LLMsTxtSection[];
+			issues: LLMsTxtIssue[];
 		};
-		fetchedLinks: Array<{
-			title: string;
-			url: string;
-			content: string | null;
-			error: string | null;
-		}> | null;
-		download: {
-			contentBase64: string;
-			fileName: string;
-			wordCount: number;
-		};
+		fetchedLinks: LLMsTxtFetchedLink[] | null;
+		download: DownloadLink & { wordCount: number };
+		cache?: HttpCacheStats;
+		/** NotebookLM bundle of the followed links. */
+		bundle?: DownloadLink;
 		noFullTxt?: boolean;
 		generated?: {
 			llmsTxt: string;
 			processedCount: number;
+			/** Label of the provider that wrote the titles and descriptions. */
+			describedWith: string;
 		};
 	};
 
+/**
+ * Why a repository file was left out of the bundle. `source` is `defaults`,
+ * `exclude`, `include`, `file type`, the path of the `.gitignore` or
+ * `.notebooklmignore` file, or a content check (`binary`, `size`,
+ * `generated`, `minified`); `rule` is the pattern or check detail.
+ */
+export type RepoFileSkip = {
+	source: string;
+	rule: string | null;
+};
+
 export type RepoFile = {
 	path: string;
 	name: string;
 	originalExtension: string;
 	convertedName: string;
-	size: number;
+	/** Size in bytes, or `null` for skipped files, which are never read. */
+	size: number | null;
 	isCode: boolean;
+	skipped: RepoFileSkip | null;
+};
+
+/**
+ * A GitHub repository resolved to one commit, optionally narrowed to a
+ * subdirectory.
+ */
+export type GitHubRepoInfo = {
+	owner: string;
+	name: string;
+	url: string;
+	/** The repository's About text, when GitHub was asked for it. */
+	description: string | null;
+	ref: string;
+	sha: string;
+	subdir: string | null;
 };
 
 export type GitHubActionData =
@@ -83,13 +346,17 @@ export type GitHubActionData =
 	| {
 		ok: true;
 		source: "github" | "upload";
-		repo?: { owner: string; name: string; url: string };
-		archiveBase64: string;
-		fileName: string;
+		repo?: GitHubRepoInfo;
+		download: DownloadLink;
 		stats: {
 			totalFiles: number;
 			includedFiles: number;
 			codeFilesConverted: number;
+			skippedFiles: number;
+			/** Markdown digests written in digest mode; 0 otherwise. */
+			digestDocuments: number;
 		};
+		/** Included files first, then skipped ones (the latter may be truncated). */
 		files: RepoFile[];
+		llmsTxt?: LLMsTxtExport;
 	};
@@ -4,3 +4,19 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
 	return twMerge(clsx(inputs));
 }
+
+/**
+ * Parse an integer form field and clamp it to `[min, max]`, using `fallback`
+ * when the field is missing or not a number.
+ */
+export function readBoundedInt(
+	value: FormDataEntryValue | null,
+	fallback: number,
+	min: number,
+	max: number,
+) {
+	const parsed = Number.parseInt(typeof value === "string" ? value : "", 10);
+	return Number.isInteger(parsed)
+		? Math.min(Math.max(parsed, min), max)
+		: fallback;
+}
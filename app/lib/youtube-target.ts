@@ -0,0 +1,63 @@
+/**
+ * Recognising what a YouTube URL points at. The YouTube form validates with
+ * this in the browser, so it is kept apart from the transcript code in
+ * `./youtube`, which pulls in jsdom.
+ */
+
+export const YOUTUBE_BASE_URL = "https://www.youtube.com";
+
+export type YouTubeTarget =
+	| { kind: "video"; videoId: string }
+	| { kind: "playlist"; playlistId: string }
+	| { kind: "channel"; channelId: string }
+	/** A handle, `/c/` or `/user/` URL whose channel id is still unknown. */
+	| { kind: "channelPage"; url: string };
+
+export type YouTubeFeedTarget = Extract<
+	YouTubeTarget,
+	{ kind: "channel" | "playlist" }
+>;
+
+/**
+ * Work out what a YouTube URL points at. Watch URLs win over their `list`
+ * parameter; `null` means the URL is not a YouTube URL we understand.
+ */
+export function parseYouTubeTarget(value: string): YouTubeTarget | null {
+	let url: URL;
+	try {
+		url = new URL(value.trim());
+	} catch {
+		return null;
+	}
+
+	const host = url.hostname.replace(/^(www|m|music)\./, "");
+	if (host === "youtu.be") {
+		const videoId = url.pathname.slice(1).split("/")[0];
+		return videoId ? { kind: "video", videoId } : null;
+	}
+	if (host !== "youtube.com") {
+		return null;
+	}
+
+	const videoId = url.searchParams.get("v");
+	if (url.pathname === "/watch" && videoId) {
+		return { kind: "video", videoId };
+	}
+	const embedded = /^\/(?:shorts|live|embed)\/([\w-]+)/.exec(url.pathname);
+	if (embedded) {
+		return { kind: "video", videoId: embedded[1] };
+	}
+	const playlistId = url.searchParams.get("list");
+	if (playlistId) {
+		return { kind: "playlist", playlistId };
+	}
+	const channel = /^\/channel\/(UC[\w-]+)/.exec(url.pathname);
+	if (channel) {
+		return { kind: "channel", channelId: channel[1] };
+	}
+	const page = /^\/(@[\w.-]+|c\/[^/]+|user\/[^/]+)/.exec(url.pathname);
+	if (page) {
+		return { kind: "channelPage", url: `${YOUTUBE_BASE_URL}/${page[1]}` };
+	}
+	return null;
+}
@@ -0,0 +1,408 @@
+import { JSDOM } from "jsdom";
+import { BROWSER_USER_AGENT, htmlToPlainText } from "./article";
+import { fetchFeed, type ParsedFeed } from "./feed";
+import type { EntryFetchFailure } from "./types";
+import { YOUTUBE_BASE_URL, type YouTubeFeedTarget } from "./youtube-target";
+
+/**
+ * Transcript cues are merged into paragraphs of roughly this length when a
+ * video has no chapters.
+ */
+const PARAGRAPH_SECONDS = 60;
+
+export type YouTubeVideo = {
+	videoId: string;
+	title: string | null;
+	url: string;
+	publishedAt: string | null;
+	author: string | null;
+};
+
+export type TranscriptCue = {
+	start: number;
+	duration: number;
+	text: string;
+};
+
+export type VideoChapter = {
+	start: number;
+	title: string;
+};
+
+export type VideoTranscript = {
+	title: string | null;
+	author: string | null;
+	description: string;
+	publishedAt: string | null;
+	chapters: VideoChapter[];
+	cues: TranscriptCue[] | null;
+	language: string | null;
+	failure: EntryFetchFailure | null;
+};
+
+type CaptionTrack = {
+	baseUrl: string;
+	languageCode: string;
+	kind?: string;
+};
+
+type PlayerResponse = {
+	videoDetails?: {
+		title?: string;
+		author?: string;
+		shortDescription?: string;
+	};
+	microformat?: {
+		playerMicroformatRenderer?: { publishDate?: string };
+	};
+	captions?: {
+		playerCaptionsTracklistRenderer?: { captionTracks?: CaptionTrack[] };
+	};
+};
+
+/**
+ * Look up the channel id behind a handle or legacy channel URL by reading the
+ * canonical link of the channel page.
+ */
+export async function resolveChannelId(pageUrl: string) {
+	const response = await fetch(pageUrl, {
+		headers: youtubeHeaders(),
+	});
+	if (!response.ok) {
+		return null;
+	}
+	const html = await response.text();
+	const match =
+		/<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[\w-]+)"/.exec(
+			html,
+		) ?? /"externalId":"(UC[\w-]+)"/.exec(html);
+	return match?.[1] ?? null;
+}
+
+/**
+ * The public Atom feed of a channel or playlist, which lists its latest 15
+ * videos.
+ */
+export function getYouTubeFeedUrl(target: YouTubeFeedTarget) {
+	const url = new URL("/feeds/videos.xml", YOUTUBE_BASE_URL);
+	if (target.kind === "channel") {
+		url.searchParams.set("channel_id", target.channelId);
+	} else {
+		url.searchParams.set("playlist_id", target.playlistId);
+	}
+	return url;
+}
+
+/**
+ * Enumerate the videos of a channel or playlist through its Atom feed.
+ */
+export async function fetchYouTubeFeed(target: YouTubeFeedTarget) {
+	const result = await fetchFeed(getYouTubeFeedUrl(target));
+	if (!result.ok) {
+		return result;
+	}
+	return { ...result, videos: toYouTubeVideos(result.feed) };
+}
+
+export function toYouTubeVideos(feed: ParsedFeed): YouTubeVideo[] {
+	return feed.items.flatMap((item) => {
+		const videoId =
+			item.guid?.replace(/^yt:video:/, "") ??
+			(item.link ? new URL(item.link).searchParams.get("v") : null);
+		if (!videoId) {
+			return [];
+		}
+		return [
+			{
+				videoId,
+				title: item.title,
+				url: getVideoUrl(videoId),
+				publishedAt: item.publishedAt,
+				author: item.authors[0] ?? null,
+			},
+		];
+	});
+}
+
+export function getVideoUrl(videoId: string, seconds?: number) {
+	const url = new URL("/watch", YOUTUBE_BASE_URL);
+	url.searchParams.set("v", videoId);
+	if (seconds !== undefined) {
+		url.searchParams.set("t", `${Math.floor(seconds)}s`);
+	}
+	return url.href;
+}
+
+/**
+ * Read a video's details from its watch page and download the caption track
+ * in the preferred language, falling back to the first manual track and then
+ * to auto-generated captions. Throws when the watch page cannot be loaded;
+ * a missing transcript is reported through `failure`.
+ */
+export async function fetchVideoTranscript(
+	videoId: string,
+	{ language, signal }: { language: string; signal?: AbortSignal },
+): Promise<VideoTranscript> {
+	const response = await fetch(getVideoUrl(videoId), {
+		headers: youtubeHeaders(),
+		signal,
+	});
+	if (!response.ok) {
+		throw new Error(`Failed to fetch video page (status ${response.status})`);
+	}
+
+	const player = extractPlayerResponse(await response.text());
+	const description = player?.videoDetails?.shortDescription ?? "";
+	const details = {
+		title: player?.videoDetails?.title ?? null,
+		author: player?.videoDetails?.author ?? null,
+		description,
+		publishedAt:
+			player?.microformat?.playerMicroformatRenderer?.publishDate ?? null,
+		chapters: parseChapters(description),
+	};
+
+	const track = pickCaptionTrack(
+		player?.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? [],
+		language,
+	);
+	if (!track) {
+		return {
+			...details,
+			cues: null,
+			language: null,
+			failure: { reason: "empty", message: "No captions available" },
+		};
+	}
+
+	const captionResponse = await fetch(track.baseUrl, {
+		headers: youtubeHeaders(),
+		signal,
+	});
+	if (!captionResponse.ok) {
+		return {
+			...details,
+			cues: null,
+			language: track.languageCode,
+			failure: {
+				reason: "failed",
+				message: `Failed to fetch captions (status ${captionResponse.status})`,
+			},
+		};
+	}
+
+	const cues = parseCaptions(await captionResponse.text());
+	return {
+		...details,
+		cues: cues.length > 0 ? cues : null,
+		language: track.languageCode,
+		failure:
+			cues.length > 0
+				? null
+				: { reason: "empty", message: "The caption track was empty" },
+	};
+}
+
+/**
+ * Parse a caption track in either timedtext XML (`<text start dur>` or the
+ * srv3 `<p t d>` flavour) or WebVTT.
+ */
+export function parseCaptions(body: string): TranscriptCue[] {
+	if (body.trimStart().startsWith("WEBVTT")) {
+		return parseVtt(body);
+	}
+
+	const { document } = new JSDOM(body, { contentType: "application/xml" })
+		.window;
+	const cues: TranscriptCue[] = [];
+	for (const node of document.querySelectorAll("text, p")) {
+		const isSrv3 = node.localName === "p";
+		const start = Number(node.getAttribute(isSrv3 ? "t" : "start"));
+		const duration = Number(node.getAttribute(isSrv3 ? "d" : "dur") ?? 0);
+		// The XML text is itself HTML-escaped (`&amp;#39;`), so decode twice.
+		const text = htmlToPlainText(node.textContent ?? "").replace(/\s+/g, " ");
+		if (Number.isFinite(start) && text.trim()) {
+			cues.push({
+				start: isSrv3 ? start / 1000 : start,
+				duration: isSrv3 ? duration / 1000 : duration,
+				text: text.trim(),
+			});
+		}
+	}
+	return cues;
+}
+
+function parseVtt(body: string): TranscriptCue[] {
+	const cues: TranscriptCue[] = [];
+	for (const block of body.split(/\r?\n\r?\n/)) {
+		const lines = block.split(/\r?\n/);
+		const timingIndex = lines.findIndex((line) => line.includes("-->"));
+		if (timingIndex === -1) {
+			continue;
+		}
+		const [from, to] = lines[timingIndex]
+			.split("-->")
+			.map((value) => parseTimestamp(value.trim().split(/\s+/)[0]));
+		const text = htmlToPlainText(lines.slice(timingIndex + 1).join(" "))
+			.replace(/\s+/g, " ")
+			.trim();
+		if (from !== null && text) {
+			cues.push({ start: from, duration: (to ?? from) - from, text });
+		}
+	}
+	// Auto-generated VTT repeats the previous line at the start of each cue.
+	return cues.filter((cue, index) => cue.text !== cues[index - 1]?.text);
+}
+
+/**
+ * Description chapters follow YouTube's rule: a list of timestamps starting at
+ * 0:00, each followed by a title.
+ */
+export function parseChapters(description: string): VideoChapter[] {
+	const chapters = description.split("\n").flatMap((line) => {
+		const match =
+			/^\s*(?:[-•*]\s*)?\(?((?:\d+:)?\d{1,2}:\d{2})\)?\s*[-–—:]?\s*(.+)$/.exec(
+				line,
+			);
+		const start = match ? parseTimestamp(match[1]) : null;
+		return match && start !== null ? [{ start, title: match[2].trim() }] : [];
+	});
+	return chapters.length >= 2 && chapters[0].start === 0 ? chapters : [];
+}
+
+/**
+ * Render a transcript as Markdown: one section per chapter, or paragraphs of
+ * about a minute when there are none. Every section and paragraph starts with
+ * a timestamp linking to that point of the video.
+ */
+export function renderTranscript(
+	videoId: string,
+	cues: TranscriptCue[],
+	chapters: VideoChapter[],
+) {
+	const sections =
+		chapters.length > 0
+			? chapters.map((chapter, index) => ({
+					title: chapter.title,
+					start: chapter.start,
+					end: chapters[index + 1]?.start ?? Number.POSITIVE_INFINITY,
+				}))
+			: [{ title: null, start: 0, end: Number.POSITIVE_INFINITY }];
+
+	return sections
+		.map((section) => {
+			const paragraphs = groupCues(
+				cues.filter(
+					(cue) => cue.start >= section.start && cue.start < section.end,
+				),
+			).map(
+				(group) =>
+					`${timestampLink(videoId, group[0].start)} ${group
+						.map((cue) => cue.text)
+						.join(" ")}`,
+			);
+			const heading = section.title
+				? `## ${section.title} (${timestampLink(videoId, section.start)})\n\n`
+				: "";
+			return paragraphs.length > 0 || heading
+				? `${heading}${paragraphs.join("\n\n")}`
+				: "";
+		})
+		.filter(Boolean)
+		.join("\n\n");
+}
+
+export function formatTimestamp(seconds: number) {
+	const total = Math.floor(seconds);
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = String(total % 60).padStart(2, "0");
+	return hours > 0
+		? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+		: `${minutes}:${secs}`;
+}
+
+function timestampLink(videoId: string, seconds: number) {
+	return `[${formatTimestamp(seconds)}](${getVideoUrl(videoId, seconds)})`;
+}
+
+function groupCues(cues: TranscriptCue[]) {
+	const groups: TranscriptCue[][] = [];
+	for (const cue of cues) {
+		const current = groups.at(-1);
+		if (current && cue.start - current[0].start < PARAGRAPH_SECONDS) {
+			current.push(cue);
+		} else {
+			groups.push([cue]);
+		}
+	}
+	return groups;
+}
+
+function parseTimestamp(value: string) {
+	const parts = value.split(":").map(Number);
+	if (parts.length < 2 || parts.some((part) => !Number.isFinite(part))) {
+		return null;
+	}
+	return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function pickCaptionTrack(tracks: CaptionTrack[], language: string) {
+	const manual = tracks.filter((track) => track.kind !== "asr");
+	const matches = (track: CaptionTrack) =>
+		track.languageCode.toLowerCase().split("-")[0] ===
+		language.toLowerCase().split("-")[0];
+	return (
+		manual.find(matches) ??
+		tracks.find(matches) ??
+		manual[0] ??
+		tracks[0] ??
+		null
+	);
+}
+
+/**
+ * Pull the `ytInitialPlayerResponse` JSON object out of a watch page.
+ */
+function extractPlayerResponse(html: string): PlayerResponse | null {
+	const marker = html.indexOf("ytInitialPlayerResponse = {");
+	if (marker === -1) {
+		return null;
+	}
+	const start = html.indexOf("{", marker);
+	let depth = 0;
+	let inString = false;
+	for (let index = start; index < html.length; index += 1) {
+		const char = html[index];
+		if (inString) {
+			if (char === "\\") {
+				index += 1;
+			} else if (char === '"') {
+				inString = false;
+			}
+		} else if (char === '"') {
+			inString = true;
+		} else if (char === "{") {
+			depth += 1;
+		} else if (char === "}") {
+			depth -= 1;
+			if (depth === 0) {
+				try {
+					return JSON.parse(html.slice(start, index + 1)) as PlayerResponse;
+				} catch {
+					return null;
+				}
+			}
+		}
+	}
+	return null;
+}
+
+function youtubeHeaders() {
+	return {
+		"User-Agent": BROWSER_USER_AGENT,
+		"Accept-Language": "en-US,en;q=0.9",
+		// Skip the EU consent interstitial that replaces the watch page.
+		Cookie: "CONSENT=YES+1",
+	};
+}
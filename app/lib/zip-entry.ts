@@ -0,0 +1,40 @@
+import type JSZip from "jszip";
+
+/**
+ * Inflate one ZIP entry, or return `null` as soon as its output grows past
+ * `maxBytes`. The size in the entry header can lie, so the limit is enforced
+ * on the stream instead, before a ZIP bomb fills memory.
+ */
+export async function inflateZipEntry(
+	file: JSZip.JSZipObject,
+	maxBytes: number,
+): Promise<Uint8Array | null> {
+	const chunks: Uint8Array[] = [];
+	let received = 0;
+	await new Promise<void>((resolve, reject) => {
+		const stream = file.nodeStream("nodebuffer");
+		stream.on("data", (chunk: Buffer) => {
+			received += chunk.byteLength;
+			if (received > maxBytes) {
+				// Pausing stops JSZip from inflating the rest of the entry.
+				stream.pause();
+				stream.removeAllListeners();
+				resolve();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		stream.on("error", reject);
+		stream.on("end", resolve);
+	});
+	if (received > maxBytes) {
+		return null;
+	}
+	const data = new Uint8Array(received);
+	let offset = 0;
+	for (const chunk of chunks) {
+		data.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return data;
+}
@@ -98,6 +98,28 @@ function Header() {
 					>
 						Hacker News
 					</NavLink>
+					<NavLink
+						to="/reddit"
+						className={({ isActive }) =>
+							`px-3 py-2 text-sm font-medium rounded-md transition-colors ${isActive
+								? "bg-accent text-accent-foreground"
+								: "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+							}`
+						}
+					>
+						Reddit
+					</NavLink>
+					<NavLink
+						to="/youtube"
+						className={({ isActive }) =>
+							`px-3 py-2 text-sm font-medium rounded-md transition-colors ${isActive
+								? "bg-accent text-accent-foreground"
+								: "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+							}`
+						}
+					>
+						YouTube
+					</NavLink>
 					<NavLink
 						to="/llmstxt"
 						className={({ isActive }) =>
@@ -120,6 +142,28 @@ function Header() {
 					>
 						GitHub
 					</NavLink>
+					<NavLink
+						to="/documents"
+						className={({ isActive }) =>
+							`px-3 py-2 text-sm font-medium rounded-md transition-colors ${isActive
+								? "bg-accent text-accent-foreground"
+								: "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+							}`
+						}
+					>
+						Documents
+					</NavLink>
+					<NavLink
+						to="/sitemap"
+						className={({ isActive }) =>
+							`px-3 py-2 text-sm font-medium rounded-md transition-colors ${isActive
+								? "bg-accent text-accent-foreground"
+								: "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+							}`
+						}
+					>
+						Sitemap
+					</NavLink>
 				</div>
 				<div className="flex items-center gap-4">
 					<a
@@ -3,6 +3,12 @@ import { index, type RouteConfig, route } from "@react-router/dev/routes";
 export default [
 	index("routes/home.tsx"),
 	route("hackernews", "routes/hackernews.tsx"),
+	route("reddit", "routes/reddit.tsx"),
+	route("youtube", "routes/youtube.tsx"),
 	route("llmstxt", "routes/llmstxt.tsx"),
 	route("github", "routes/github.tsx"),
+	route("documents", "routes/documents.tsx"),
+	route("sitemap", "routes/sitemap.tsx"),
+	route("progress/:jobId", "routes/progress.ts"),
+	route("download/:token", "routes/download.ts"),
 ] satisfies RouteConfig;
@@ -0,0 +1,548 @@
+import { Download, Loader2, Sparkles } from "lucide-react";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
+import { useFetcher } from "react-router";
+import {
+	BuildProgressList,
+	useBuildProgress,
+} from "../components/build-progress";
+import {
+	LLMsTxtExportField,
+	LLMsTxtExportLinks,
+} from "../components/llms-txt-export";
+import { Button } from "../components/ui/button";
+import { DOCUMENT_EXTENSIONS } from "../lib/builder-options";
+import { createEntryId, SourceBundle, summarizeEntry } from "../lib/bundle";
+import { extractDocument, toDocumentEntries } from "../lib/documents";
+import { createDownload } from "../lib/downloads";
+import { exportBundleAsLLMsTxt } from "../lib/llms-export";
+import { type ProgressReporter, withProgress } from "../lib/progress";
+import {
+	buildCanonicalLink,
+	buildMeta,
+	getCanonicalUrl,
+	siteConfig,
+} from "../lib/seo";
+import type {
+	ActionData,
+	FeedEntry,
+	FeedGroup,
+	FeedGroupSummary,
+} from "../lib/types";
+import type { Route } from "./+types/documents";
+
+const DOCUMENTS_PATH = "/documents";
+const DOCUMENTS_DESCRIPTION =
+	"Convert PDF, DOCX and EPUB files into NotebookLM bundles with one Markdown source per chapter.";
+const DOCUMENTS_KEYWORDS = [
+	"PDF to NotebookLM",
+	"EPUB to Markdown",
+	"DOCX to Markdown",
+	"NotebookLM bundle",
+	"NotebookLM tools",
+];
+const DOCUMENTS_CANONICAL_URL = getCanonicalUrl(DOCUMENTS_PATH);
+const DOCUMENTS_JSON_LD = JSON.stringify({
+	"@context": "https://schema.org",
+	"@type": "SoftwareApplication",
+	name: `${siteConfig.name} – Document Source Builder`,
+	applicationCategory: "ProductivityApplication",
+	operatingSystem: "Web",
+	description: DOCUMENTS_DESCRIPTION,
+	url: DOCUMENTS_CANONICAL_URL,
+	creator: {
+		"@type": "Person",
+		name: "Stone",
+	},
+	offers: {
+		"@type": "Offer",
+		price: "0",
+		priceCurrency: "USD",
+	},
+});
+
+export function meta(_args: Route.MetaArgs) {
+	return buildMeta({
+		title: "PDF, DOCX & EPUB Source Builder",
+		description: DOCUMENTS_DESCRIPTION,
+		path: DOCUMENTS_PATH,
+		keywords: DOCUMENTS_KEYWORDS,
+	});
+}
+
+export const links: Route.LinksFunction = () => [
+	buildCanonicalLink(DOCUMENTS_PATH),
+];
+
+const MAX_DOCUMENTS = 20;
+const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+/** Upper bound for all files of one upload together. */
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+export async function action({ request }: Route.ActionArgs) {
+	// The form data is buffered in memory, so refuse oversized uploads first.
+	if (Number(request.headers.get("content-length")) > MAX_UPLOAD_BYTES) {
+		return uploadTooLarge();
+	}
+	const formData = await request.formData();
+	return withProgress(formData.get("jobId"), (progress) =>
+		buildDocumentBundle(formData, progress),
+	);
+}
+
+async function buildDocumentBundle(
+	formData: FormData,
+	progress: ProgressReporter,
+) {
+	const files = formData
+		.getAll("files")
+		.filter((file): file is File => file instanceof File && file.size > 0);
+
+	if (files.length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: "Please choose at least one PDF, DOCX or EPUB file.",
+			}),
+			{ status: 400, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	if (files.length > MAX_DOCUMENTS) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: `You chose ${files.length} files. Upload at most ${MAX_DOCUMENTS} at a time.`,
+			}),
+			{ status: 413, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	if (files.reduce((total, file) => total + file.size, 0) > MAX_UPLOAD_BYTES) {
+		return uploadTooLarge();
+	}
+
+	for (const [index, file] of files.entries()) {
+		progress.item(`document-${index}`, file.name, "fetched");
+	}
+
+	const groups: FeedGroupSummary[] = [];
+	const entries: FeedEntry[] = [];
+	for (const [index, file] of files.entries()) {
+		const progressId = `document-${index}`;
+		const result =
+			file.size > MAX_DOCUMENT_BYTES
+				? {
+						ok: false as const,
+						error: `The file is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB.`,
+					}
+				: await extractDocument(
+						file.name,
+						new Uint8Array(await file.arrayBuffer()),
+					);
+		const title = result.ok ? result.value.title : file.name;
+		const group: FeedGroup = {
+			id: createEntryId(index + 1, title),
+			title,
+			url: file.name,
+			format: null,
+			tags: result.ok ? [result.value.kind] : [],
+		};
+		const documentEntries = result.ok
+			? toDocumentEntries(result.value, {
+					fileName: file.name,
+					group: group.id,
+					firstIndex: entries.length + 1,
+				})
+			: [];
+		entries.push(...documentEntries);
+		groups.push({
+			...group,
+			totalEntries: result.ok ? result.value.chapters.length : 0,
+			extractedEntries: documentEntries.length,
+			error: result.ok ? null : result.error,
+		});
+		if (result.ok) {
+			progress.item(
+				progressId,
+				title,
+				"extracted",
+				`${result.value.chapters.length} ${result.value.chapters.length === 1 ? "section" : "sections"}`,
+			);
+		} else {
+			progress.item(progressId, file.name, "failed", result.error);
+		}
+	}
+
+	if (entries.length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error:
+					groups.length === 1
+						? (groups[0].error ?? "We couldn’t read that document.")
+						: "We couldn’t read any of those documents.",
+			}),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	const extractedGroups = groups.filter((group) => group.error === null);
+	const title =
+		extractedGroups.length === 1 ? extractedGroups[0].title : "Documents";
+	const description = `Converted from ${extractedGroups.length} of ${groups.length} uploaded documents.`;
+	const bundle = new SourceBundle({
+		title,
+		description,
+		url: null,
+		format: "documents",
+	});
+	for (const { id, title, url, format, tags } of extractedGroups) {
+		bundle.addGroup({ id, title, url, format, tags });
+	}
+	const archive = await bundle.addEntries(entries).toUint8Array();
+	for (const [index, group] of groups.entries()) {
+		if (group.error === null) {
+			progress.item(`document-${index}`, group.title, "zipped");
+		}
+	}
+
+	return new Response(
+		JSON.stringify({
+			ok: true,
+			download: createDownload({
+				...archive,
+				contentType: "application/zip",
+			}),
+			feed: {
+				title,
+				description,
+				url: null,
+				format: "documents",
+				totalEntries: groups.reduce(
+					(total, group) => total + group.totalEntries,
+					0,
+				),
+				extractedEntries: entries.length,
+			},
+			feeds: groups,
+			entries: entries.map(summarizeEntry),
+			llmsTxt:
+				formData.get("llmsTxt") === "on"
+					? exportBundleAsLLMsTxt(bundle)
+					: undefined,
+		}),
+		{ status: 200, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+function uploadTooLarge() {
+	return new Response(
+		JSON.stringify({
+			ok: false,
+			error: `These files add up to more than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB. Upload fewer or smaller documents at a time.`,
+		}),
+		{ status: 413, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+export default function Documents() {
+	const fetcher = useFetcher<ActionData>();
+	const progress = useBuildProgress();
+	const [fileNames, setFileNames] = useState<string[]>([]);
+
+	const isSubmitting = fetcher.state !== "idle";
+	const data = fetcher.data;
+	const errorMessage = data?.ok === false ? data.error : null;
+	const successPayload = data?.ok ? data : null;
+
+	useEffect(() => {
+		if (fetcher.state === "idle" && fetcher.formData == null) {
+			return;
+		}
+		if (fetcher.state === "submitting") {
+			const resultRegion = document.getElementById("conversion-result");
+			if (resultRegion) {
+				resultRegion.scrollIntoView({ behavior: "smooth", block: "start" });
+			}
+		}
+	}, [fetcher.state, fetcher.formData]);
+
+	const actionDescription = useMemo(() => {
+		if (isSubmitting) {
+			return "Extracting chapters and preparing NotebookLM source bundle.";
+		}
+		if (successPayload) {
+			return "Finished building your NotebookLM bundle.";
+		}
+		if (errorMessage) {
+			return "We ran into an issue. See the message below.";
+		}
+		return "Choose your documents and we’ll handle the rest.";
+	}, [errorMessage, isSubmitting, successPayload]);
+
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+		formData.set("jobId", progress.start());
+		fetcher.submit(formData, {
+			method: "post",
+			encType: "multipart/form-data",
+		});
+	};
+
+	return (
+		<main className="min-h-screen ">
+			<script
+				type="application/ld+json"
+				suppressHydrationWarning
+				dangerouslySetInnerHTML={{ __html: DOCUMENTS_JSON_LD }}
+			/>
+			<div className="mx-auto flex w-full max-w-5xl flex-col gap-12 px-4 pb-24 pt-16 sm:px-6 lg:px-8">
+				<header className="flex flex-col gap-6 rounded-sm border border-border/10">
+					<div className="flex items-center gap-3 text-sm ">
+						<Sparkles className="h-4 w-4" aria-hidden="true" />
+						<span>NotebookLM Toolkit · Document Source Builder</span>
+					</div>
+					<h1 className="text-balance text-4xl font-semibold leading-tight text-foreground sm:text-5xl">
+						Turn PDFs, Word files and e-books into NotebookLM sources.
+					</h1>
+					<p className="max-w-2xl text-lg">
+						Upload up to {MAX_DOCUMENTS} documents and download a
+						ready-to-import zip bundle. Long books are split into one Markdown
+						source per chapter.
+					</p>
+				</header>
+
+				<section
+					className={`grid gap-10 ${data ? "" : "lg:grid-cols-[1.2fr,0.8fr]"}`}
+				>
+					<fetcher.Form
+						method="post"
+						encType="multipart/form-data"
+						onSubmit={handleSubmit}
+						className="flex flex-col gap-6 rounded-md border border-border/10 bg-card p-8 backdrop-blur text-foreground"
+					>
+						<div className="flex flex-col gap-2">
+							<label
+								className="text-sm font-medium text-foreground"
+								htmlFor="files"
+							>
+								Documents
+							</label>
+							<input
+								id="files"
+								name="files"
+								type="file"
+								multiple
+								required
+								accept={DOCUMENT_EXTENSIONS.map(
+									(extension) => `.${extension}`,
+								).join(",")}
+								className="text-sm file:mr-4 file:rounded-md file:border file:border-input file:bg-transparent file:px-3 file:py-1.5 file:text-sm file:font-medium"
+								onChange={(event) =>
+									setFileNames(
+										Array.from(event.target.files ?? []).map(
+											(file) => file.name,
+										),
+									)
+								}
+								aria-describedby="files-help"
+							/>
+							<p id="files-help" className="text-sm">
+								PDF, DOCX, EPUB, Markdown or plain text, up to{" "}
+								{MAX_DOCUMENT_BYTES / 1024 / 1024} MB each and{" "}
+								{MAX_UPLOAD_BYTES / 1024 / 1024} MB in total.
+								{fileNames.length > 1
+									? ` ${fileNames.length} files selected.`
+									: ""}
+							</p>
+						</div>
+
+						<LLMsTxtExportField />
+
+						<div className="flex flex-col gap-2">
+							<span className="text-sm font-medium">What happens next</span>
+							<ul className="list-disc space-y-1 pl-5 text-sm">
+								<li>
+									EPUB chapters follow the book’s reading order and table of
+									contents.
+								</li>
+								<li>
+									Word documents are split at their top-level headings; PDFs use
+									their text layer, grouped by pages.
+								</li>
+								<li>You get a downloadable zip bundle ready for import.</li>
+							</ul>
+						</div>
+
+						<div className="flex flex-col gap-3">
+							<Button type="submit" disabled={isSubmitting}>
+								{isSubmitting ? (
+									<>
+										<Loader2
+											className="h-4 w-4 animate-spin"
+											aria-hidden="true"
+										/>
+										Building…
+									</>
+								) : (
+									<>
+										<Download className="h-4 w-4" aria-hidden="true" />
+										Build NotebookLM bundle
+									</>
+								)}
+							</Button>
+							<span className="text-sm" aria-live="polite">
+								{actionDescription}
+							</span>
+						</div>
+					</fetcher.Form>
+				</section>
+
+				{isSubmitting ? (
+					<section
+						className="space-y-4 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+						aria-busy="true"
+					>
+						<h2 className="text-2xl font-semibold text-white">Progress</h2>
+						<BuildProgressList items={progress.items} />
+					</section>
+				) : null}
+
+				{data ? (
+					<section
+						id="conversion-result"
+						className="space-y-6 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+					>
+						<h2 className="text-2xl font-semibold text-white">
+							Conversion status
+						</h2>
+						{errorMessage ? (
+							<div className="rounded-2xl border border-red-400/60 bg-red-500/10 p-5 text-red-200">
+								<p className="font-medium">We hit a snag.</p>
+								<p className="mt-1 text-sm text-red-100">{errorMessage}</p>
+							</div>
+						) : successPayload ? (
+							<div className="space-y-5">
+								<div className="grid gap-4 rounded-2xl border border-emerald-400/60 bg-emerald-500/10 p-5 text-emerald-100 sm:grid-cols-2">
+									<div>
+										<p className="text-sm uppercase tracking-wide text-emerald-200">
+											Source
+										</p>
+										<p className="mt-1 text-lg font-semibold text-white">
+											{successPayload.feed.title}
+										</p>
+										<p className="mt-1 text-sm text-emerald-100/80">
+											{successPayload.feed.description}
+										</p>
+									</div>
+									<div className="flex flex-col justify-between gap-3 rounded-xl bg-black/40 p-4 text-sm text-emerald-100">
+										<p>
+											Created{" "}
+											<strong className="text-white">
+												{successPayload.feed.extractedEntries}
+											</strong>{" "}
+											{successPayload.feed.extractedEntries === 1
+												? "source"
+												: "sources"}
+											.
+										</p>
+										<a
+											href={successPayload.download.url}
+											download={successPayload.download.fileName}
+											className="inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-300 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-100"
+										>
+											<Download className="h-4 w-4" aria-hidden="true" />
+											Download NotebookLM bundle
+										</a>
+										{successPayload.llmsTxt ? (
+											<LLMsTxtExportLinks exported={successPayload.llmsTxt} />
+										) : null}
+									</div>
+								</div>
+
+								{successPayload.feeds ? (
+									<div className="space-y-3">
+										<h3 className="text-lg font-semibold text-white">
+											Documents
+										</h3>
+										<ul className="space-y-2">
+											{successPayload.feeds.map((group) => (
+												<li
+													key={group.id}
+													className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm"
+												>
+													<div className="flex flex-wrap items-center justify-between gap-2">
+														<p className="font-semibold text-white">
+															{group.title}
+														</p>
+														{group.error ? null : (
+															<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																{group.totalEntries}{" "}
+																{group.totalEntries === 1
+																	? "section"
+																	: "sections"}{" "}
+																in {group.extractedEntries}{" "}
+																{group.extractedEntries === 1
+																	? "source"
+																	: "sources"}
+															</span>
+														)}
+													</div>
+													<p className="mt-1 text-xs text-slate-300">
+														{[group.url, ...group.tags].join(" · ")}
+													</p>
+													{group.error ? (
+														<p className="mt-1 text-xs text-amber-200">
+															Skipped: {group.error}
+														</p>
+													) : null}
+												</li>
+											))}
+										</ul>
+									</div>
+								) : null}
+
+								<div className="space-y-3">
+									<h3 className="text-lg font-semibold text-white">
+										Included sources
+									</h3>
+									<ul className="space-y-3">
+										{successPayload.entries.map((entry) => (
+											<li
+												key={entry.id}
+												className="rounded-2xl border border-white/10 bg-white/5 p-4"
+											>
+												<div className="flex flex-col gap-2">
+													<div className="flex flex-wrap items-center justify-between gap-2">
+														<p className="text-base font-semibold text-white">
+															{entry.title}
+														</p>
+														<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+															{entry.wordCount.toLocaleString()} words
+														</span>
+													</div>
+													<p className="text-sm text-slate-200">
+														{entry.summary}
+														{entry.summary.length >= 320 ? "…" : ""}
+													</p>
+												</div>
+											</li>
+										))}
+									</ul>
+								</div>
+							</div>
+						) : (
+							<div className="rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-slate-200">
+								Conversion updates and the download link will appear here after
+								you start the build.
+							</div>
+						)}
+					</section>
+				) : null}
+			</div>
+		</main>
+	);
+}
@@ -0,0 +1,10 @@
+import { createDownloadResponse } from "../lib/downloads";
+import type { Route } from "./+types/download";
+
+/**
+ * Serves the bundles and text files built by the source builders through the
+ * short-lived link in their action response.
+ */
+export function loader({ params }: Route.LoaderArgs) {
+	return createDownloadResponse(params.token);
+}
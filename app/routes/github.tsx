@@ -1,17 +1,46 @@
-import JSZip from "jszip";
 import {
     Code,
     Download,
     FileArchive,
+    GitBranch,
     Github,
     Loader2,
     Upload,
 } from "lucide-react";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useMemo, useState } from "react";
+import { useFetcher } from "react-router";
+import {
+    LLMsTxtExportField,
+    LLMsTxtExportLinks,
+} from "../components/llms-txt-export";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import {
+    DEFAULT_DIGEST_MAX_BYTES,
+    DEFAULT_DIGEST_MAX_WORDS,
+    MAX_DIGEST_MAX_WORDS,
+} from "../lib/builder-options";
+import { createDownload } from "../lib/downloads";
+import {
+    downloadGitHubArchive,
+    MAX_REPO_ARCHIVE_BYTES,
+    parseGitHubUrl,
+    resolveGitHubRepo,
+} from "../lib/github";
+import { createLLMsTxtDownloads } from "../lib/llms-export";
+import {
+    convertRepoArchive,
+    type RepoArchiveFilters,
+    type RepoArchiveResult,
+} from "../lib/repo-archive";
+import type { RepoDigestOptions } from "../lib/repo-digest";
 import { buildCanonicalLink, buildMeta, getCanonicalUrl } from "../lib/seo";
-import type { GitHubActionData, RepoFile } from "../lib/types";
+import type {
+    GitHubActionData,
+    GitHubRepoInfo,
+    RepoFileSkip,
+} from "../lib/types";
+import { readBoundedInt } from "../lib/utils";
 import type { Route } from "./+types/github";
 
 const GITHUB_PATH = "/github";
@@ -38,309 +67,185 @@ export const links: Route.LinksFunction = () => [
     buildCanonicalLink(GITHUB_PATH),
 ];
 
-// File extension lists
-const DOC_EXTENSIONS = new Set(["pdf", "txt", "md", "docx"]);
-const IMG_EXTENSIONS = new Set([
-    "avif",
-    "bmp",
-    "gif",
-    "ico",
-    "jp2",
-    "png",
-    "webp",
-    "tif",
-    "tiff",
-    "heic",
-    "heif",
-    "jpeg",
-    "jpg",
-    "jpe",
-]);
-const MEDIA_EXTENSIONS = new Set([
-    "3g2",
-    "3gp",
-    "aac",
-    "aif",
-    "aifc",
-    "aiff",
-    "amr",
-    "au",
-    "avi",
-    "cda",
-    "m4a",
-    "mid",
-    "mp3",
-    "mp4",
-    "mpeg",
-    "ogg",
-    "opus",
-    "ra",
-    "ram",
-    "snd",
-    "wav",
-    "wma",
-]);
-// Common code extensions to convert to .txt
-const CODE_EXTENSIONS = new Set([
-    "js",
-    "ts",
-    "jsx",
-    "tsx",
-    "py",
-    "java",
-    "c",
-    "cpp",
-    "h",
-    "hpp",
-    "cs",
-    "go",
-    "rs",
-    "rb",
-    "php",
-    "swift",
-    "kt",
-    "scala",
-    "vue",
-    "svelte",
-    "sql",
-    "sh",
-    "bash",
-    "yaml",
-    "yml",
-    "json",
-    "xml",
-    "html",
-    "css",
-    "scss",
-    "less",
-    "r",
-    "m",
-    "pl",
-    "pm",
-    "t",
-    "lua",
-    "dart",
-    "elm",
-    "erl",
-    "ex",
-    "exs",
-    "fs",
-    "fsx",
-    "hs",
-    "lhs",
-]);
-const IGNORED_DIRS = new Set([
-    "node_modules",
-    ".git",
-    "dist",
-    "build",
-    "out",
-    "target",
-    "vendor",
-    "bin",
-    "obj",
-    ".idea",
-    ".vscode",
-    "__pycache__",
-    ".next",
-    ".nuxt",
-    "coverage",
-]);
+const MAX_UPLOAD_BYTES = MAX_REPO_ARCHIVE_BYTES;
 
-export default function GitHubTool() {
-    const [repoUrl, setRepoUrl] = useState("");
-    const [isProcessing, setIsProcessing] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    // Only store success data here to avoid type narrowing issues
-    const [successData, setSuccessData] = useState<
-        Extract<GitHubActionData, { ok: true }> | null
-    >(null);
-    const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
-    const downloadUrlRef = useRef<string | null>(null);
-    const fileInputRef = useRef<HTMLInputElement>(null);
-
-    // Cleanup object URL
-    useEffect(() => {
-        return () => {
-            if (downloadUrlRef.current) {
-                URL.revokeObjectURL(downloadUrlRef.current);
-                downloadUrlRef.current = null;
-            }
-        };
-    }, []);
-
-    const processZip = async (
-        zipData: ArrayBuffer,
-        sourceName: string,
-        repoInfo?: { owner: string; name: string; url: string },
-    ) => {
-        setIsProcessing(true);
-        setError(null);
-        setSuccessData(null);
-
-        try {
-            const jszip = new JSZip();
-            const inputZip = await jszip.loadAsync(zipData);
-            const outputZip = new JSZip();
-
-            const stats = {
-                totalFiles: 0,
-                includedFiles: 0,
-                codeFilesConverted: 0,
-            };
-            const processedFiles: RepoFile[] = [];
-
-            // Helper to check if path contains ignored directory
-            const isIgnored = (path: string) => {
-                const parts = path.split("/");
-                return parts.some((part) => IGNORED_DIRS.has(part));
-            };
-
-            const entries = Object.entries(inputZip.files);
-            stats.totalFiles = entries.length;
-
-            for (const [path, file] of entries) {
-                if (file.dir || isIgnored(path)) continue;
-
-                // Skip dotfiles (except specific config files if needed, but keeping simple for now)
-                const fileName = path.split("/").pop() || "";
-                if (fileName.startsWith(".")) continue;
-
-                const extension = fileName.split(".").pop()?.toLowerCase() || "";
-                let shouldInclude = false;
-                let isCode = false;
-                let targetPath = path;
-
-                // Flatten directory structure slightly by removing top-level folder if it exists (common in GitHub Zips)
-                // GitHub Zips usually wrap everything in `user-repo-sha/`
-                const pathParts = path.split("/");
-                if (
-                    pathParts.length > 1 &&
-                    repoInfo &&
-                    pathParts[0].includes(repoInfo.name)
-                ) {
-                    targetPath = pathParts.slice(1).join("/");
-                }
-
-                if (
-                    DOC_EXTENSIONS.has(extension) ||
-                    IMG_EXTENSIONS.has(extension) ||
-                    MEDIA_EXTENSIONS.has(extension)
-                ) {
-                    shouldInclude = true;
-                } else if (CODE_EXTENSIONS.has(extension)) {
-                    shouldInclude = true;
-                    isCode = true;
-                    // Rename to .txt for NotebookLM readability
-                    targetPath = `${targetPath}.txt`;
-                    stats.codeFilesConverted++;
-                }
-
-                if (shouldInclude) {
-                    const content = await file.async("blob");
-                    outputZip.file(targetPath, content);
-                    stats.includedFiles++;
-
-                    processedFiles.push({
-                        path: targetPath,
-                        name: fileName,
-                        originalExtension: extension,
-                        convertedName: targetPath.split("/").pop() || "",
-                        size: content.size,
-                        isCode,
-                    });
-                }
-            }
-
-            if (stats.includedFiles === 0) {
-                throw new Error("No supported files found in the archive.");
-            }
-
-            // Add manifest
-            const manifest = {
-                source: repoInfo ? "github" : "upload",
-                generatedAt: new Date().toISOString(),
-                repo: repoInfo,
-                stats,
-                files: processedFiles.map((f) => f.path),
-            };
-            outputZip.file("notebooklm-manifest.json", JSON.stringify(manifest, null, 2));
-
-            // Generate output zip
-            const outputBlob = await outputZip.generateAsync({ type: "blob" });
-            const objectUrl = URL.createObjectURL(outputBlob);
-
-            if (downloadUrlRef.current) {
-                URL.revokeObjectURL(downloadUrlRef.current);
-            }
-            downloadUrlRef.current = objectUrl;
-            setDownloadUrl(objectUrl);
-
-            setSuccessData({
-                ok: true,
-                source: repoInfo ? "github" : "upload",
-                repo: repoInfo,
-                archiveBase64: "", // Not used in client-side flow, keeping for type compat
-                fileName: `${sourceName}-notebooklm.zip`,
-                stats,
-                files: processedFiles,
-            });
-        } catch (err) {
-            console.error(err);
-            setError(
-                err instanceof Error ? err.message : "Failed to process ZIP file",
-            );
-        } finally {
-            setIsProcessing(false);
-        }
+export async function action({ request }: Route.ActionArgs) {
+    const formData = await request.formData();
+    return formData.get("mode") === "upload"
+        ? convertUpload(formData)
+        : convertRepository(formData);
+}
+
+/**
+ * Resolve a GitHub link to a commit, download its zipball and convert it. A
+ * token from the form is only used for the GitHub requests and never echoed
+ * back. Without one the server's `GITHUB_TOKEN` is used, if set, but only for
+ * public repositories: it just raises the rate limit.
+ */
+async function convertRepository(formData: FormData) {
+    const repoUrl = readText(formData.get("repoUrl"));
+    const target = repoUrl ? parseGitHubUrl(repoUrl) : null;
+    if (!target) {
+        return Response.json(
+            {
+                ok: false,
+                error: "Enter a GitHub repository URL such as https://github.com/owner/repo.",
+            },
+            { status: 422 },
+        );
+    }
+
+    const userToken = readText(formData.get("token"));
+    const serverToken = userToken ? null : readText(process.env.GITHUB_TOKEN);
+    const token = userToken ?? serverToken;
+    const resolved = await resolveGitHubRepo(target, {
+        ref: readText(formData.get("ref")),
+        subdir: readText(formData.get("subdir")),
+        token,
+        publicOnly: serverToken !== null,
+    });
+    if (!resolved.ok) {
+        return Response.json(
+            { ok: false, error: resolved.error },
+            { status: resolved.status },
+        );
+    }
+    const repo = resolved.value;
+
+    const archive = await downloadGitHubArchive(repo, token);
+    if (!archive.ok) {
+        return Response.json(
+            { ok: false, error: archive.error },
+            { status: archive.status },
+        );
+    }
+
+    const sourceName = [repo.owner, repo.name, repo.ref, repo.subdir]
+        .filter(Boolean)
+        .join("-")
+        .replace(/[^\w.-]+/g, "-");
+    return respondWithBundle(
+        await convertRepoArchive(archive.value, {
+            sourceName,
+            repo,
+            filters: readFilters(formData),
+            digest: readDigestOptions(formData),
+            llmsTxt: formData.get("llmsTxt") === "on",
+        }),
+        "github",
+        repo,
+    );
+}
+
+async function convertUpload(formData: FormData) {
+    const file = formData.get("archive");
+    if (!(file instanceof File) || file.size === 0) {
+        return Response.json(
+            { ok: false, error: "Please choose a ZIP file to upload." },
+            { status: 400 },
+        );
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+        return Response.json(
+            {
+                ok: false,
+                error: `That archive is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`,
+            },
+            { status: 413 },
+        );
+    }
+
+    return respondWithBundle(
+        await convertRepoArchive(await file.arrayBuffer(), {
+            sourceName: file.name.replace(/\.zip$/i, ""),
+            filters: readFilters(formData),
+            digest: readDigestOptions(formData),
+            llmsTxt: formData.get("llmsTxt") === "on",
+        }),
+        "upload",
+    );
+}
+
+function respondWithBundle(
+    result: RepoArchiveResult,
+    source: "github" | "upload",
+    repo?: GitHubRepoInfo,
+) {
+    if (!result.ok) {
+        return Response.json(
+            { ok: false, error: result.error },
+            { status: result.status },
+        );
+    }
+    return Response.json({
+        ok: true,
+        source,
+        repo,
+        download: createDownload({
+            ...result.archive,
+            contentType: "application/zip",
+        }),
+        stats: result.stats,
+        files: result.files,
+        llmsTxt: result.llmsTxt
+            ? createLLMsTxtDownloads(result.llmsTxt, result.archive.fileName)
+            : undefined,
+    });
+}
+
+function readFilters(formData: FormData): RepoArchiveFilters {
+    return {
+        include: readText(formData.get("include")),
+        exclude: readText(formData.get("exclude")),
     };
+}
 
-    const handleUrlSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!repoUrl.trim()) return;
-
-        // Parse GitHub URL
-        try {
-            const url = new URL(repoUrl);
-            const parts = url.pathname.split("/").filter(Boolean);
-            if (parts.length < 2) throw new Error("Invalid GitHub repository URL");
-
-            const owner = parts[0];
-            const repo = parts[1];
-            const zipUrl = `https://api.github.com/repos/${owner}/${repo}/zipball`;
-
-            setIsProcessing(true);
-            setError(null);
-
-            const response = await fetch(zipUrl);
-            if (!response.ok) {
-                if (response.status === 404)
-                    throw new Error("Repository not found or private");
-                throw new Error(`Failed to download repo: ${response.statusText}`);
-            }
-
-            const blob = await response.blob();
-            const buffer = await blob.arrayBuffer();
-
-            await processZip(buffer, `${owner}-${repo}`, {
-                owner,
-                name: repo,
-                url: `https://github.com/${owner}/${repo}`,
-            });
-        } catch (err) {
-            setError(
-                err instanceof Error ? err.message : "Failed to fetch repository",
-            );
-            setIsProcessing(false);
-        }
+function readDigestOptions(formData: FormData): RepoDigestOptions | null {
+    if (formData.get("output") !== "digest") {
+        return null;
+    }
+    return {
+        groupBy: formData.get("digestGroup") === "none" ? "none" : "directory",
+        maxWords: readBoundedInt(
+            formData.get("digestMaxWords"),
+            DEFAULT_DIGEST_MAX_WORDS,
+            1000,
+            MAX_DIGEST_MAX_WORDS,
+        ),
+        maxBytes:
+            readBoundedInt(
+                formData.get("digestMaxMb"),
+                DEFAULT_DIGEST_MAX_BYTES / 1024 / 1024,
+                1,
+                200,
+            ) *
+            1024 *
+            1024,
     };
+}
 
-    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file) return;
+function readText(value: FormDataEntryValue | string | null | undefined) {
+    return typeof value === "string" && value.trim().length > 0
+        ? value.trim()
+        : null;
+}
 
-        const buffer = await file.arrayBuffer();
-        await processZip(buffer, file.name.replace(/\.zip$/i, ""));
+export default function GitHubTool() {
+    const fetcher = useFetcher<GitHubActionData>();
+    const [repoUrl, setRepoUrl] = useState("");
+    const [showOptions, setShowOptions] = useState(false);
+
+    const isProcessing = fetcher.state !== "idle";
+    const data = isProcessing ? undefined : fetcher.data;
+    const error = data?.ok === false ? data.error : null;
+    const successData = data?.ok ? data : null;
+    const includedFiles = successData?.files.filter((file) => !file.skipped) ?? [];
+    const skippedFiles = successData?.files.filter((file) => file.skipped) ?? [];
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files?.[0] && e.currentTarget.form) {
+            fetcher.submit(e.currentTarget.form);
+        }
     };
 
     const statusMessage = useMemo(() => {
@@ -374,21 +279,80 @@ export default function GitHubTool() {
                     <section className="flex flex-col gap-8">
                         <div className="rounded-md border border-border/10 bg-card p-6 backdrop-blur">
                             <h2 className="mb-4 text-lg font-medium">From GitHub</h2>
-                            <form onSubmit={handleUrlSubmit} className="flex flex-col gap-4">
+                            <fetcher.Form method="post" className="flex flex-col gap-4">
+                                <input type="hidden" name="mode" value="github" />
                                 <div className="flex flex-col gap-2">
                                     <label htmlFor="repo-url" className="text-sm text-foreground">
                                         Repository URL
                                     </label>
                                     <Input
                                         id="repo-url"
-                                        type="url"
-                                        placeholder="https://github.com/owner/repo"
+                                        name="repoUrl"
+                                        type="text"
+                                        placeholder="https://github.com/owner/repo/tree/main/docs"
                                         value={repoUrl}
                                         onChange={(e) => setRepoUrl(e.target.value)}
                                         required
                                         className="bg-background"
                                     />
+                                    <p className="text-xs text-muted-foreground">
+                                        Links to a branch, tag or folder convert just that
+                                        ref and folder.
+                                    </p>
                                 </div>
+                                <button
+                                    type="button"
+                                    onClick={() => setShowOptions((value) => !value)}
+                                    className="self-start text-xs text-muted-foreground underline-offset-4 hover:underline"
+                                    aria-expanded={showOptions}
+                                >
+                                    {showOptions ? "Hide options" : "Branch, folder & access token"}
+                                </button>
+                                {showOptions && (
+                                    <div className="grid gap-4 sm:grid-cols-2">
+                                        <div className="flex flex-col gap-2">
+                                            <label htmlFor="repo-ref" className="text-sm text-foreground">
+                                                Branch, tag or commit
+                                            </label>
+                                            <Input
+                                                id="repo-ref"
+                                                name="ref"
+                                                placeholder="Default branch"
+                                                className="bg-background"
+                                            />
+                                        </div>
+                                        <div className="flex flex-col gap-2">
+                                            <label htmlFor="repo-subdir" className="text-sm text-foreground">
+                                                Folder
+                                            </label>
+                                            <Input
+                                                id="repo-subdir"
+                                                name="subdir"
+                                                placeholder="Whole repository"
+                                                className="bg-background"
+                                            />
+                                        </div>
+                                        <div className="flex flex-col gap-2 sm:col-span-2">
+                                            <label htmlFor="repo-token" className="text-sm text-foreground">
+                                                Access token
+                                            </label>
+                                            <Input
+                                                id="repo-token"
+                                                name="token"
+                                                type="password"
+                                                autoComplete="off"
+                                                placeholder="Only needed for private repositories"
+                                                className="bg-background"
+                                            />
+                                            <p className="text-xs text-muted-foreground">
+                                                Sent to GitHub for this conversion only; it is not
+                                                stored.
+                                            </p>
+                                        </div>
+                                    </div>
+                                )}
+                                <RepoFilterFields idPrefix="repo" />
+                                <RepoOutputFields idPrefix="repo" />
                                 <Button type="submit" disabled={isProcessing}>
                                     {isProcessing ? (
                                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -397,7 +361,7 @@ export default function GitHubTool() {
                                     )}
                                     {isProcessing ? "Downloading..." : "Fetch & Convert"}
                                 </Button>
-                            </form>
+                            </fetcher.Form>
                         </div>
 
                         <div className="relative flex items-center py-2">
@@ -410,7 +374,14 @@ export default function GitHubTool() {
 
                         <div className="rounded-md border border-border/10 bg-card p-6 backdrop-blur">
                             <h2 className="mb-4 text-lg font-medium">From ZIP Upload</h2>
-                            <div className="flex flex-col gap-4">
+                            <fetcher.Form
+                                method="post"
+                                encType="multipart/form-data"
+                                className="flex flex-col gap-4"
+                            >
+                                <input type="hidden" name="mode" value="upload" />
+                                <RepoFilterFields idPrefix="upload" />
+                                <RepoOutputFields idPrefix="upload" />
                                 <label
                                     htmlFor="zip-upload"
                                     className="flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed border-border/40 bg-background/50 p-8 transition hover:bg-accent/50"
@@ -424,14 +395,15 @@ export default function GitHubTool() {
                                     </span>
                                     <input
                                         id="zip-upload"
+                                        name="archive"
                                         type="file"
                                         accept=".zip"
                                         className="hidden"
-                                        ref={fileInputRef}
+                                        disabled={isProcessing}
                                         onChange={handleFileUpload}
                                     />
                                 </label>
-                            </div>
+                            </fetcher.Form>
                         </div>
                     </section>
 
@@ -451,22 +423,41 @@ export default function GitHubTool() {
                                             Conversion Complete
                                         </h3>
                                         <p className="text-sm text-muted-foreground mt-1">
-                                            {successData.fileName}
+                                            {successData.download.fileName}
                                         </p>
+                                        {successData.repo && (
+                                            <p className="mt-1 flex items-center gap-1.5 text-xs text-muted-foreground">
+                                                <GitBranch className="h-3 w-3" aria-hidden="true" />
+                                                <span>
+                                                    {successData.repo.ref}
+                                                    {successData.repo.subdir
+                                                        ? ` · ${successData.repo.subdir}/`
+                                                        : ""}{" "}
+                                                    · <code>{successData.repo.sha.slice(0, 7)}</code>
+                                                </span>
+                                            </p>
+                                        )}
                                     </div>
-                                    {downloadUrl && (
-                                        <a
-                                            href={downloadUrl}
-                                            download={successData.fileName}
-                                            className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground shadow transition-colors hover:bg-primary/90 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
-                                        >
-                                            <Download className="mr-2 h-4 w-4" />
-                                            Download Bundle
-                                        </a>
-                                    )}
+                                    <a
+                                        href={successData.download.url}
+                                        download={successData.download.fileName}
+                                        className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground shadow transition-colors hover:bg-primary/90 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                                    >
+                                        <Download className="mr-2 h-4 w-4" />
+                                        Download Bundle
+                                    </a>
                                 </div>
 
-                                <div className="grid grid-cols-3 gap-4 border-y border-border/10 py-6">
+                                {successData.llmsTxt && (
+                                    <div className="flex flex-wrap gap-2">
+                                        <LLMsTxtExportLinks
+                                            exported={successData.llmsTxt}
+                                            className="inline-flex items-center justify-center gap-2 rounded-md border border-border px-3 py-1.5 text-sm font-medium transition-colors hover:bg-accent"
+                                        />
+                                    </div>
+                                )}
+
+                                <div className="grid grid-cols-2 gap-4 border-y border-border/10 py-6 sm:grid-cols-4">
                                     <div className="text-center">
                                         <div className="text-2xl font-bold">
                                             {successData.stats.totalFiles}
@@ -491,15 +482,23 @@ export default function GitHubTool() {
                                             Converted
                                         </div>
                                     </div>
+                                    <div className="text-center">
+                                        <div className="text-2xl font-bold text-muted-foreground">
+                                            {successData.stats.skippedFiles}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground uppercase tracking-wider">
+                                            Skipped
+                                        </div>
+                                    </div>
                                 </div>
 
                                 <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
                                     <h4 className="text-sm font-medium text-muted-foreground sticky top-0 bg-card pb-2">
                                         Included Files
                                     </h4>
-                                    {successData.files.map((file, i) => (
+                                    {includedFiles.map((file) => (
                                         <div
-                                            key={i}
+                                            key={file.path}
                                             className="flex items-center gap-3 rounded bg-background/50 p-2 text-sm"
                                         >
                                             {file.isCode ? (
@@ -513,19 +512,51 @@ export default function GitHubTool() {
                                                     <span className="truncate max-w-[200px] opacity-70">
                                                         {file.path}
                                                     </span>
-                                                    {file.isCode && (
-                                                        <span className="rounded-full bg-sky-500/10 px-1.5 py-0.5 text-[10px] text-sky-500">
-                                                            Converted
+                                                    {successData.stats.digestDocuments > 0 &&
+                                                    file.convertedName !== file.name ? (
+                                                        <span className="truncate rounded-full bg-sky-500/10 px-1.5 py-0.5 text-[10px] text-sky-500">
+                                                            In {file.convertedName}
                                                         </span>
+                                                    ) : (
+                                                        file.isCode && (
+                                                            <span className="rounded-full bg-sky-500/10 px-1.5 py-0.5 text-[10px] text-sky-500">
+                                                                Converted
+                                                            </span>
+                                                        )
                                                     )}
                                                 </div>
                                             </div>
                                             <div className="text-xs text-muted-foreground whitespace-nowrap">
-                                                {Math.round(file.size / 1024)} KB
+                                                {Math.round((file.size ?? 0) / 1024)} KB
                                             </div>
                                         </div>
                                     ))}
                                 </div>
+
+                                {skippedFiles.length > 0 && (
+                                    <details className="rounded-md border border-border/10 p-4">
+                                        <summary className="cursor-pointer text-sm font-medium text-muted-foreground">
+                                            Skipped Files ({successData.stats.skippedFiles})
+                                        </summary>
+                                        <ul className="mt-3 max-h-[300px] space-y-2 overflow-y-auto pr-2 text-sm">
+                                            {skippedFiles.map((file) => (
+                                                <li key={file.path} className="flex flex-col">
+                                                    <span className="truncate">{file.path}</span>
+                                                    <span className="text-xs text-muted-foreground">
+                                                        {describeSkip(file.skipped)}
+                                                        {file.size !== null &&
+                                                            ` · ${Math.round(file.size / 1024)} KB`}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                        {skippedFiles.length < successData.stats.skippedFiles && (
+                                            <p className="mt-3 text-xs text-muted-foreground">
+                                                Showing the first {skippedFiles.length} skipped files.
+                                            </p>
+                                        )}
+                                    </details>
+                                )}
                             </div>
                         )}
 
@@ -548,6 +579,174 @@ export default function GitHubTool() {
     );
 }
 
+/**
+ * Optional `.gitignore`-style patterns sent with either form and read on the
+ * server by `readFilters`.
+ */
+function RepoFilterFields({ idPrefix }: { idPrefix: string }) {
+    return (
+        <details className="rounded-md border border-border/40 p-4">
+            <summary className="cursor-pointer text-sm font-medium">
+                Include & exclude patterns
+            </summary>
+            <div className="mt-4 flex flex-col gap-4">
+                <div className="flex flex-col gap-2">
+                    <label htmlFor={`${idPrefix}-include`} className="text-sm text-foreground">
+                        Only include
+                    </label>
+                    <Input
+                        id={`${idPrefix}-include`}
+                        name="include"
+                        placeholder="docs/, src/**/*.ts"
+                        aria-describedby={`${idPrefix}-patterns-help`}
+                        className="bg-background"
+                    />
+                </div>
+                <div className="flex flex-col gap-2">
+                    <label htmlFor={`${idPrefix}-exclude`} className="text-sm text-foreground">
+                        Exclude
+                    </label>
+                    <Input
+                        id={`${idPrefix}-exclude`}
+                        name="exclude"
+                        placeholder="*.test.ts, fixtures/"
+                        aria-describedby={`${idPrefix}-patterns-help`}
+                        className="bg-background"
+                    />
+                </div>
+            </div>
+            <p id={`${idPrefix}-patterns-help`} className="mt-3 text-xs text-muted-foreground">
+                Separate patterns with commas. They use .gitignore syntax from the
+                repository root and apply after the repository's own .gitignore and
+                .notebooklmignore files; start an exclude pattern with ! to bring a
+                file back.
+            </p>
+        </details>
+    );
+}
+
+/**
+ * Output mode sent with either form and read on the server by
+ * `readDigestOptions`: one file per source file, or merged Markdown digests.
+ */
+function RepoOutputFields({ idPrefix }: { idPrefix: string }) {
+    const [output, setOutput] = useState<"files" | "digest">("files");
+    return (
+        <details className="rounded-md border border-border/40 p-4">
+            <summary className="cursor-pointer text-sm font-medium">Output</summary>
+            <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                <div className="flex flex-col gap-2 sm:col-span-2">
+                    <label htmlFor={`${idPrefix}-output`} className="text-sm text-foreground">
+                        Bundle layout
+                    </label>
+                    <select
+                        id={`${idPrefix}-output`}
+                        name="output"
+                        value={output}
+                        onChange={(event) =>
+                            setOutput(event.target.value as "files" | "digest")
+                        }
+                        className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+                    >
+                        <option value="files">One source per file</option>
+                        <option value="digest">Merged Markdown digests</option>
+                    </select>
+                </div>
+                {output === "digest" && (
+                    <>
+                        <div className="flex flex-col gap-2 sm:col-span-2">
+                            <label
+                                htmlFor={`${idPrefix}-digest-group`}
+                                className="text-sm text-foreground"
+                            >
+                                Group files
+                            </label>
+                            <select
+                                id={`${idPrefix}-digest-group`}
+                                name="digestGroup"
+                                defaultValue="directory"
+                                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+                            >
+                                <option value="directory">One digest per top-level folder</option>
+                                <option value="none">One digest for everything</option>
+                            </select>
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <label
+                                htmlFor={`${idPrefix}-digest-words`}
+                                className="text-sm text-foreground"
+                            >
+                                Words per digest
+                            </label>
+                            <Input
+                                id={`${idPrefix}-digest-words`}
+                                name="digestMaxWords"
+                                type="number"
+                                min={1000}
+                                max={MAX_DIGEST_MAX_WORDS}
+                                defaultValue={DEFAULT_DIGEST_MAX_WORDS}
+                                className="bg-background"
+                            />
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <label
+                                htmlFor={`${idPrefix}-digest-mb`}
+                                className="text-sm text-foreground"
+                            >
+                                MB per digest
+                            </label>
+                            <Input
+                                id={`${idPrefix}-digest-mb`}
+                                name="digestMaxMb"
+                                type="number"
+                                min={1}
+                                max={200}
+                                defaultValue={DEFAULT_DIGEST_MAX_BYTES / 1024 / 1024}
+                                className="bg-background"
+                            />
+                        </div>
+                    </>
+                )}
+                <div className="sm:col-span-2">
+                    <LLMsTxtExportField id={`${idPrefix}-llms-txt`} />
+                </div>
+            </div>
+            <p className="mt-3 text-xs text-muted-foreground">
+                Digests merge code and text files into a few Markdown documents with a
+                directory tree and one code block per file, so a large repository
+                stays under NotebookLM's source limit. PDFs, images and media are kept
+                as separate files.
+            </p>
+        </details>
+    );
+}
+
+function describeSkip(skip: RepoFileSkip | null) {
+    if (!skip) {
+        return "";
+    }
+    switch (skip.source) {
+        case "file type":
+            return "Unsupported file type";
+        case "include":
+            return "Not matched by an include pattern";
+        case "exclude":
+            return `Exclude pattern ${skip.rule}`;
+        case "defaults":
+            return `Always skipped (${skip.rule})`;
+        case "binary":
+            return `Binary content (${skip.rule})`;
+        case "size":
+            return `Too large: ${skip.rule}`;
+        case "generated":
+            return `Generated file (${skip.rule})`;
+        case "minified":
+            return `Minified code (${skip.rule})`;
+        default:
+            return `${skip.rule} in ${skip.source}`;
+    }
+}
+
 function FilesIcon({ className }: { className?: string }) {
     return (
         <svg
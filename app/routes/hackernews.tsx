@@ -1,13 +1,60 @@
-import { Readability } from "@mozilla/readability";
-import { convert } from "html-to-text";
-import { JSDOM } from "jsdom";
-import JSZip from "jszip";
 import { Download, Loader2, Sparkles } from "lucide-react";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
 import { useFetcher } from "react-router";
-import Parser, { type Item, type Output as RssFeed } from "rss-parser";
+import {
+	BuildProgressList,
+	useBuildProgress,
+} from "../components/build-progress";
+import {
+	EntryFilterFields,
+	EntryFilterSummary,
+} from "../components/entry-filters";
+import { HttpCacheSummary } from "../components/http-cache-summary";
+import {
+	IncrementalExportFields,
+	IncrementalSummary,
+} from "../components/incremental-export";
+import {
+	LLMsTxtExportField,
+	LLMsTxtExportLinks,
+} from "../components/llms-txt-export";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import { fetchArticles, resolveEntryContent } from "../lib/article";
+import {
+	DEFAULT_POINTS_THRESHOLD,
+	HACKERNEWS_LISTS,
+	type HackerNewsList,
+	isHackerNewsList,
+	MAX_COMMENTS_PER_STORY,
+} from "../lib/builder-options";
+import { createEntryId, SourceBundle, summarizeEntry } from "../lib/bundle";
+import { createDownload } from "../lib/downloads";
+import { fetchFeed, toEntryDrafts } from "../lib/feed";
+import {
+	applyEntryFilters,
+	hasEntryFilters,
+	parseEntryFilters,
+} from "../lib/filters";
+import {
+	fetchCommentThreads,
+	getHackerNewsFeedUrl,
+	getStoryId,
+} from "../lib/hackernews";
+import { getHttpCacheStats, withHttpCacheStats } from "../lib/http-cache";
+import {
+	dropPreviousEntries,
+	parseIncrementalOptions,
+	rememberExport,
+	resolvePreviousEntries,
+} from "../lib/incremental";
+import { exportBundleAsLLMsTxt } from "../lib/llms-export";
+import {
+	type ProgressReporter,
+	reportArticleResult,
+	reportBundledEntries,
+	withProgress,
+} from "../lib/progress";
 import {
 	buildCanonicalLink,
 	buildMeta,
@@ -15,9 +62,9 @@ import {
 	siteConfig,
 } from "../lib/seo";
 import type { ActionData, FeedEntry } from "../lib/types";
+import { readBoundedInt } from "../lib/utils";
 import type { Route } from "./+types/hackernews";
 
-const HACKERNEWS_FEED = "https://hnrss.org/frontpage";
 const HACKER_NEWS_PATH = "/hackernews";
 const HACKER_NEWS_DESCRIPTION =
 	"Fetch top Hacker News stories and export them as NotebookLM-ready bundles with readable article content.";
@@ -63,32 +110,22 @@ export const links: Route.LinksFunction = () => [
 ];
 
 export const MAX_LIMIT = 40;
-
-type RssItem = Item & {
-	"content:encoded"?: string;
-	contentEncoded?: string;
-	isoDate?: string;
-};
+export const MAX_POINTS_THRESHOLD = 5000;
+export const MAX_COMMENT_DEPTH = 3;
+export const MAX_COMMENT_COUNT = 10;
 
 export async function action({ request }: Route.ActionArgs) {
 	const formData = await request.formData();
-	const limitRaw = formData.get("storyCount");
+	return withProgress(formData.get("jobId"), (progress) =>
+		withHttpCacheStats(() => buildHackerNewsBundle(formData, progress)),
+	);
+}
 
-	let feedUrl: URL;
-	try {
-		feedUrl = new URL(HACKERNEWS_FEED);
-	} catch {
-		return new Response(
-			JSON.stringify({
-				ok: false,
-				error: "The Hacker News feed URL seems to be invalid.",
-			}),
-			{
-				status: 500,
-				headers: { "Content-Type": "application/json" },
-			},
-		);
-	}
+async function buildHackerNewsBundle(
+	formData: FormData,
+	progress: ProgressReporter,
+) {
+	const limitRaw = formData.get("storyCount");
 
 	const parsedLimit = Number.parseInt(
 		typeof limitRaw === "string" ? limitRaw : "",
@@ -98,135 +135,176 @@ export async function action({ request }: Route.ActionArgs) {
 		? Math.min(Math.max(parsedLimit, 1), MAX_LIMIT)
 		: 15;
 
-	const response = await fetch(HACKERNEWS_FEED, {
-		headers: {
-			"User-Agent":
-				"NotebookLM-Source-Converter/1.0 (+https://notebooklm.google.com)",
-			Accept:
-				"application/rss+xml, application/xml, text/xml; q=0.9, */*; q=0.8",
-		},
+	const parsedFilters = parseEntryFilters(formData);
+	if (!parsedFilters.ok) {
+		return new Response(
+			JSON.stringify({ ok: false, error: parsedFilters.error }),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
+	const { filters } = parsedFilters;
+
+	const parsedIncremental = await parseIncrementalOptions(formData);
+	if (!parsedIncremental.ok) {
+		return new Response(
+			JSON.stringify({ ok: false, error: parsedIncremental.error }),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
+	const incrementalOptions = parsedIncremental.options;
+
+	const listRaw = formData.get("list");
+	const list = isHackerNewsList(listRaw) ? listRaw : "frontpage";
+	const feedUrl = getHackerNewsFeedUrl(list, {
+		points: readBoundedInt(
+			formData.get("points"),
+			DEFAULT_POINTS_THRESHOLD,
+			1,
+			MAX_POINTS_THRESHOLD,
+		),
 	});
+	const includeComments = formData.get("includeComments") === "on";
+	const commentOptions = {
+		depth: readBoundedInt(
+			formData.get("commentDepth"),
+			2,
+			1,
+			MAX_COMMENT_DEPTH,
+		),
+		count: readBoundedInt(
+			formData.get("commentCount"),
+			5,
+			1,
+			MAX_COMMENT_COUNT,
+		),
+	};
+
+	const result = await fetchFeed(feedUrl);
+	if (!result.ok) {
+		return new Response(JSON.stringify({ ok: false, error: result.error }), {
+			status: result.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
 
-	if (!response.ok) {
+	const { feed } = result;
+	const sourceTitle = feed.title ?? feedUrl.hostname;
+	const items = feed.items;
+
+	if (items.length === 0) {
 		return new Response(
 			JSON.stringify({
 				ok: false,
-				error: `We couldn’t reach that feed (status ${response.status}). Please try again later.`,
+				error:
+					"That feed didn’t include any entries. Try a different feed with recent posts.",
 			}),
-			{ status: 502, headers: { "Content-Type": "application/json" } },
+			{ status: 404, headers: { "Content-Type": "application/json" } },
 		);
 	}
 
-	const xml = await response.text();
-	const parser = new Parser({
-		customFields: {
-			item: [["content:encoded", "contentEncoded"], "summary", "isoDate"],
-		},
-	});
-
-	let feed: RssFeed<RssItem> | undefined;
-	try {
-		feed = (await parser.parseString(xml)) as RssFeed<RssItem>;
-	} catch (error) {
-		console.error("Failed to parse RSS", error);
+	const filtered = applyEntryFilters(
+		toEntryDrafts(feed, feedUrl.href),
+		filters,
+	);
+	if (filtered.drafts.length === 0) {
 		return new Response(
 			JSON.stringify({
 				ok: false,
 				error:
-					"We couldn’t understand that feed. Double-check the URL or try another feed.",
+					"None of the stories in that list matched your filters. Loosen them and try again.",
 			}),
-			{ status: 422, headers: { "Content-Type": "application/json" } },
+			{ status: 404, headers: { "Content-Type": "application/json" } },
 		);
 	}
-
-	const sourceTitle = feed.title?.trim() ?? feedUrl.hostname;
-	const items = Array.isArray(feed.items) ? feed.items : [];
-
-	if (items.length === 0) {
+	const incremental = dropPreviousEntries(
+		filtered.drafts,
+		await resolvePreviousEntries(incrementalOptions, feedUrl.href),
+	);
+	if (incremental.drafts.length === 0) {
 		return new Response(
 			JSON.stringify({
 				ok: false,
 				error:
-					"That feed didn’t include any entries. Try a different feed with recent posts.",
+					"Every story in that list was already in the previous export. There’s nothing new to bundle yet.",
 			}),
 			{ status: 404, headers: { "Content-Type": "application/json" } },
 		);
 	}
-
-	const sliced = items.slice(0, limit);
-	const entries: FeedEntry[] = [];
-
-	for (const [index, item] of sliced.entries()) {
-		const title =
-			typeof item.title === "string" && item.title.trim().length > 0
-				? item.title.trim()
-				: `Entry ${index + 1}`;
-
-		const url =
-			typeof item.link === "string" && item.link.trim().length > 0
-				? item.link
-				: (feed.link ?? feedUrl.href);
-
-		const rawHtml =
-			item.contentEncoded ??
-			item["content:encoded"] ??
-			item.content ??
-			item.summary ??
-			"";
-
-		const textContent = convert(rawHtml, {
-			selectors: [
-				{ selector: "img", format: "skip" },
-				{ selector: "a", options: { hideLinkHrefIfSameAsText: true } },
-			],
-			wordwrap: false,
-			preserveNewlines: true,
-		}).trim();
-
-		const articleContent = await fetchArticleContent(url);
-
-		entries.push({
-			id: createEntryId(index + 1, title),
-			title,
-			url,
-			publishedAt: item.isoDate ?? item.pubDate ?? null,
-			textContent:
-				articleContent ??
-				(textContent.length > 0
-					? textContent
-					: "(No body content provided by the feed)"),
-		});
+	const drafts = incremental.drafts.slice(0, limit);
+	const entryIds = drafts.map((draft, index) =>
+		createEntryId(index + 1, draft.title),
+	);
+	for (const [index, draft] of drafts.entries()) {
+		progress.item(entryIds[index], draft.title, "fetched");
 	}
 
-	const archive = await buildArchive({
-		feedTitle: sourceTitle,
-		feedDescription:
-			typeof feed.description === "string" ? feed.description : null,
-		feedUrl: feed.link ?? feedUrl.href,
+	const [articles, commentThreads] = await Promise.all([
+		fetchArticles(
+			drafts.map(({ url }) => url),
+			{
+				onResult: (article, index) =>
+					reportArticleResult(
+						progress,
+						entryIds[index],
+						drafts[index].title,
+						article,
+					),
+			},
+		),
+		includeComments
+			? fetchCommentThreads(drafts.map(getStoryId), commentOptions)
+			: null,
+	]);
+
+	const entries: FeedEntry[] = drafts.map(({ feedText, ...draft }, index) => ({
+		id: entryIds[index],
+		...draft,
+		...resolveEntryContent(articles[index], feedText),
+		comments: commentThreads?.[index],
+	}));
+
+	const feedDescription = feed.description;
+	const bundle = new SourceBundle({
+		title: sourceTitle,
+		description: feedDescription,
+		url: feed.link ?? feedUrl.href,
+		format: feed.format,
+	}).addEntries(entries);
+	if (incremental.report) {
+		bundle.setIncremental(incremental.report);
+	}
+	const archive = await bundle.toUint8Array();
+	reportBundledEntries(progress, entries);
+	await rememberExport(
+		incrementalOptions,
+		feedUrl.href,
 		entries,
-	});
+		archive.fileName,
+	);
 
 	return new Response(
 		JSON.stringify({
 			ok: true,
-			archiveBase64: archive.base64,
-			fileName: archive.fileName,
+			download: createDownload({
+				...archive,
+				contentType: "application/zip",
+			}),
 			feed: {
 				title: sourceTitle,
-				description:
-					typeof feed.description === "string" ? feed.description : null,
+				description: feedDescription,
 				url: feed.link ?? feedUrl.href,
+				format: feed.format,
 				totalEntries: items.length,
 				extractedEntries: entries.length,
 			},
-			entries: entries.map((entry) => ({
-				id: entry.id,
-				title: entry.title,
-				url: entry.url,
-				publishedAt: entry.publishedAt,
-				wordCount: countWords(entry.textContent),
-				summary: entry.textContent.slice(0, 320),
-			})),
+			filtered: hasEntryFilters(filters) ? filtered.removed : undefined,
+			incremental: incremental.report,
+			entries: entries.map(summarizeEntry),
+			llmsTxt:
+				formData.get("llmsTxt") === "on"
+					? exportBundleAsLLMsTxt(bundle)
+					: undefined,
+			cache: getHttpCacheStats(),
 		}),
 		{ status: 200, headers: { "Content-Type": "application/json" } },
 	);
@@ -234,41 +312,16 @@ export async function action({ request }: Route.ActionArgs) {
 
 export default function HackerNews() {
 	const fetcher = useFetcher<ActionData>();
+	const progress = useBuildProgress();
 	const [storyCount, setStoryCount] = useState("15");
-	const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
-	const downloadUrlRef = useRef<string | null>(null);
+	const [list, setList] = useState<HackerNewsList>("frontpage");
+	const [includeComments, setIncludeComments] = useState(false);
 
 	const isSubmitting = fetcher.state !== "idle";
 	const data = fetcher.data;
 	const errorMessage = data?.ok === false ? data.error : null;
 	const successPayload = data?.ok ? data : null;
 
-	useEffect(() => {
-		if (downloadUrlRef.current) {
-			URL.revokeObjectURL(downloadUrlRef.current);
-			downloadUrlRef.current = null;
-		}
-
-		if (successPayload?.archiveBase64) {
-			const blob = base64ToBlob(
-				successPayload.archiveBase64,
-				"application/zip",
-			);
-			const objectUrl = URL.createObjectURL(blob);
-			downloadUrlRef.current = objectUrl;
-			setDownloadUrl(objectUrl);
-		} else {
-			setDownloadUrl(null);
-		}
-
-		return () => {
-			if (downloadUrlRef.current) {
-				URL.revokeObjectURL(downloadUrlRef.current);
-				downloadUrlRef.current = null;
-			}
-		};
-	}, [successPayload]);
-
 	useEffect(() => {
 		if (fetcher.state === "idle" && fetcher.formData == null) {
 			return;
@@ -294,6 +347,16 @@ export default function HackerNews() {
 		return "Select how many stories you want and we’ll handle the rest.";
 	}, [errorMessage, isSubmitting, successPayload]);
 
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+		formData.set("jobId", progress.start());
+		fetcher.submit(formData, {
+			method: "post",
+			encType: "multipart/form-data",
+		});
+	};
+
 	return (
 		<main className="min-h-screen ">
 			<script
@@ -308,12 +371,13 @@ export default function HackerNews() {
 						<span>NotebookLM Toolkit · Hacker News Source Builder</span>
 					</div>
 					<h1 className="text-balance text-4xl font-semibold leading-tight text-foreground sm:text-5xl">
-						Turn Hacker News front page stories into a NotebookLM source.
+						Turn Hacker News stories and discussions into a NotebookLM source.
 					</h1>
 					<p className="max-w-2xl text-lg">
-						Fetch the latest front page stories from Hacker News and download a
-						ready-to-import zip bundle with clean text, metadata, and article
-						files for NotebookLM.
+						Fetch stories from the Hacker News front page, best, newest, Ask HN
+						or Show HN lists and download a ready-to-import zip bundle with
+						clean text, metadata, article files and, optionally, the comment
+						threads.
 					</p>
 				</header>
 
@@ -322,8 +386,53 @@ export default function HackerNews() {
 				>
 					<fetcher.Form
 						method="post"
+						encType="multipart/form-data"
+						onSubmit={handleSubmit}
 						className="flex flex-col gap-6 rounded-md border border-border/10 bg-card p-8 backdrop-blur text-foreground"
 					>
+						<div className="flex flex-col gap-2">
+							<label className="text-sm font-medium" htmlFor="list">
+								Which list?
+							</label>
+							<div className="flex flex-wrap items-center gap-3">
+								<select
+									id="list"
+									name="list"
+									value={list}
+									onChange={(event) =>
+										setList(event.target.value as HackerNewsList)
+									}
+									className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+								>
+									{(
+										Object.entries(HACKERNEWS_LISTS) as [
+											HackerNewsList,
+											{ label: string },
+										][]
+									).map(([value, { label }]) => (
+										<option key={value} value={value}>
+											{label}
+										</option>
+									))}
+								</select>
+								{list === "points" ? (
+									<div className="flex items-center gap-2 text-sm">
+										<label htmlFor="points">At least</label>
+										<Input
+											id="points"
+											name="points"
+											type="number"
+											min={1}
+											max={MAX_POINTS_THRESHOLD}
+											defaultValue={DEFAULT_POINTS_THRESHOLD}
+											className="w-24"
+										/>
+										points
+									</div>
+								) : null}
+							</div>
+						</div>
+
 						<div className="flex flex-col gap-2">
 							<label
 								className="text-sm font-medium text-foreground"
@@ -348,12 +457,69 @@ export default function HackerNews() {
 							</div>
 						</div>
 
+						<div className="flex items-start gap-3">
+							<input
+								id="includeComments"
+								name="includeComments"
+								type="checkbox"
+								checked={includeComments}
+								onChange={(event) => setIncludeComments(event.target.checked)}
+								className="mt-1 h-4 w-4 accent-primary"
+								aria-describedby="includeComments-help"
+							/>
+							<div className="flex flex-col gap-2">
+								<label
+									className="text-sm font-medium"
+									htmlFor="includeComments"
+								>
+									Include comment threads
+								</label>
+								<p id="includeComments-help" className="text-sm">
+									Adds each story’s top comments as a threaded Discussion
+									section under the article, up to {MAX_COMMENTS_PER_STORY}{" "}
+									comments per story.
+								</p>
+								{includeComments ? (
+									<div className="flex flex-wrap gap-4 text-sm">
+										<div className="flex items-center gap-2">
+											<label htmlFor="commentCount">Top comments</label>
+											<Input
+												id="commentCount"
+												name="commentCount"
+												type="number"
+												min={1}
+												max={MAX_COMMENT_COUNT}
+												defaultValue={5}
+												className="w-20"
+											/>
+										</div>
+										<div className="flex items-center gap-2">
+											<label htmlFor="commentDepth">Reply depth</label>
+											<Input
+												id="commentDepth"
+												name="commentDepth"
+												type="number"
+												min={1}
+												max={MAX_COMMENT_DEPTH}
+												defaultValue={2}
+												className="w-20"
+											/>
+										</div>
+									</div>
+								) : null}
+							</div>
+						</div>
+
+						<EntryFilterFields showMinWords={false} />
+
+						<IncrementalExportFields />
+
+						<LLMsTxtExportField />
+
 						<div className="flex flex-col gap-2">
 							<span className="text-sm font-medium">What happens next</span>
 							<ul className="list-disc space-y-1 pl-5 text-sm">
-								<li>
-									The top stories from the Hacker News front page are fetched.
-								</li>
+								<li>The stories from the list you picked are fetched.</li>
 								<li>
 									Each story becomes both a NotebookLM JSON source and a
 									Markdown file.
@@ -386,6 +552,17 @@ export default function HackerNews() {
 					</fetcher.Form>
 				</section>
 
+				{isSubmitting ? (
+					<section
+						className="space-y-4 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+						aria-busy="true"
+					>
+						<h2 className="text-2xl font-semibold text-white">Progress</h2>
+						<BuildProgressList items={progress.items} />
+					</section>
+				) : null}
+
 				{data ? (
 					<section
 						id="conversion-result"
@@ -414,7 +591,10 @@ export default function HackerNews() {
 											{successPayload.feed.description}
 										</p>
 										<a
-											href={successPayload.feed.url}
+											href={
+												successPayload.feed.url ??
+												"https://news.ycombinator.com"
+											}
 											target="_blank"
 											rel="noreferrer"
 											className="mt-2 inline-flex items-center gap-2 text-sm font-medium text-emerald-200 underline decoration-dotted underline-offset-4 transition hover:text-emerald-50"
@@ -435,15 +615,25 @@ export default function HackerNews() {
 											</strong>{" "}
 											stories.
 										</p>
-										{downloadUrl ? (
-											<a
-												href={downloadUrl}
-												download={successPayload.fileName}
-												className="inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-300 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-100"
-											>
-												<Download className="h-4 w-4" aria-hidden="true" />
-												Download NotebookLM bundle
-											</a>
+										{successPayload.filtered ? (
+											<EntryFilterSummary report={successPayload.filtered} />
+										) : null}
+										{successPayload.incremental ? (
+											<IncrementalSummary report={successPayload.incremental} />
+										) : null}
+										<a
+											href={successPayload.download.url}
+											download={successPayload.download.fileName}
+											className="inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-300 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-100"
+										>
+											<Download className="h-4 w-4" aria-hidden="true" />
+											Download NotebookLM bundle
+										</a>
+										{successPayload.llmsTxt ? (
+											<LLMsTxtExportLinks exported={successPayload.llmsTxt} />
+										) : null}
+										{successPayload.cache ? (
+											<HttpCacheSummary stats={successPayload.cache} />
 										) : null}
 									</div>
 								</div>
@@ -463,9 +653,21 @@ export default function HackerNews() {
 														<p className="text-base font-semibold text-white">
 															{entry.title}
 														</p>
-														<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
-															{entry.wordCount.toLocaleString()} words
-														</span>
+														<div className="flex items-center gap-2">
+															<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																{entry.contentSource === "article"
+																	? "Full article"
+																	: "Feed body"}
+															</span>
+															<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																{entry.wordCount.toLocaleString()} words
+															</span>
+															{entry.commentCount > 0 ? (
+																<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																	{entry.commentCount} comments
+																</span>
+															) : null}
+														</div>
 													</div>
 													<p className="text-xs uppercase tracking-wide text-slate-300">
 														{entry.publishedAt
@@ -476,6 +678,15 @@ export default function HackerNews() {
 														{entry.summary}
 														{entry.summary.length >= 320 ? "…" : ""}
 													</p>
+													{entry.fetchFailure ? (
+														<p className="text-xs text-amber-200">
+															{entry.fetchFailure.reason === "timeout"
+																? "Article fetch timed out"
+																: "Article unavailable"}
+															: {entry.fetchFailure.message}. Using the feed
+															body instead.
+														</p>
+													) : null}
 													<a
 														href={entry.url}
 														target="_blank"
@@ -502,129 +713,3 @@ export default function HackerNews() {
 		</main>
 	);
 }
-
-function base64ToBlob(base64: string, mimeType: string) {
-	const byteCharacters = atob(base64);
-	const sliceSize = 1024;
-	const slicesCount = Math.ceil(byteCharacters.length / sliceSize);
-	const byteArrays: BlobPart[] = [];
-
-	for (let sliceIndex = 0; sliceIndex < slicesCount; sliceIndex++) {
-		const begin = sliceIndex * sliceSize;
-		const end = Math.min(begin + sliceSize, byteCharacters.length);
-		const bytes = new Array<number>(end - begin);
-
-		for (let offset = begin, i = 0; offset < end; offset += 1, i += 1) {
-			bytes[i] = byteCharacters.charCodeAt(offset);
-		}
-
-		byteArrays.push(new Uint8Array(bytes));
-	}
-
-	return new Blob(byteArrays, { type: mimeType });
-}
-function createEntryId(index: number, title: string) {
-	const safeTitle = title
-		.toLowerCase()
-		.normalize("NFD")
-		.replace(/[^\p{Letter}\p{Number}]+/gu, "-")
-		.replace(/-+/g, "-")
-		.replace(/^-|-$/g, "");
-	const short = safeTitle.slice(0, 48);
-	return `${index.toString().padStart(2, "0")}-${short.length > 0 ? short : "entry"}`;
-}
-async function buildArchive({
-	feedTitle,
-	feedDescription,
-	feedUrl,
-	entries,
-}: {
-	feedTitle: string;
-	feedDescription: string | null;
-	feedUrl: string;
-	entries: FeedEntry[];
-}) {
-	const zip = new JSZip();
-	const nowIso = new Date().toISOString();
-	const manifest = {
-		$schema: "https://notebooklm.google.com/schemas/source-bundle.v1.json",
-		generatedAt: nowIso,
-		feed: {
-			title: feedTitle,
-			description: feedDescription,
-			url: feedUrl,
-		},
-		entries: entries.map((entry) => ({
-			id: entry.id,
-			title: entry.title,
-			url: entry.url,
-			publishedAt: entry.publishedAt,
-			wordCount: countWords(entry.textContent),
-			file: `${entry.id}.md`,
-		})),
-	};
-	zip.file("manifest.json", JSON.stringify(manifest, null, 2));
-	for (const entry of entries) {
-		const headerLines = [
-			`# ${entry.title}`,
-			entry.publishedAt ? `Published: ${entry.publishedAt}` : null,
-			`Source: ${entry.url}`,
-			"",
-		].filter(Boolean);
-		const body = `${headerLines.join("\n")}\n${entry.textContent}\n`;
-		zip.file(`${entry.id}.md`, body);
-	}
-	const summary = {
-		version: 1,
-		createdAt: nowIso,
-		entries: entries.map((entry) => ({
-			id: entry.id,
-			title: entry.title,
-			url: entry.url,
-			publishedAt: entry.publishedAt,
-			text: entry.textContent,
-		})),
-	};
-	zip.file("sources.json", JSON.stringify(summary, null, 2));
-	const buffer = await zip.generateAsync({ type: "nodebuffer" });
-	const fileName = `${slugify(feedTitle)}-${nowIso.slice(0, 10)}.zip`;
-	return {
-		base64: buffer.toString("base64"),
-		fileName,
-	};
-}
-function slugify(input: string) {
-	const normalized = input
-		.toLowerCase()
-		.normalize("NFD")
-		.replace(/[^\p{Letter}\p{Number}]+/gu, "-")
-		.replace(/-+/g, "-")
-		.replace(/^-|-$/g, "");
-	return normalized.length > 0 ? normalized : "notebooklm-source";
-}
-function countWords(text: string) {
-	return text.split(/\s+/).filter(Boolean).length;
-}
-
-async function fetchArticleContent(url: string): Promise<string | null> {
-	try {
-		const response = await fetch(url, {
-			headers: {
-				"User-Agent":
-					"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/58.0.3029.110 Safari/537.36",
-			},
-		});
-		if (!response.ok) {
-			console.error(`Failed to fetch article: ${response.statusText}`);
-			return null;
-		}
-		const html = await response.text();
-		const dom = new JSDOM(html, { url });
-		const reader = new Readability(dom.window.document);
-		const article = reader.parse();
-		return article?.textContent ?? null;
-	} catch (error) {
-		console.error("Error fetching or parsing article:", error);
-		return null;
-	}
-}
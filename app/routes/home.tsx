@@ -1,21 +1,83 @@
-import { convert } from "html-to-text";
-import JSZip from "jszip";
 import { Download, Loader2, Sparkles } from "lucide-react";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { type FormEvent, useEffect, useMemo, useRef, useState } from "react";
 import { useFetcher } from "react-router";
-import Parser, { type Item, type Output as RssFeed } from "rss-parser";
+import {
+	BuildProgressList,
+	useBuildProgress,
+} from "../components/build-progress";
+import {
+	EntryFilterFields,
+	EntryFilterSummary,
+} from "../components/entry-filters";
+import { HttpCacheSummary } from "../components/http-cache-summary";
+import {
+	IncrementalExportFields,
+	IncrementalSummary,
+} from "../components/incremental-export";
+import {
+	LLMsTxtExportField,
+	LLMsTxtExportLinks,
+} from "../components/llms-txt-export";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import { fetchArticles, resolveEntryContent } from "../lib/article";
+import { createEntryId, SourceBundle, summarizeEntry } from "../lib/bundle";
+import { createDownload } from "../lib/downloads";
+import { type FeedEntryDraft, fetchFeed, toEntryDrafts } from "../lib/feed";
+import { scheduleFetches } from "../lib/fetch-scheduler";
+import {
+	applyEntryFilters,
+	type EntryFilters,
+	hasEntryFilters,
+	mergeFilterReports,
+	parseEntryFilters,
+} from "../lib/filters";
+import { getHttpCacheStats, withHttpCacheStats } from "../lib/http-cache";
+import {
+	dropPreviousEntries,
+	type IncrementalOptions,
+	parseIncrementalOptions,
+	rememberExport,
+	resolvePreviousEntries,
+} from "../lib/incremental";
+import { exportBundleAsLLMsTxt } from "../lib/llms-export";
+import { fetchOpml, type OpmlDocument, parseOpml } from "../lib/opml";
+import {
+	type ProgressReporter,
+	reportArticleResult,
+	reportBundledEntries,
+	withProgress,
+} from "../lib/progress";
 import {
 	buildCanonicalLink,
 	buildMeta,
 	getCanonicalUrl,
 	siteConfig,
 } from "../lib/seo";
-import type { ActionData, FeedEntry } from "../lib/types";
+import type {
+	ActionData,
+	DroppedDuplicate,
+	EntryFilterReport,
+	FeedEntry,
+	FeedGroup,
+	FeedGroupSummary,
+	SourceFormat,
+} from "../lib/types";
 import type { Route } from "./+types/home";
 
 const SAMPLE_FEED = "https://hnrss.org/frontpage";
+const FEED_FORMAT_LABELS: Record<SourceFormat, string> = {
+	rss: "RSS 2.0",
+	rdf: "RSS 1.0",
+	atom: "Atom",
+	json: "JSON Feed",
+	opml: "OPML reading list",
+	reddit: "Reddit",
+	youtube: "YouTube",
+	documents: "Documents",
+	sitemap: "Sitemap crawl",
+	llmstxt: "llms.txt",
+};
 const HOME_PATH = "/";
 const HOME_DESCRIPTION =
 	"Convert any RSS feed into a structured NotebookLM source bundle with clean text, metadata, and Markdown exports.";
@@ -58,18 +120,60 @@ export function meta(_args: Route.MetaArgs) {
 export const links: Route.LinksFunction = () => [buildCanonicalLink(HOME_PATH)];
 
 export const MAX_LIMIT = 40;
-
-type RssItem = Item & {
-	"content:encoded"?: string;
-	contentEncoded?: string;
-	isoDate?: string;
-};
+export const MAX_OPML_FEEDS = 50;
 
 export async function action({ request }: Route.ActionArgs) {
 	const formData = await request.formData();
-	const feedUrlRaw = formData.get("feedUrl");
+	return withProgress(formData.get("jobId"), (progress) =>
+		withHttpCacheStats(() => buildFeedBundle(formData, progress)),
+	);
+}
+
+/**
+ * Build a bundle from one feed, or from every feed of an OPML reading list
+ * when the form is in OPML mode.
+ */
+async function buildFeedBundle(formData: FormData, progress: ProgressReporter) {
 	const limitRaw = formData.get("limit");
+	const fetchFullArticle = formData.get("fullArticle") === "on";
+
+	const parsedLimit = Number.parseInt(
+		typeof limitRaw === "string" ? limitRaw : "",
+		10,
+	);
+	const limit = Number.isInteger(parsedLimit)
+		? Math.min(Math.max(parsedLimit, 1), MAX_LIMIT)
+		: 15;
+
+	const parsedFilters = parseEntryFilters(formData);
+	if (!parsedFilters.ok) {
+		return new Response(
+			JSON.stringify({ ok: false, error: parsedFilters.error }),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
+	const { filters } = parsedFilters;
+
+	const parsedIncremental = await parseIncrementalOptions(formData);
+	if (!parsedIncremental.ok) {
+		return new Response(
+			JSON.stringify({ ok: false, error: parsedIncremental.error }),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
+	const incrementalOptions = parsedIncremental.options;
+
+	if (formData.get("mode") === "opml") {
+		return buildOpmlBundle(formData, {
+			limit,
+			fetchFullArticle,
+			filters,
+			incrementalOptions,
+			progress,
+		});
+	}
 
+	const feedUrlRaw = formData.get("feedUrl");
 	if (typeof feedUrlRaw !== "string" || feedUrlRaw.trim().length === 0) {
 		return new Response(
 			JSON.stringify({ ok: false, error: "Please enter an RSS feed URL." }),
@@ -96,140 +200,409 @@ export async function action({ request }: Route.ActionArgs) {
 		);
 	}
 
-	const parsedLimit = Number.parseInt(
-		typeof limitRaw === "string" ? limitRaw : "",
-		10,
-	);
-	const limit = Number.isInteger(parsedLimit)
-		? Math.min(Math.max(parsedLimit, 1), MAX_LIMIT)
-		: 15;
+	const result = await fetchFeed(feedUrl, { discover: true });
+	if (!result.ok) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: result.error,
+				feedCandidates: result.candidates,
+			}),
+			{
+				status: result.status,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
 
-	const response = await fetch(feedUrl, {
-		headers: {
-			"User-Agent":
-				"NotebookLM-Source-Converter/1.0 (+https://notebooklm.google.com)",
-			Accept:
-				"application/rss+xml, application/xml, text/xml; q=0.9, */*; q=0.8",
-		},
-	});
+	const { feed } = result;
+	// Discovery may have swapped the pasted page for the feed it advertises.
+	const resolvedFeedUrl = result.feedUrl;
+	const sourceTitle = feed.title ?? feedUrl.hostname;
+	const items = feed.items;
 
-	if (!response.ok) {
+	if (items.length === 0) {
 		return new Response(
 			JSON.stringify({
 				ok: false,
-				error: `We couldn’t reach that feed (status ${response.status}). Please try again later.`,
+				error:
+					"That feed didn’t include any entries. Try a different feed with recent posts.",
 			}),
-			{ status: 502, headers: { "Content-Type": "application/json" } },
+			{ status: 404, headers: { "Content-Type": "application/json" } },
 		);
 	}
 
-	const xml = await response.text();
-	const parser = new Parser({
-		customFields: {
-			item: [["content:encoded", "contentEncoded"], "summary", "isoDate"],
-		},
-	});
-
-	let feed: RssFeed<RssItem> | undefined;
-	try {
-		feed = (await parser.parseString(xml)) as RssFeed<RssItem>;
-	} catch (error) {
-		console.error("Failed to parse RSS", error);
+	const filtered = applyEntryFilters(
+		toEntryDrafts(feed, resolvedFeedUrl),
+		filters,
+	);
+	if (filtered.drafts.length === 0) {
 		return new Response(
 			JSON.stringify({
 				ok: false,
 				error:
-					"We couldn’t understand that feed. Double-check the URL or try another feed.",
+					"None of the feed entries matched your filters. Loosen them and try again.",
 			}),
-			{ status: 422, headers: { "Content-Type": "application/json" } },
+			{ status: 404, headers: { "Content-Type": "application/json" } },
+		);
+	}
+	const incremental = dropPreviousEntries(
+		filtered.drafts,
+		await resolvePreviousEntries(incrementalOptions, resolvedFeedUrl),
+	);
+	if (incremental.drafts.length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error:
+					"Every entry of the feed was already in the previous export. There’s nothing new to bundle yet.",
+			}),
+			{ status: 404, headers: { "Content-Type": "application/json" } },
 		);
 	}
+	const drafts = incremental.drafts.slice(0, limit);
+	const entryIds = drafts.map((draft, index) =>
+		createEntryId(index + 1, draft.title),
+	);
+	for (const [index, draft] of drafts.entries()) {
+		progress.item(entryIds[index], draft.title, "fetched");
+	}
 
-	const sourceTitle = feed.title?.trim() ?? feedUrl.hostname;
-	const items = Array.isArray(feed.items) ? feed.items : [];
+	const articles = fetchFullArticle
+		? await fetchArticles(
+				drafts.map(({ url }) => url),
+				{
+					onResult: (article, index) =>
+						reportArticleResult(
+							progress,
+							entryIds[index],
+							drafts[index].title,
+							article,
+						),
+				},
+			)
+		: null;
 
-	if (items.length === 0) {
+	const entries: FeedEntry[] = drafts.map(({ feedText, ...draft }, index) => ({
+		id: entryIds[index],
+		...draft,
+		...resolveEntryContent(articles?.[index] ?? null, feedText),
+	}));
+
+	const feedDescription = feed.description;
+	const bundle = new SourceBundle({
+		title: sourceTitle,
+		description: feedDescription,
+		url: feed.link ?? resolvedFeedUrl,
+		format: feed.format,
+	}).addEntries(entries);
+	if (incremental.report) {
+		bundle.setIncremental(incremental.report);
+	}
+	const archive = await bundle.toUint8Array();
+	reportBundledEntries(progress, entries);
+	await rememberExport(
+		incrementalOptions,
+		resolvedFeedUrl,
+		entries,
+		archive.fileName,
+	);
+
+	return new Response(
+		JSON.stringify({
+			ok: true,
+			download: createDownload({
+				...archive,
+				contentType: "application/zip",
+			}),
+			feed: {
+				title: sourceTitle,
+				description: feedDescription,
+				url: feed.link ?? resolvedFeedUrl,
+				format: feed.format,
+				totalEntries: items.length,
+				extractedEntries: entries.length,
+			},
+			filtered: hasEntryFilters(filters) ? filtered.removed : undefined,
+			incremental: incremental.report,
+			entries: entries.map(summarizeEntry),
+			llmsTxt:
+				formData.get("llmsTxt") === "on"
+					? exportBundleAsLLMsTxt(bundle)
+					: undefined,
+			cache: getHttpCacheStats(),
+		}),
+		{ status: 200, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+/**
+ * Build one bundle from every feed of an OPML reading list, uploaded or
+ * fetched from a URL. `limit` applies per feed, and each feed becomes a group
+ * in the manifest whose OPML folders are carried over as entry tags.
+ */
+async function buildOpmlBundle(
+	formData: FormData,
+	{
+		limit,
+		fetchFullArticle,
+		filters,
+		incrementalOptions,
+		progress,
+	}: {
+		limit: number;
+		fetchFullArticle: boolean;
+		filters: EntryFilters;
+		incrementalOptions: IncrementalOptions;
+		progress: ProgressReporter;
+	},
+) {
+	const opmlFile = formData.get("opmlFile");
+	const opmlUrlRaw = formData.get("opmlUrl");
+
+	let opml: OpmlDocument;
+	let opmlUrl: string | null = null;
+	if (opmlFile instanceof File && opmlFile.size > 0) {
+		try {
+			opml = parseOpml(await opmlFile.text());
+		} catch (error) {
+			console.error("Failed to parse OPML upload", error);
+			return new Response(
+				JSON.stringify({
+					ok: false,
+					error:
+						"We couldn’t understand that OPML file. Export it again from your feed reader and retry.",
+				}),
+				{ status: 422, headers: { "Content-Type": "application/json" } },
+			);
+		}
+	} else if (typeof opmlUrlRaw === "string" && opmlUrlRaw.trim().length > 0) {
+		let url: URL;
+		try {
+			url = new URL(opmlUrlRaw.trim());
+		} catch {
+			return new Response(
+				JSON.stringify({
+					ok: false,
+					error: "That doesn’t look like a valid URL.",
+				}),
+				{ status: 422, headers: { "Content-Type": "application/json" } },
+			);
+		}
+		const result = await fetchOpml(url);
+		if (!result.ok) {
+			return new Response(JSON.stringify({ ok: false, error: result.error }), {
+				status: result.status,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+		opml = result.opml;
+		opmlUrl = url.href;
+	} else {
 		return new Response(
 			JSON.stringify({
 				ok: false,
-				error:
-					"That feed didn’t include any entries. Try a different feed with recent posts.",
+				error: "Please upload an OPML file or enter its URL.",
+			}),
+			{ status: 400, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	if (opml.feeds.length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: "That OPML file doesn’t list any feeds.",
 			}),
 			{ status: 404, headers: { "Content-Type": "application/json" } },
 		);
 	}
+	if (opml.feeds.length > MAX_OPML_FEEDS) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: `That OPML file lists ${opml.feeds.length} feeds. Split it into lists of at most ${MAX_OPML_FEEDS} feeds.`,
+			}),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
 
-	const sliced = items.slice(0, limit);
-	const entries: FeedEntry[] = [];
+	const results = await scheduleFetches(
+		opml.feeds.map(({ xmlUrl }) => xmlUrl),
+		(url, signal) => fetchFeed(new URL(url), { signal }),
+		undefined,
+		(scheduled, index) => {
+			const { title, xmlUrl } = opml.feeds[index];
+			const error = scheduled.ok
+				? scheduled.value.ok
+					? null
+					: scheduled.value.error
+				: scheduled.error;
+			progress.item(
+				`feed:${xmlUrl}`,
+				title ?? xmlUrl,
+				error ? "failed" : "fetched",
+				error,
+			);
+		},
+	);
 
-	for (const [index, item] of sliced.entries()) {
+	// Uploaded lists have no URL, so their stored state is keyed by title.
+	const stateSource = opmlUrl ?? `opml:${opml.title ?? "OPML reading list"}`;
+	const previous = await resolvePreviousEntries(
+		incrementalOptions,
+		stateSource,
+	);
+	const groups: FeedGroupSummary[] = [];
+	const drafts: FeedEntryDraft[] = [];
+	const filterReports: EntryFilterReport[] = [];
+	const droppedDuplicates: DroppedDuplicate[] = [];
+	for (const [index, outline] of opml.feeds.entries()) {
+		const scheduled = results[index];
+		const result = scheduled.ok
+			? scheduled.value
+			: {
+					ok: false as const,
+					error:
+						scheduled.reason === "timeout"
+							? "The feed took too long to respond."
+							: scheduled.error,
+				};
+		const feed = result.ok ? result.feed : null;
 		const title =
-			typeof item.title === "string" && item.title.trim().length > 0
-				? item.title.trim()
-				: `Entry ${index + 1}`;
-
-		const url =
-			typeof item.link === "string" && item.link.trim().length > 0
-				? item.link
-				: (feed.link ?? feedUrl.href);
-
-		const rawHtml =
-			item.contentEncoded ??
-			item["content:encoded"] ??
-			item.content ??
-			item.summary ??
-			"";
-
-		const textContent = convert(rawHtml, {
-			selectors: [
-				{ selector: "img", format: "skip" },
-				{ selector: "a", options: { hideLinkHrefIfSameAsText: true } },
-			],
-			wordwrap: false,
-			preserveNewlines: true,
-		}).trim();
-
-		entries.push({
+			feed?.title ?? outline.title ?? new URL(outline.xmlUrl).hostname;
+		const group: FeedGroup = {
 			id: createEntryId(index + 1, title),
 			title,
-			url,
-			publishedAt: item.isoDate ?? item.pubDate ?? null,
-			textContent:
-				textContent.length > 0
-					? textContent
-					: "(No body content provided by the feed)",
+			url: outline.xmlUrl,
+			format: feed?.format ?? null,
+			tags: outline.tags,
+		};
+		const filtered = result.ok
+			? applyEntryFilters(toEntryDrafts(result.feed, result.feedUrl), filters)
+			: null;
+		if (filtered) {
+			filterReports.push(filtered.removed);
+		}
+		const incremental = dropPreviousEntries(filtered?.drafts ?? [], previous);
+		droppedDuplicates.push(...(incremental.report?.droppedDuplicates ?? []));
+		const groupDrafts = incremental.drafts.slice(0, limit);
+		for (const draft of groupDrafts) {
+			drafts.push({ ...draft, group: group.id, tags: outline.tags });
+		}
+		groups.push({
+			...group,
+			totalEntries: feed?.items.length ?? 0,
+			extractedEntries: groupDrafts.length,
+			error: result.ok ? null : result.error,
 		});
 	}
 
-	const archive = await buildArchive({
-		feedTitle: sourceTitle,
-		feedDescription:
-			typeof feed.description === "string" ? feed.description : null,
-		feedUrl: feed.link ?? feedUrl.href,
-		entries,
+	if (drafts.length === 0) {
+		// Like a single feed, nothing new or nothing matching is a 404; only
+		// feeds that returned nothing at all point at an upstream problem.
+		const nothingNew = droppedDuplicates.length > 0;
+		const nothingMatched = filterReports.length > 0 && hasEntryFilters(filters);
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: nothingNew
+					? "Every entry of those feeds was already in the previous export. There’s nothing new to bundle yet."
+					: nothingMatched
+						? "None of the entries in that OPML file matched your filters. Loosen them and try again."
+						: "None of the feeds in that OPML file returned any entries. Check the list and try again.",
+			}),
+			{
+				status: nothingNew || nothingMatched ? 404 : 502,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+
+	const entryIds = drafts.map((draft, index) =>
+		createEntryId(index + 1, draft.title),
+	);
+	for (const [index, draft] of drafts.entries()) {
+		progress.item(entryIds[index], draft.title, "fetched");
+	}
+
+	const articles = fetchFullArticle
+		? await fetchArticles(
+				drafts.map(({ url }) => url),
+				{
+					onResult: (article, index) =>
+						reportArticleResult(
+							progress,
+							entryIds[index],
+							drafts[index].title,
+							article,
+						),
+				},
+			)
+		: null;
+
+	const entries: FeedEntry[] = drafts.map(({ feedText, ...draft }, index) => ({
+		id: entryIds[index],
+		...draft,
+		...resolveEntryContent(articles?.[index] ?? null, feedText),
+	}));
+
+	const sourceTitle = opml.title ?? "OPML reading list";
+	const fetchedGroups = groups.filter((group) => group.error === null);
+	const description = `Built from ${fetchedGroups.length} of ${groups.length} feeds in an OPML reading list.`;
+	const bundle = new SourceBundle({
+		title: sourceTitle,
+		description,
+		url: opmlUrl,
+		format: "opml",
 	});
+	for (const { id, title, url, format, tags } of fetchedGroups) {
+		bundle.addGroup({ id, title, url, format, tags });
+	}
+	const incremental = previous
+		? { previousBundle: previous.reference, droppedDuplicates }
+		: undefined;
+	if (incremental) {
+		bundle.setIncremental(incremental);
+	}
+	const archive = await bundle.addEntries(entries).toUint8Array();
+	reportBundledEntries(progress, entries);
+	await rememberExport(
+		incrementalOptions,
+		stateSource,
+		entries,
+		archive.fileName,
+	);
 
 	return new Response(
 		JSON.stringify({
 			ok: true,
-			archiveBase64: archive.base64,
-			fileName: archive.fileName,
+			download: createDownload({
+				...archive,
+				contentType: "application/zip",
+			}),
 			feed: {
 				title: sourceTitle,
-				description:
-					typeof feed.description === "string" ? feed.description : null,
-				url: feed.link ?? feedUrl.href,
-				totalEntries: items.length,
+				description,
+				url: opmlUrl,
+				format: "opml",
+				totalEntries: groups.reduce(
+					(total, group) => total + group.totalEntries,
+					0,
+				),
 				extractedEntries: entries.length,
 			},
-			entries: entries.map((entry) => ({
-				id: entry.id,
-				title: entry.title,
-				url: entry.url,
-				publishedAt: entry.publishedAt,
-				wordCount: countWords(entry.textContent),
-				summary: entry.textContent.slice(0, 320),
-			})),
+			feeds: groups,
+			filtered: hasEntryFilters(filters)
+				? mergeFilterReports(filterReports)
+				: undefined,
+			incremental,
+			entries: entries.map(summarizeEntry),
+			llmsTxt:
+				formData.get("llmsTxt") === "on"
+					? exportBundleAsLLMsTxt(bundle)
+					: undefined,
+			cache: getHttpCacheStats(),
 		}),
 		{ status: 200, headers: { "Content-Type": "application/json" } },
 	);
@@ -237,42 +610,20 @@ export async function action({ request }: Route.ActionArgs) {
 
 export default function Home() {
 	const fetcher = useFetcher<ActionData>();
+	const [mode, setMode] = useState<"feed" | "opml">("feed");
 	const [feedUrl, setFeedUrl] = useState("");
+	const [opmlUrl, setOpmlUrl] = useState("");
 	const [limit, setLimit] = useState("15");
-	const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
-	const downloadUrlRef = useRef<string | null>(null);
+	const [fullArticle, setFullArticle] = useState(false);
+	const formRef = useRef<HTMLFormElement>(null);
+	const progress = useBuildProgress();
 
 	const isSubmitting = fetcher.state !== "idle";
 	const data = fetcher.data;
 	const errorMessage = data?.ok === false ? data.error : null;
+	const feedCandidates = data?.ok === false ? (data.feedCandidates ?? []) : [];
 	const successPayload = data?.ok ? data : null;
 
-	useEffect(() => {
-		if (downloadUrlRef.current) {
-			URL.revokeObjectURL(downloadUrlRef.current);
-			downloadUrlRef.current = null;
-		}
-
-		if (successPayload?.archiveBase64) {
-			const blob = base64ToBlob(
-				successPayload.archiveBase64,
-				"application/zip",
-			);
-			const objectUrl = URL.createObjectURL(blob);
-			downloadUrlRef.current = objectUrl;
-			setDownloadUrl(objectUrl);
-		} else {
-			setDownloadUrl(null);
-		}
-
-		return () => {
-			if (downloadUrlRef.current) {
-				URL.revokeObjectURL(downloadUrlRef.current);
-				downloadUrlRef.current = null;
-			}
-		};
-	}, [successPayload]);
-
 	useEffect(() => {
 		if (fetcher.state === "idle" && fetcher.formData == null) {
 			return;
@@ -295,9 +646,32 @@ export default function Home() {
 		if (errorMessage) {
 			return "We ran into an issue. See the message below.";
 		}
-		return "Paste a feed URL and we’ll handle the rest.";
+		return "Paste a feed or website URL and we’ll handle the rest.";
 	}, [errorMessage, isSubmitting, successPayload]);
 
+	const submitWithProgress = (formData: FormData) => {
+		formData.set("jobId", progress.start());
+		fetcher.submit(formData, {
+			method: "post",
+			encType: "multipart/form-data",
+		});
+	};
+
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		submitWithProgress(new FormData(event.currentTarget));
+	};
+
+	const handlePickCandidate = (candidateUrl: string) => {
+		if (!formRef.current) {
+			return;
+		}
+		setFeedUrl(candidateUrl);
+		const formData = new FormData(formRef.current);
+		formData.set("feedUrl", candidateUrl);
+		submitWithProgress(formData);
+	};
+
 	return (
 		<main className="min-h-screen ">
 			<script
@@ -325,43 +699,103 @@ export default function Home() {
 					className={`grid gap-10 ${data ? "" : "lg:grid-cols-[1.2fr,0.8fr]"}`}
 				>
 					<fetcher.Form
+						ref={formRef}
 						method="post"
+						encType="multipart/form-data"
+						onSubmit={handleSubmit}
 						className="flex flex-col gap-6 rounded-md border border-border/10 bg-card p-8 backdrop-blur text-foreground"
 					>
-						<div className="flex flex-col gap-2">
-							<label
-								className="text-sm font-medium text-foreground"
-								htmlFor="feedUrl"
+						<input type="hidden" name="mode" value={mode} />
+						<fieldset className="flex gap-2">
+							<legend className="sr-only">Source type</legend>
+							<Button
+								type="button"
+								variant={mode === "feed" ? "default" : "outline"}
+								aria-pressed={mode === "feed"}
+								onClick={() => setMode("feed")}
 							>
-								RSS feed URL
-							</label>
-							<Input
-								id="feedUrl"
-								name="feedUrl"
-								value={feedUrl}
-								onChange={(event) => setFeedUrl(event.target.value)}
-								required
-								type="url"
-								placeholder="https://example.com/feed"
-								aria-describedby="feedUrl-help"
-							/>
-							<p id="feedUrl-help" className="text-sm">
-								Need inspiration? Try the{" "}
-								<Button
-									type="button"
-									onClick={() => setFeedUrl(SAMPLE_FEED)}
-									variant="link"
-									className="p-0 h-auto"
+								Single feed
+							</Button>
+							<Button
+								type="button"
+								variant={mode === "opml" ? "default" : "outline"}
+								aria-pressed={mode === "opml"}
+								onClick={() => setMode("opml")}
+							>
+								OPML reading list
+							</Button>
+						</fieldset>
+
+						{mode === "feed" ? (
+							<div className="flex flex-col gap-2">
+								<label
+									className="text-sm font-medium text-foreground"
+									htmlFor="feedUrl"
 								>
-									Hacker News front page feed
-								</Button>{" "}
-								or any site that offers RSS.
-							</p>
-						</div>
+									RSS feed URL
+								</label>
+								<Input
+									id="feedUrl"
+									name="feedUrl"
+									value={feedUrl}
+									onChange={(event) => setFeedUrl(event.target.value)}
+									required
+									type="url"
+									placeholder="https://example.com/feed"
+									aria-describedby="feedUrl-help"
+								/>
+								<p id="feedUrl-help" className="text-sm">
+									Need inspiration? Try the{" "}
+									<Button
+										type="button"
+										onClick={() => setFeedUrl(SAMPLE_FEED)}
+										variant="link"
+										className="p-0 h-auto"
+									>
+										Hacker News front page feed
+									</Button>{" "}
+									or any site that offers RSS, Atom or JSON Feed.
+								</p>
+							</div>
+						) : (
+							<div className="flex flex-col gap-4">
+								<div className="flex flex-col gap-2">
+									<label className="text-sm font-medium" htmlFor="opmlFile">
+										OPML file
+									</label>
+									<Input
+										id="opmlFile"
+										name="opmlFile"
+										type="file"
+										accept=".opml,.xml,text/x-opml,application/xml,text/xml"
+									/>
+								</div>
+								<div className="flex flex-col gap-2">
+									<label className="text-sm font-medium" htmlFor="opmlUrl">
+										…or OPML URL
+									</label>
+									<Input
+										id="opmlUrl"
+										name="opmlUrl"
+										value={opmlUrl}
+										onChange={(event) => setOpmlUrl(event.target.value)}
+										type="url"
+										placeholder="https://example.com/subscriptions.opml"
+										aria-describedby="opml-help"
+									/>
+									<p id="opml-help" className="text-sm">
+										Every feed in the list is fetched and packed into one
+										bundle. Folders from your feed reader become tags.
+									</p>
+								</div>
+							</div>
+						)}
 
 						<div className="flex flex-col gap-2">
 							<label className="text-sm font-medium" htmlFor="limit">
-								How many recent entries?
+								{mode === "opml"
+									? "How many recent entries per feed?"
+									: "How many recent entries?"}
 							</label>
 							<div className="flex items-center gap-3">
 								<Input
@@ -381,6 +815,34 @@ export default function Home() {
 							</div>
 						</div>
 
+						<div className="flex items-start gap-3">
+							<input
+								id="fullArticle"
+								name="fullArticle"
+								type="checkbox"
+								checked={fullArticle}
+								onChange={(event) => setFullArticle(event.target.checked)}
+								className="mt-1 h-4 w-4 accent-primary"
+								aria-describedby="fullArticle-help"
+							/>
+							<div className="flex flex-col gap-1">
+								<label className="text-sm font-medium" htmlFor="fullArticle">
+									Fetch full articles
+								</label>
+								<p id="fullArticle-help" className="text-sm">
+									Follow each entry link and extract the article with
+									Readability. Entries fall back to the feed body when
+									extraction fails.
+								</p>
+							</div>
+						</div>
+
+						<EntryFilterFields />
+
+						<IncrementalExportFields />
+
+						<LLMsTxtExportField />
+
 						<div className="flex flex-col gap-2">
 							<span className="text-sm font-medium">What happens next</span>
 							<ul className="list-disc space-y-1 pl-5 text-sm">
@@ -419,6 +881,17 @@ export default function Home() {
 					</fetcher.Form>
 				</section>
 
+				{isSubmitting ? (
+					<section
+						className="space-y-4 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+						aria-busy="true"
+					>
+						<h2 className="text-2xl font-semibold text-white">Progress</h2>
+						<BuildProgressList items={progress.items} />
+					</section>
+				) : null}
+
 				{data ? (
 					<section
 						id="conversion-result"
@@ -432,13 +905,37 @@ export default function Home() {
 							<div className="rounded-2xl border border-red-400/60 bg-red-500/10 p-5 text-red-200">
 								<p className="font-medium">We hit a snag.</p>
 								<p className="mt-1 text-sm text-red-100">{errorMessage}</p>
+								{feedCandidates.length > 0 ? (
+									<ul className="mt-4 space-y-2">
+										{feedCandidates.map((candidate) => (
+											<li key={candidate.url}>
+												<Button
+													type="button"
+													variant="outline"
+													className="h-auto w-full justify-start whitespace-normal text-left"
+													disabled={isSubmitting}
+													onClick={() => handlePickCandidate(candidate.url)}
+												>
+													<span className="flex flex-col">
+														<span className="font-medium">
+															{candidate.title ?? candidate.url}
+														</span>
+														<span className="text-xs opacity-70">
+															{candidate.url}
+														</span>
+													</span>
+												</Button>
+											</li>
+										))}
+									</ul>
+								) : null}
 							</div>
 						) : successPayload ? (
 							<div className="space-y-5">
 								<div className="grid gap-4 rounded-2xl border border-emerald-400/60 bg-emerald-500/10 p-5 text-emerald-100 sm:grid-cols-2">
 									<div>
 										<p className="text-sm uppercase tracking-wide text-emerald-200">
-											Feed
+											Feed · {FEED_FORMAT_LABELS[successPayload.feed.format]}
 										</p>
 										<p className="mt-1 text-lg font-semibold text-white">
 											{successPayload.feed.title}
@@ -447,14 +944,18 @@ export default function Home() {
 											{successPayload.feed.description ??
 												"No description provided."}
 										</p>
-										<a
-											href={successPayload.feed.url}
-											target="_blank"
-											rel="noreferrer"
-											className="mt-2 inline-flex items-center gap-2 text-sm font-medium text-emerald-200 underline decoration-dotted underline-offset-4 transition hover:text-emerald-50"
-										>
-											Visit feed
-										</a>
+										{successPayload.feed.url ? (
+											<a
+												href={successPayload.feed.url}
+												target="_blank"
+												rel="noreferrer"
+												className="mt-2 inline-flex items-center gap-2 text-sm font-medium text-emerald-200 underline decoration-dotted underline-offset-4 transition hover:text-emerald-50"
+											>
+												{successPayload.feed.format === "opml"
+													? "View OPML file"
+													: "Visit feed"}
+											</a>
+										) : null}
 									</div>
 									<div className="flex flex-col justify-between gap-3 rounded-xl bg-black/40 p-4 text-sm text-emerald-100">
 										<p>
@@ -469,19 +970,63 @@ export default function Home() {
 											</strong>{" "}
 											entries.
 										</p>
-										{downloadUrl ? (
-											<a
-												href={downloadUrl}
-												download={successPayload.fileName}
-												className="inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-300 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-100"
-											>
-												<Download className="h-4 w-4" aria-hidden="true" />
-												Download NotebookLM bundle
-											</a>
+										{successPayload.filtered ? (
+											<EntryFilterSummary report={successPayload.filtered} />
+										) : null}
+										{successPayload.incremental ? (
+											<IncrementalSummary report={successPayload.incremental} />
+										) : null}
+										<a
+											href={successPayload.download.url}
+											download={successPayload.download.fileName}
+											className="inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-300 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-100"
+										>
+											<Download className="h-4 w-4" aria-hidden="true" />
+											Download NotebookLM bundle
+										</a>
+										{successPayload.llmsTxt ? (
+											<LLMsTxtExportLinks exported={successPayload.llmsTxt} />
+										) : null}
+										{successPayload.cache ? (
+											<HttpCacheSummary stats={successPayload.cache} />
 										) : null}
 									</div>
 								</div>
 
+								{successPayload.feeds ? (
+									<div className="space-y-3">
+										<h3 className="text-lg font-semibold text-white">Feeds</h3>
+										<ul className="space-y-2">
+											{successPayload.feeds.map((group) => (
+												<li
+													key={group.id}
+													className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm"
+												>
+													<div className="flex flex-wrap items-center justify-between gap-2">
+														<p className="font-semibold text-white">
+															{group.title}
+														</p>
+														<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+															{group.extractedEntries} of {group.totalEntries}{" "}
+															entries
+														</span>
+													</div>
+													{group.tags.length > 0 ? (
+														<p className="mt-1 text-xs text-slate-300">
+															{group.tags.join(" · ")}
+														</p>
+													) : null}
+													{group.error ? (
+														<p className="mt-1 text-xs text-amber-200">
+															Skipped: {group.error}
+														</p>
+													) : null}
+												</li>
+											))}
+										</ul>
+									</div>
+								) : null}
+
 								<div className="space-y-3">
 									<h3 className="text-lg font-semibold text-white">
 										Included entries
@@ -497,9 +1042,16 @@ export default function Home() {
 														<p className="text-base font-semibold text-white">
 															{entry.title}
 														</p>
-														<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
-															{entry.wordCount.toLocaleString()} words
-														</span>
+														<div className="flex items-center gap-2">
+															<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																{entry.contentSource === "article"
+																	? "Full article"
+																	: "Feed body"}
+															</span>
+															<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																{entry.wordCount.toLocaleString()} words
+															</span>
+														</div>
 													</div>
 													<p className="text-xs uppercase tracking-wide text-slate-300">
 														{entry.publishedAt
@@ -510,6 +1062,15 @@ export default function Home() {
 														{entry.summary}
 														{entry.summary.length >= 320 ? "…" : ""}
 													</p>
+													{entry.fetchFailure ? (
+														<p className="text-xs text-amber-200">
+															{entry.fetchFailure.reason === "timeout"
+																? "Article fetch timed out"
+																: "Article unavailable"}
+															: {entry.fetchFailure.message}. Using the feed
+															body instead.
+														</p>
+													) : null}
 													<a
 														href={entry.url}
 														target="_blank"
@@ -536,106 +1097,3 @@ export default function Home() {
 		</main>
 	);
 }
-
-function base64ToBlob(base64: string, mimeType: string) {
-	const byteCharacters = atob(base64);
-	const sliceSize = 1024;
-	const slicesCount = Math.ceil(byteCharacters.length / sliceSize);
-	const byteArrays: BlobPart[] = [];
-
-	for (let sliceIndex = 0; sliceIndex < slicesCount; sliceIndex++) {
-		const begin = sliceIndex * sliceSize;
-		const end = Math.min(begin + sliceSize, byteCharacters.length);
-		const bytes = new Array<number>(end - begin);
-
-		for (let offset = begin, i = 0; offset < end; offset += 1, i += 1) {
-			bytes[i] = byteCharacters.charCodeAt(offset);
-		}
-
-		byteArrays.push(new Uint8Array(bytes));
-	}
-
-	return new Blob(byteArrays, { type: mimeType });
-}
-function createEntryId(index: number, title: string) {
-	const safeTitle = title
-		.toLowerCase()
-		.normalize("NFD")
-		.replace(/[^\p{Letter}\p{Number}]+/gu, "-")
-		.replace(/-+/g, "-")
-		.replace(/^-|-$/g, "");
-	const short = safeTitle.slice(0, 48);
-	return `${index.toString().padStart(2, "0")}-${short.length > 0 ? short : "entry"}`;
-}
-async function buildArchive({
-	feedTitle,
-	feedDescription,
-	feedUrl,
-	entries,
-}: {
-	feedTitle: string;
-	feedDescription: string | null;
-	feedUrl: string;
-	entries: FeedEntry[];
-}) {
-	const zip = new JSZip();
-	const nowIso = new Date().toISOString();
-	const manifest = {
-		$schema: "https://notebooklm.google.com/schemas/source-bundle.v1.json",
-		generatedAt: nowIso,
-		feed: {
-			title: feedTitle,
-			description: feedDescription,
-			url: feedUrl,
-		},
-		entries: entries.map((entry) => ({
-			id: entry.id,
-			title: entry.title,
-			url: entry.url,
-			publishedAt: entry.publishedAt,
-			wordCount: countWords(entry.textContent),
-			file: `${entry.id}.md`,
-		})),
-	};
-	zip.file("manifest.json", JSON.stringify(manifest, null, 2));
-	for (const entry of entries) {
-		const headerLines = [
-			`# ${entry.title}`,
-			entry.publishedAt ? `Published: ${entry.publishedAt}` : null,
-			`Source: ${entry.url}`,
-			"",
-		].filter(Boolean);
-		const body = `${headerLines.join("\n")}\n${entry.textContent}\n`;
-		zip.file(`${entry.id}.md`, body);
-	}
-	const summary = {
-		version: 1,
-		createdAt: nowIso,
-		entries: entries.map((entry) => ({
-			id: entry.id,
-			title: entry.title,
-			url: entry.url,
-			publishedAt: entry.publishedAt,
-			text: entry.textContent,
-		})),
-	};
-	zip.file("sources.json", JSON.stringify(summary, null, 2));
-	const buffer = await zip.generateAsync({ type: "nodebuffer" });
-	const fileName = `${slugify(feedTitle)}-${nowIso.slice(0, 10)}.zip`;
-	return {
-		base64: buffer.toString("base64"),
-		fileName,
-	};
-}
-function slugify(input: string) {
-	const normalized = input
-		.toLowerCase()
-		.normalize("NFD")
-		.replace(/[^\p{Letter}\p{Number}]+/gu, "-")
-		.replace(/-+/g, "-")
-		.replace(/^-|-$/g, "");
-	return normalized.length > 0 ? normalized : "notebooklm-source";
-}
-function countWords(text: string) {
-	return text.split(/\s+/).filter(Boolean).length;
-}
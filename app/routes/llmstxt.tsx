@@ -7,17 +7,45 @@ import {
 	Loader2,
 	Settings,
 } from "lucide-react";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
 import { useFetcher } from "react-router";
+import {
+	BuildProgressList,
+	useBuildProgress,
+} from "../components/build-progress";
+import { HttpCacheSummary } from "../components/http-cache-summary";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import { MAX_FOLLOWED_LINKS } from "../lib/builder-options";
+import { countWords, createEntryId, SourceBundle } from "../lib/bundle";
+import { createDownload } from "../lib/downloads";
+import {
+	cachedFetch,
+	cachedValue,
+	getHttpCacheStats,
+	withHttpCacheStats,
+} from "../lib/http-cache";
+import { createLLMProvider, type LLMProvider } from "../lib/llm";
+import {
+	fetchLLMsTxtLinks,
+	getLLMsTxtLinks,
+	LLMS_TXT_USER_AGENT,
+	parseLLMsTxt,
+	renderLLMsFullTxt,
+} from "../lib/llmstxt";
+import { type ProgressReporter, withProgress } from "../lib/progress";
 import {
 	buildCanonicalLink,
 	buildMeta,
 	getCanonicalUrl,
 	siteConfig,
 } from "../lib/seo";
-import type { LLMsTxtActionData, LLMsTxtLink } from "../lib/types";
+import type {
+	FeedEntry,
+	LLMsTxtActionData,
+	LLMsTxtFetchedLink,
+} from "../lib/types";
+import { readBoundedInt } from "../lib/utils";
 import type { Route } from "./+types/llmstxt";
 
 const LLMSTXT_PATH = "/llmstxt";
@@ -32,6 +60,8 @@ const LLMSTXT_KEYWORDS = [
 	"LLM context",
 ];
 const LLMSTXT_CANONICAL_URL = getCanonicalUrl(LLMSTXT_PATH);
+/** Firecrawl scrapes are paid for, so a page is scraped at most once a day. */
+const SCRAPE_CACHE_MAX_AGE_MS = 24 * 60 * 60_000;
 const LLMSTXT_JSON_LD = JSON.stringify({
 	"@context": "https://schema.org",
 	"@type": "SoftwareApplication",
@@ -64,65 +94,6 @@ export const links: Route.LinksFunction = () => [
 	buildCanonicalLink(LLMSTXT_PATH),
 ];
 
-/**
- * Parse llms.txt content to extract linked markdown files.
- * Format: - [Title](url): Description
- */
-function parseLLMsTxtLinks(content: string, baseUrl: string): LLMsTxtLink[] {
-	const links: LLMsTxtLink[] = [];
-	const linkRegex = /^-\s+\[([^\]]+)\]\(([^)]+)\)(?::\s*(.*))?$/gm;
-
-	const matches = content.matchAll(linkRegex);
-	for (const match of matches) {
-		const [, title, url, description] = match;
-		let absoluteUrl: string;
-
-		try {
-			// Handle relative URLs
-			if (url.startsWith("http://") || url.startsWith("https://")) {
-				absoluteUrl = url;
-			} else {
-				const base = new URL(baseUrl);
-				absoluteUrl = new URL(url, base.origin).href;
-			}
-		} catch {
-			continue;
-		}
-
-		links.push({
-			title: title.trim(),
-			url: absoluteUrl,
-			description: description?.trim() || null,
-		});
-	}
-
-	return links;
-}
-
-/**
- * Extract title and description from llms.txt header
- */
-function parseLLMsTxtHeader(content: string): {
-	title: string | null;
-	description: string | null;
-} {
-	const lines = content.split("\n");
-	let title: string | null = null;
-	let description: string | null = null;
-
-	for (const line of lines) {
-		const trimmed = line.trim();
-		if (!title && trimmed.startsWith("# ")) {
-			title = trimmed.slice(2).trim();
-		} else if (!description && trimmed.startsWith("> ")) {
-			description = trimmed.slice(2).trim();
-		}
-		if (title && description) break;
-	}
-
-	return { title, description };
-}
-
 /**
  * Map website URLs using Firecrawl
  */
@@ -157,9 +128,18 @@ async function mapWebsite(
 }
 
 /**
- * Scrape a single URL using Firecrawl
+ * Scrape a single URL using Firecrawl, reusing scrapes from the last day
  */
-async function scrapeUrl(
+function scrapeUrl(url: string, firecrawlApiKey: string) {
+	return cachedValue(
+		"firecrawl-scrapes",
+		[url],
+		() => requestScrape(url, firecrawlApiKey),
+		{ maxAgeMs: SCRAPE_CACHE_MAX_AGE_MS },
+	);
+}
+
+async function requestScrape(
 	url: string,
 	firecrawlApiKey: string,
 ): Promise<{ markdown: string; metadata: Record<string, unknown> } | null> {
@@ -196,78 +176,15 @@ async function scrapeUrl(
 }
 
 /**
- * Generate title and description using OpenRouter
- */
-async function generateDescription(
-	url: string,
-	markdown: string,
-	openrouterApiKey: string,
-): Promise<{ title: string; description: string }> {
-	const prompt = `Generate a 9-10 word description and a 3-4 word title of the entire page based on ALL the content one will find on the page for this url: ${url}. This will help in a user finding the page for its intended purpose.
-
-Return the response in JSON format:
-{
-    "title": "3-4 word title",
-    "description": "9-10 word description"
-}`;
-
-	try {
-		const response = await fetch(
-			"https://openrouter.ai/api/v1/chat/completions",
-			{
-				method: "POST",
-				headers: {
-					Authorization: `Bearer ${openrouterApiKey}`,
-					"Content-Type": "application/json",
-					"HTTP-Referer": "https://notebooklm.tools",
-					"X-Title": "LLMs.txt Generator",
-				},
-				body: JSON.stringify({
-					model: "openai/gpt-4o-mini",
-					messages: [
-						{
-							role: "system",
-							content:
-								"You are a helpful assistant that generates concise titles and descriptions for web pages. Always respond with valid JSON.",
-						},
-						{
-							role: "user",
-							content: `${prompt}\n\nPage content:\n${markdown.slice(0, 4000)}`,
-						},
-					],
-					temperature: 0.3,
-					max_tokens: 100,
-					response_format: { type: "json_object" },
-				}),
-			},
-		);
-
-		if (!response.ok) {
-			return { title: "Page", description: "No description available" };
-		}
-
-		const data = await response.json();
-		const content = data.choices?.[0]?.message?.content;
-		if (content) {
-			const result = JSON.parse(content);
-			return {
-				title: result.title || "Page",
-				description: result.description || "No description available",
-			};
-		}
-		return { title: "Page", description: "No description available" };
-	} catch {
-		return { title: "Page", description: "No description available" };
-	}
-}
-
-/**
- * Generate llms-full.txt using Firecrawl and OpenRouter
+ * Generate llms-full.txt by scraping pages with Firecrawl and describing them
+ * with the configured LLM provider, reporting each page as it is scraped and
+ * described
  */
 async function generateLLMsFullTxt(
 	siteUrl: string,
 	firecrawlApiKey: string,
-	openrouterApiKey: string,
+	provider: LLMProvider,
+	progress: ProgressReporter,
 	maxUrls = 20,
 ): Promise<{ llmsTxt: string; llmsFullTxt: string; processedCount: number }> {
 	// Map the website
@@ -278,7 +195,7 @@ async function generateLLMsFullTxt(
 
 	const limitedUrls = urls.slice(0, maxUrls);
 
-	let llmsTxt = `# ${siteUrl} llms.txt\n\n`;
+	let llmsTxt = `# ${siteUrl} llms.txt\n\n## Pages\n\n`;
 	let llmsFullTxt = `# ${siteUrl} llms-full.txt\n\n`;
 
 	const results: Array<{
@@ -295,14 +212,17 @@ async function generateLLMsFullTxt(
 
 		const scraped = await scrapeUrl(url, firecrawlApiKey);
 		if (!scraped || !scraped.markdown) {
+			progress.item(url, url, "failed", "Firecrawl returned no content");
 			continue;
 		}
+		progress.item(url, url, "fetched");
 
-		const { title, description } = await generateDescription(
+		const { title, description } = await provider.describePage({
 			url,
-			scraped.markdown,
-			openrouterApiKey,
-		);
+			markdown: scraped.markdown,
+			metadata: scraped.metadata,
+		});
+		progress.item(url, title, "extracted", description);
 
 		results.push({
 			url,
@@ -323,6 +243,7 @@ async function generateLLMsFullTxt(
 		const result = results[i];
 		llmsTxt += `- [${result.title}](${result.url}): ${result.description}\n`;
 		llmsFullTxt += `## ${result.title}\n\nURL: ${result.url}\n\n${result.markdown}\n\n---\n\n`;
+		progress.item(result.url, result.title, "zipped");
 	}
 
 	return {
@@ -334,10 +255,26 @@ async function generateLLMsFullTxt(
 
 export async function action({ request }: Route.ActionArgs) {
 	const formData = await request.formData();
+	return withProgress(formData.get("jobId"), (progress) =>
+		withHttpCacheStats(() => fetchLLMsTxt(formData, progress)),
+	);
+}
+
+/**
+ * Fetch llms-full.txt, generate it when API keys are configured, or fall back
+ * to llms.txt
+ */
+async function fetchLLMsTxt(formData: FormData, progress: ProgressReporter) {
 	const siteUrlRaw = formData.get("siteUrl");
 	const firecrawlApiKey = process.env.FIRECRAWL_API_KEY;
-	const openrouterApiKey = process.env.OPENROUTER_API_KEY;
 	const maxUrlsRaw = formData.get("maxUrls");
+	const followLinks = formData.get("followLinks") === "on";
+	const maxLinks = readBoundedInt(
+		formData.get("maxLinks"),
+		50,
+		1,
+		MAX_FOLLOWED_LINKS,
+	);
 
 	if (typeof siteUrlRaw !== "string" || siteUrlRaw.trim().length === 0) {
 		return Response.json(
@@ -360,7 +297,7 @@ export async function action({ request }: Route.ActionArgs) {
 	const llmsFullTxtUrl = new URL("/llms-full.txt", siteUrl.origin);
 
 	try {
-		const llmsFullResponse = await fetch(llmsFullTxtUrl.href, {
+		const llmsFullResponse = await cachedFetch(llmsFullTxtUrl.href, {
 			headers: {
 				"User-Agent":
 					"LLMsTxt-Fetcher/1.0 (https://github.com/answerdotai/llms-txt)",
@@ -373,12 +310,8 @@ export async function action({ request }: Route.ActionArgs) {
 
 			if (llmsFullContent.trim().length > 0) {
 				// Found llms-full.txt, return it
-				const { title, description } = parseLLMsTxtHeader(llmsFullContent);
-				const links = parseLLMsTxtLinks(llmsFullContent, llmsFullTxtUrl.href);
+				const { document } = parseLLMsTxt(llmsFullContent, llmsFullTxtUrl.href);
 
-				const contentBase64 = Buffer.from(llmsFullContent, "utf-8").toString(
-					"base64",
-				);
 				const siteName = siteUrl.hostname.replace(/\./g, "-");
 				const fileName = `llms-full-${siteName}-${new Date().toISOString().slice(0, 10)}.txt`;
 
@@ -391,17 +324,25 @@ export async function action({ request }: Route.ActionArgs) {
 						llmsTxtUrl: llmsFullTxtUrl.href,
 					},
 					llmsTxt: {
-						title: title || siteUrl.hostname,
-						description,
+						title: document.title || siteUrl.hostname,
+						description: document.summary,
 						content: llmsFullContent,
-						links,
+						links: getLLMsTxtLinks(document),
+						sections: document.sections,
+						// llms-full.txt inlines whole pages, so it isn't held to the
+						// llms.txt structure
+						issues: [],
 					},
 					fetchedLinks: null,
 					download: {
-						contentBase64,
-						fileName,
+						...createDownload({
+							data: Buffer.from(llmsFullContent, "utf-8"),
+							fileName,
+							contentType: "text/plain; charset=utf-8",
+						}),
 						wordCount: countWords(llmsFullContent),
 					},
+					cache: getHttpCacheStats(),
 				});
 			}
 		}
@@ -409,28 +350,44 @@ export async function action({ request }: Route.ActionArgs) {
 		console.error("Failed to fetch llms-full.txt:", error);
 	}
 
-	// llms-full.txt not found, check if we have API keys to generate it
+	// llms-full.txt not found; when asked to, build it from the llms.txt links
+	const llmsTxtUrl = new URL("/llms.txt", siteUrl.origin);
+	// Fetched at most once; `undefined` until then
+	let llmsTxtContent: string | null | undefined;
+	if (followLinks) {
+		llmsTxtContent = await fetchLLMsTxtFile(llmsTxtUrl);
+		const followed = llmsTxtContent
+			? await followLLMsTxtLinks(
+					siteUrl,
+					llmsTxtUrl,
+					llmsTxtContent,
+					maxLinks,
+					progress,
+				)
+			: null;
+		if (followed) {
+			return followed;
+		}
+	}
+
+	// Check if we have a Firecrawl key to generate it
 	const hasApiKeys =
-		typeof firecrawlApiKey === "string" &&
-		firecrawlApiKey.trim().length > 0 &&
-		typeof openrouterApiKey === "string" &&
-		openrouterApiKey.trim().length > 0;
+		typeof firecrawlApiKey === "string" && firecrawlApiKey.trim().length > 0;
 
 	if (hasApiKeys) {
-		// Generate llms-full.txt using Firecrawl and OpenRouter
+		// Generate llms-full.txt using Firecrawl and the configured LLM provider
 		try {
 			const maxUrls = Number.parseInt(maxUrlsRaw as string, 10) || 20;
+			const provider = createLLMProvider();
 			const generated = await generateLLMsFullTxt(
 				siteUrl.origin,
 				firecrawlApiKey.trim(),
-				openrouterApiKey.trim(),
+				provider,
+				progress,
 				Math.min(maxUrls, 50),
 			);
 
-			const contentBase64 = Buffer.from(
-				generated.llmsFullTxt,
-				"utf-8",
-			).toString("base64");
+			const generatedLLMsTxt = parseLLMsTxt(generated.llmsTxt, siteUrl.origin);
 			const siteName = siteUrl.hostname.replace(/\./g, "-");
 			const fileName = `llms-full-${siteName}-${new Date().toISOString().slice(0, 10)}.txt`;
 
@@ -446,17 +403,24 @@ export async function action({ request }: Route.ActionArgs) {
 					title: `${siteUrl.hostname} (Generated)`,
 					description: `Generated llms-full.txt with ${generated.processedCount} pages`,
 					content: generated.llmsFullTxt,
-					links: parseLLMsTxtLinks(generated.llmsTxt, siteUrl.origin),
+					links: getLLMsTxtLinks(generatedLLMsTxt.document),
+					sections: generatedLLMsTxt.document.sections,
+					issues: generatedLLMsTxt.issues,
 				},
 				fetchedLinks: null,
 				download: {
-					contentBase64,
-					fileName,
+					...createDownload({
+						data: Buffer.from(generated.llmsFullTxt, "utf-8"),
+						fileName,
+						contentType: "text/plain; charset=utf-8",
+					}),
 					wordCount: countWords(generated.llmsFullTxt),
 				},
+				cache: getHttpCacheStats(),
 				generated: {
 					llmsTxt: generated.llmsTxt,
 					processedCount: generated.processedCount,
+					describedWith: provider.label,
 				},
 			});
 		} catch (error) {
@@ -473,117 +437,224 @@ export async function action({ request }: Route.ActionArgs) {
 	}
 
 	// No llms-full.txt and no API keys, try fallback to /llms.txt
-	const llmsTxtUrl = new URL("/llms.txt", siteUrl.origin);
-
-	try {
-		const llmsTxtResponse = await fetch(llmsTxtUrl.href, {
-			headers: {
-				"User-Agent":
-					"LLMsTxt-Fetcher/1.0 (https://github.com/answerdotai/llms-txt)",
-				Accept: "text/plain, text/markdown, */*",
+	if (llmsTxtContent === undefined) {
+		llmsTxtContent = await fetchLLMsTxtFile(llmsTxtUrl);
+	}
+	if (llmsTxtContent) {
+		const { document, issues } = parseLLMsTxt(llmsTxtContent, llmsTxtUrl.href);
+
+		const siteName = siteUrl.hostname.replace(/\./g, "-");
+		const fileName = `llms-${siteName}-${new Date().toISOString().slice(0, 10)}.txt`;
+
+		return Response.json({
+			ok: true,
+			source: "llms.txt",
+			site: {
+				url: siteUrl.origin,
+				hostname: siteUrl.hostname,
+				llmsTxtUrl: llmsTxtUrl.href,
+			},
+			llmsTxt: {
+				title: document.title || siteUrl.hostname,
+				description: document.summary,
+				content: llmsTxtContent,
+				links: getLLMsTxtLinks(document),
+				sections: document.sections,
+				issues,
 			},
+			fetchedLinks: null,
+			download: {
+				...createDownload({
+					data: Buffer.from(llmsTxtContent, "utf-8"),
+					fileName,
+					contentType: "text/plain; charset=utf-8",
+				}),
+				wordCount: countWords(llmsTxtContent),
+			},
+			cache: getHttpCacheStats(),
+			noFullTxt: true,
 		});
-
-		if (llmsTxtResponse.ok) {
-			const llmsTxtContent = await llmsTxtResponse.text();
-
-			if (llmsTxtContent.trim().length > 0) {
-				const { title, description } = parseLLMsTxtHeader(llmsTxtContent);
-				const links = parseLLMsTxtLinks(llmsTxtContent, llmsTxtUrl.href);
-
-				const contentBase64 = Buffer.from(llmsTxtContent, "utf-8").toString(
-					"base64",
-				);
-				const siteName = siteUrl.hostname.replace(/\./g, "-");
-				const fileName = `llms-${siteName}-${new Date().toISOString().slice(0, 10)}.txt`;
-
-				return Response.json({
-					ok: true,
-					source: "llms.txt",
-					site: {
-						url: siteUrl.origin,
-						hostname: siteUrl.hostname,
-						llmsTxtUrl: llmsTxtUrl.href,
-					},
-					llmsTxt: {
-						title: title || siteUrl.hostname,
-						description,
-						content: llmsTxtContent,
-						links,
-					},
-					fetchedLinks: null,
-					download: {
-						contentBase64,
-						fileName,
-						wordCount: countWords(llmsTxtContent),
-					},
-					noFullTxt: true,
-				});
-			}
-		}
-	} catch (error) {
-		console.error("Failed to fetch llms.txt:", error);
 	}
 
 	// Neither llms-full.txt nor llms.txt found
 	return Response.json(
 		{
 			ok: false,
-			error: `No llms-full.txt or llms.txt found at ${siteUrl.hostname}. You can generate one by providing Firecrawl and OpenRouter API keys.`,
+			error: `No llms-full.txt or llms.txt found at ${siteUrl.hostname}. You can generate one by setting a Firecrawl API key.`,
 			requiresGeneration: true,
 		},
 		{ status: 404 },
 	);
 }
 
-function countWords(text: string) {
-	return text.split(/\s+/).filter(Boolean).length;
+/**
+ * Fetch /llms.txt, or `null` when the site has none
+ */
+async function fetchLLMsTxtFile(llmsTxtUrl: URL) {
+	try {
+		const response = await cachedFetch(llmsTxtUrl.href, {
+			headers: {
+				"User-Agent": LLMS_TXT_USER_AGENT,
+				Accept: "text/plain, text/markdown, */*",
+			},
+		});
+		if (response.ok) {
+			const content = await response.text();
+			return content.trim().length > 0 ? content : null;
+		}
+	} catch (error) {
+		console.error("Failed to fetch llms.txt:", error);
+	}
+	return null;
+}
+
+/**
+ * Follow the links of an llms.txt and assemble the pages into an
+ * llms-full.txt and a NotebookLM bundle. Returns `null` when the llms.txt
+ * has no links to follow
+ */
+async function followLLMsTxtLinks(
+	siteUrl: URL,
+	llmsTxtUrl: URL,
+	llmsTxtContent: string,
+	maxLinks: number,
+	progress: ProgressReporter,
+) {
+	const { document, issues } = parseLLMsTxt(llmsTxtContent, llmsTxtUrl.href);
+	const links = getLLMsTxtLinks(document);
+	// Links under "Optional" are the first to go when the limit is reached
+	const optional = new Set(
+		document.sections
+			.filter((section) => section.optional)
+			.flatMap((section) => section.links),
+	);
+	const followed = [
+		...links.filter((link) => !optional.has(link)),
+		...links.filter((link) => optional.has(link)),
+	]
+		.filter(
+			(link, index, ordered) =>
+				ordered.findIndex((other) => other.url === link.url) === index,
+		)
+		.slice(0, maxLinks);
+	if (followed.length === 0) {
+		return null;
+	}
+
+	for (const link of followed) {
+		progress.item(link.url, link.title, "fetched");
+	}
+	const fetchedLinks = await fetchLLMsTxtLinks(followed, {
+		onResult: (link) => {
+			if (link.error) {
+				progress.item(link.url, link.title, "failed", link.error);
+			} else {
+				progress.item(
+					link.url,
+					link.title,
+					"extracted",
+					link.source === "markdown" ? "Markdown version" : null,
+				);
+			}
+		},
+	});
+	const pages = fetchedLinks.filter(
+		(link): link is LLMsTxtFetchedLink & { content: string } =>
+			link.content !== null,
+	);
+	if (pages.length === 0) {
+		return Response.json(
+			{
+				ok: false,
+				error: `None of the ${fetchedLinks.length} links in ${llmsTxtUrl.href} could be fetched.`,
+			},
+			{ status: 502 },
+		);
+	}
+
+	const siteTitle = document.title || siteUrl.hostname;
+	const llmsFullContent = renderLLMsFullTxt({
+		title: siteTitle,
+		description: document.summary,
+		pages,
+	});
+	const entries: FeedEntry[] = pages.map((page, index) => ({
+		id: createEntryId(index + 1, page.title),
+		title: page.title,
+		url: page.url,
+		publishedAt: null,
+		textContent: page.content,
+		contentSource: "article",
+		fetchFailure: null,
+	}));
+	const archive = await new SourceBundle({
+		title: siteTitle,
+		description: document.summary,
+		url: llmsTxtUrl.href,
+		format: "llmstxt",
+	})
+		.addEntries(entries)
+		.toUint8Array();
+	for (const page of pages) {
+		progress.item(page.url, page.title, "zipped");
+	}
+
+	const siteName = siteUrl.hostname.replace(/\./g, "-");
+	const fileName = `llms-full-${siteName}-${new Date().toISOString().slice(0, 10)}.txt`;
+
+	return Response.json({
+		ok: true,
+		source: "llms.txt",
+		site: {
+			url: siteUrl.origin,
+			hostname: siteUrl.hostname,
+			llmsTxtUrl: llmsTxtUrl.href,
+		},
+		llmsTxt: {
+			title: siteTitle,
+			description: document.summary,
+			content: llmsFullContent,
+			links,
+			sections: document.sections,
+			issues,
+		},
+		fetchedLinks,
+		download: {
+			...createDownload({
+				data: Buffer.from(llmsFullContent, "utf-8"),
+				fileName,
+				contentType: "text/plain; charset=utf-8",
+			}),
+			wordCount: countWords(llmsFullContent),
+		},
+		cache: getHttpCacheStats(),
+		bundle: createDownload({ ...archive, contentType: "application/zip" }),
+		noFullTxt: true,
+	});
 }
 
 export default function LLMsTxt() {
 	const fetcher = useFetcher<LLMsTxtActionData>();
+	const progress = useBuildProgress();
 	const [siteUrl, setSiteUrl] = useState("");
 	const [showApiKeys, setShowApiKeys] = useState(false);
 	const [maxUrls, setMaxUrls] = useState("20");
-	const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+	const [followLinks, setFollowLinks] = useState(false);
+	const [maxLinks, setMaxLinks] = useState("50");
 	const [copied, setCopied] = useState(false);
-	const downloadUrlRef = useRef<string | null>(null);
 
 	const isSubmitting = fetcher.state !== "idle";
 	const data = fetcher.data;
 	const errorMessage = data?.ok === false ? data.error : null;
 	const successPayload = data?.ok ? data : null;
+	const fetchedLinks = new Map(
+		(successPayload?.fetchedLinks ?? []).map((link) => [link.url, link]),
+	);
 	const requiresGeneration =
 		data?.ok === false &&
 		"requiresGeneration" in data &&
 		data.requiresGeneration;
 
-	useEffect(() => {
-		if (downloadUrlRef.current) {
-			URL.revokeObjectURL(downloadUrlRef.current);
-			downloadUrlRef.current = null;
-		}
-
-		if (successPayload?.download.contentBase64) {
-			const blob = base64ToBlob(
-				successPayload.download.contentBase64,
-				"text/plain",
-			);
-			const objectUrl = URL.createObjectURL(blob);
-			downloadUrlRef.current = objectUrl;
-			setDownloadUrl(objectUrl);
-		} else {
-			setDownloadUrl(null);
-		}
-
-		return () => {
-			if (downloadUrlRef.current) {
-				URL.revokeObjectURL(downloadUrlRef.current);
-				downloadUrlRef.current = null;
-			}
-		};
-	}, [successPayload]);
-
 	useEffect(() => {
 		if (fetcher.state === "idle" && fetcher.formData == null) {
 			return;
@@ -605,7 +676,7 @@ export default function LLMsTxt() {
 	const actionDescription = useMemo(() => {
 		if (isSubmitting) {
 			if (showApiKeys) {
-				return "Generating llms-full.txt using Firecrawl and OpenRouter...";
+				return "Generating llms-full.txt using Firecrawl...";
 			}
 			return "Checking for llms-full.txt...";
 		}
@@ -629,6 +700,13 @@ export default function LLMsTxt() {
 		return "Enter a docs site URL to fetch llms-full.txt";
 	}, [errorMessage, isSubmitting, successPayload, showApiKeys]);
 
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+		formData.set("jobId", progress.start());
+		fetcher.submit(formData, { method: "post" });
+	};
+
 	const handleCopyContent = async () => {
 		if (successPayload?.llmsTxt.content) {
 			await navigator.clipboard.writeText(successPayload.llmsTxt.content);
@@ -673,6 +751,7 @@ export default function LLMsTxt() {
 				>
 					<fetcher.Form
 						method="post"
+						onSubmit={handleSubmit}
 						className="flex flex-col gap-6 rounded-md border border-border/10 bg-card p-8 backdrop-blur text-foreground"
 					>
 						<div className="flex flex-col gap-2">
@@ -705,6 +784,49 @@ export default function LLMsTxt() {
 							</p>
 						</div>
 
+						<div className="flex items-start gap-3">
+							<input
+								id="followLinks"
+								name="followLinks"
+								type="checkbox"
+								checked={followLinks}
+								onChange={(event) => setFollowLinks(event.target.checked)}
+								className="mt-1 h-4 w-4 accent-primary"
+								aria-describedby="followLinks-help"
+							/>
+							<div className="flex flex-col gap-1">
+								<label className="text-sm font-medium" htmlFor="followLinks">
+									Fetch every linked page
+								</label>
+								<p id="followLinks-help" className="text-sm">
+									When the site only has an llms.txt, follow its links (using
+									their{" "}
+									<code className="bg-muted px-1 py-0.5 rounded text-xs">
+										.md
+									</code>{" "}
+									versions when available) and build an llms-full.txt and a
+									NotebookLM bundle.
+								</p>
+								{followLinks ? (
+									<div className="mt-2 flex items-center gap-2">
+										<label className="text-sm" htmlFor="maxLinks">
+											Max links
+										</label>
+										<Input
+											id="maxLinks"
+											name="maxLinks"
+											type="number"
+											min={1}
+											max={MAX_FOLLOWED_LINKS}
+											value={maxLinks}
+											onChange={(e) => setMaxLinks(e.target.value)}
+											className="w-24"
+										/>
+									</div>
+								) : null}
+							</div>
+						</div>
+
 						<div className="flex flex-col gap-4">
 							<button
 								type="button"
@@ -783,6 +905,19 @@ export default function LLMsTxt() {
 					</fetcher.Form>
 				</section>
 
+				{isSubmitting && progress.items.length > 0 ? (
+					<section
+						className="space-y-4 rounded-md border border-border/10 bg-card p-8 backdrop-blur text-foreground"
+						aria-live="polite"
+						aria-busy="true"
+					>
+						<h2 className="text-2xl font-semibold text-foreground">
+							Generation progress
+						</h2>
+						<BuildProgressList items={progress.items} />
+					</section>
+				) : null}
+
 				{data ? (
 					<section
 						id="fetch-result"
@@ -859,18 +994,41 @@ export default function LLMsTxt() {
 														pages processed
 													</p>
 												)}
+											{"generated" in successPayload &&
+												successPayload.generated && (
+													<p>
+														Described with{" "}
+														<strong className="text-foreground">
+															{successPayload.generated.describedWith}
+														</strong>
+													</p>
+												)}
+											{successPayload.cache ? (
+												<HttpCacheSummary
+													stats={successPayload.cache}
+													className="text-xs"
+												/>
+											) : null}
 										</div>
 										<div className="flex flex-col gap-2">
-											{downloadUrl && (
+											<a
+												href={successPayload.download.url}
+												download={successPayload.download.fileName}
+												className="inline-flex items-center justify-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground transition hover:bg-primary/90 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+											>
+												<Download className="h-4 w-4" aria-hidden="true" />
+												Download .txt file
+											</a>
+											{successPayload.bundle ? (
 												<a
-													href={downloadUrl}
-													download={successPayload.download.fileName}
+													href={successPayload.bundle.url}
+													download={successPayload.bundle.fileName}
 													className="inline-flex items-center justify-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground transition hover:bg-primary/90 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
 												>
 													<Download className="h-4 w-4" aria-hidden="true" />
-													Download .txt file
+													Download NotebookLM bundle
 												</a>
-											)}
+											) : null}
 											<button
 												type="button"
 												onClick={handleCopyContent}
@@ -887,42 +1045,94 @@ export default function LLMsTxt() {
 									</div>
 								</div>
 
-								{successPayload.llmsTxt.links.length > 0 && (
+								{successPayload.llmsTxt.issues.length > 0 && (
 									<div className="space-y-3">
 										<h3 className="text-lg font-semibold text-foreground">
-											Linked Documentation
+											Validation Report
 										</h3>
-										<ul className="space-y-2">
-											{successPayload.llmsTxt.links.map((link, index) => (
+										<ul className="space-y-1 rounded-xl border border-border bg-muted/50 p-3 text-sm">
+											{successPayload.llmsTxt.issues.map((issue, index) => (
 												<li
-													key={`${link.url}-${index}`}
-													className="flex items-start gap-3 rounded-xl border border-border bg-muted/50 p-3"
+													key={`${issue.line}-${index}`}
+													className={
+														issue.severity === "error"
+															? "text-destructive"
+															: "text-amber-200"
+													}
 												>
-													<FileText
-														className="h-4 w-4 mt-0.5 text-primary"
-														aria-hidden="true"
-													/>
-													<div className="flex-1 min-w-0">
-														<a
-															href={link.url}
-															target="_blank"
-															rel="noreferrer"
-															className="text-sm font-medium text-primary hover:text-primary/80 underline decoration-dotted underline-offset-4"
-														>
-															{link.title}
-														</a>
-														{link.description && (
-															<p className="text-sm text-muted-foreground mt-0.5">
-																{link.description}
-															</p>
-														)}
-													</div>
+													Line {issue.line}: {issue.message}
 												</li>
 											))}
 										</ul>
 									</div>
 								)}
 
+								{successPayload.llmsTxt.links.length > 0 && (
+									<div className="space-y-3">
+										<h3 className="text-lg font-semibold text-foreground">
+											Linked Documentation
+										</h3>
+										{successPayload.llmsTxt.sections
+											.filter((section) => section.links.length > 0)
+											.map((section, sectionIndex) => (
+												<div
+													key={`${section.title}-${sectionIndex}`}
+													className="space-y-2"
+												>
+													<h4 className="text-sm font-semibold text-foreground">
+														{section.title ?? "Unsectioned links"}
+														{section.optional && (
+															<span className="ml-2 font-normal text-muted-foreground">
+																Can be skipped when a shorter context is needed
+															</span>
+														)}
+													</h4>
+													<ul className="space-y-2">
+														{section.links.map((link, index) => (
+															<li
+																key={`${link.url}-${index}`}
+																className="flex items-start gap-3 rounded-xl border border-border bg-muted/50 p-3"
+															>
+																<FileText
+																	className="h-4 w-4 mt-0.5 text-primary"
+																	aria-hidden="true"
+																/>
+																<div className="flex-1 min-w-0">
+																	<a
+																		href={link.url}
+																		target="_blank"
+																		rel="noreferrer"
+																		className="text-sm font-medium text-primary hover:text-primary/80 underline decoration-dotted underline-offset-4"
+																	>
+																		{link.title}
+																	</a>
+																	{link.description && (
+																		<p className="text-sm text-muted-foreground mt-0.5">
+																			{link.description}
+																		</p>
+																	)}
+																	{fetchedLinks.get(link.url)?.error ? (
+																		<p className="text-xs text-destructive mt-0.5">
+																			Not fetched:{" "}
+																			{fetchedLinks.get(link.url)?.error}
+																		</p>
+																	) : fetchedLinks.get(link.url)?.content ? (
+																		<p className="text-xs text-muted-foreground mt-0.5">
+																			{fetchedLinks.get(link.url)?.source ===
+																			"markdown"
+																				? "Fetched Markdown version"
+																				: "Extracted from the page"}
+																		</p>
+																	) : null}
+																</div>
+															</li>
+														))}
+													</ul>
+												</div>
+											))}
+									</div>
+								)}
+
 								<div className="space-y-3">
 									<h3 className="text-lg font-semibold text-foreground">
 										Raw Content Preview
@@ -944,24 +1154,3 @@ export default function LLMsTxt() {
 		</main>
 	);
 }
-
-function base64ToBlob(base64: string, mimeType: string) {
-	const byteCharacters = atob(base64);
-	const sliceSize = 1024;
-	const slicesCount = Math.ceil(byteCharacters.length / sliceSize);
-	const byteArrays: BlobPart[] = [];
-
-	for (let sliceIndex = 0; sliceIndex < slicesCount; sliceIndex++) {
-		const begin = sliceIndex * sliceSize;
-		const end = Math.min(begin + sliceSize, byteCharacters.length);
-		const bytes = new Array<number>(end - begin);
-
-		for (let offset = begin, i = 0; offset < end; offset += 1, i += 1) {
-			bytes[i] = byteCharacters.charCodeAt(offset);
-		}
-
-		byteArrays.push(new Uint8Array(bytes));
-	}
-
-	return new Blob(byteArrays, { type: mimeType });
-}
@@ -0,0 +1,13 @@
+import { createProgressEventStream, isProgressJobId } from "../lib/progress";
+import type { Route } from "./+types/progress";
+
+/**
+ * Server-Sent Events feed of a running build, subscribed to by the builder
+ * pages while their action is in flight.
+ */
+export function loader({ params, request }: Route.LoaderArgs) {
+	if (!isProgressJobId(params.jobId)) {
+		return new Response("Unknown job", { status: 404 });
+	}
+	return createProgressEventStream(params.jobId, request.signal);
+}
@@ -0,0 +1,744 @@
+import { Download, Loader2, Sparkles } from "lucide-react";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
+import { useFetcher } from "react-router";
+import {
+	BuildProgressList,
+	useBuildProgress,
+} from "../components/build-progress";
+import {
+	EntryFilterFields,
+	EntryFilterSummary,
+} from "../components/entry-filters";
+import { HttpCacheSummary } from "../components/http-cache-summary";
+import {
+	LLMsTxtExportField,
+	LLMsTxtExportLinks,
+} from "../components/llms-txt-export";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { fetchArticles, resolveEntryContent } from "../lib/article";
+import {
+	REDDIT_SORTS,
+	REDDIT_TIME_WINDOWS,
+	type RedditSort,
+	type RedditTimeWindow,
+} from "../lib/builder-options";
+import { createEntryId, SourceBundle, summarizeEntry } from "../lib/bundle";
+import { createDownload } from "../lib/downloads";
+import {
+	applyEntryFilters,
+	hasEntryFilters,
+	parseEntryFilters,
+} from "../lib/filters";
+import { getHttpCacheStats, withHttpCacheStats } from "../lib/http-cache";
+import { exportBundleAsLLMsTxt } from "../lib/llms-export";
+import {
+	type ProgressReporter,
+	reportArticleResult,
+	reportBundledEntries,
+	withProgress,
+} from "../lib/progress";
+import {
+	fetchRedditComments,
+	fetchRedditThread,
+	fetchSubredditPosts,
+	hasLinkedArticle,
+	type RedditPost,
+	toRedditDraft,
+} from "../lib/reddit";
+import { parseRedditTarget } from "../lib/reddit-target";
+import {
+	buildCanonicalLink,
+	buildMeta,
+	getCanonicalUrl,
+	siteConfig,
+} from "../lib/seo";
+import type { ActionData, EntryComment, FeedEntry } from "../lib/types";
+import { readBoundedInt } from "../lib/utils";
+import type { Route } from "./+types/reddit";
+
+const REDDIT_PATH = "/reddit";
+const REDDIT_DESCRIPTION =
+	"Export subreddit posts or a single Reddit thread, with linked articles and top comments, as a NotebookLM-ready bundle.";
+const REDDIT_KEYWORDS = [
+	"Reddit export",
+	"subreddit to NotebookLM",
+	"Reddit thread archive",
+	"NotebookLM bundle",
+	"NotebookLM tools",
+];
+const REDDIT_CANONICAL_URL = getCanonicalUrl(REDDIT_PATH);
+const REDDIT_JSON_LD = JSON.stringify({
+	"@context": "https://schema.org",
+	"@type": "SoftwareApplication",
+	name: `${siteConfig.name} – Reddit Source Builder`,
+	applicationCategory: "ProductivityApplication",
+	operatingSystem: "Web",
+	description: REDDIT_DESCRIPTION,
+	url: REDDIT_CANONICAL_URL,
+	sameAs: ["https://www.reddit.com"],
+	creator: {
+		"@type": "Person",
+		name: "Stone",
+	},
+	offers: {
+		"@type": "Offer",
+		price: "0",
+		priceCurrency: "USD",
+	},
+});
+
+const SORT_LABELS: Record<RedditSort, string> = {
+	hot: "Hot",
+	new: "New",
+	top: "Top",
+	rising: "Rising",
+};
+const TIME_WINDOW_LABELS: Record<RedditTimeWindow, string> = {
+	hour: "Past hour",
+	day: "Past 24 hours",
+	week: "Past week",
+	month: "Past month",
+	year: "Past year",
+	all: "All time",
+};
+
+export function meta(_args: Route.MetaArgs) {
+	return buildMeta({
+		title: "Reddit Source Builder",
+		description: REDDIT_DESCRIPTION,
+		path: REDDIT_PATH,
+		keywords: REDDIT_KEYWORDS,
+	});
+}
+
+export const links: Route.LinksFunction = () => [
+	buildCanonicalLink(REDDIT_PATH),
+];
+
+export const MAX_LIMIT = 40;
+export const MAX_COMMENT_DEPTH = 4;
+export const MAX_COMMENT_COUNT = 10;
+
+export async function action({ request }: Route.ActionArgs) {
+	const formData = await request.formData();
+	return withProgress(formData.get("jobId"), (progress) =>
+		withHttpCacheStats(() => buildRedditBundle(formData, progress)),
+	);
+}
+
+async function buildRedditBundle(
+	formData: FormData,
+	progress: ProgressReporter,
+) {
+	const targetRaw = formData.get("target");
+
+	if (typeof targetRaw !== "string" || targetRaw.trim().length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: "Please enter a subreddit or a Reddit thread URL.",
+			}),
+			{ status: 400, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	const target = parseRedditTarget(targetRaw);
+	if (!target) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error:
+					"That doesn’t look like a subreddit (e.g. r/programming) or a Reddit thread URL.",
+			}),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	const parsedFilters = parseEntryFilters(formData);
+	if (!parsedFilters.ok) {
+		return new Response(
+			JSON.stringify({ ok: false, error: parsedFilters.error }),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
+	const { filters } = parsedFilters;
+
+	const limit = readBoundedInt(formData.get("postCount"), 15, 1, MAX_LIMIT);
+	const sortRaw = formData.get("sort");
+	const sort = REDDIT_SORTS.find((value) => value === sortRaw) ?? "hot";
+	const timeRaw = formData.get("time");
+	const time = REDDIT_TIME_WINDOWS.find((value) => value === timeRaw) ?? "day";
+	// A single thread is only useful with its discussion.
+	const includeComments =
+		target.kind === "thread" || formData.get("includeComments") === "on";
+	const commentOptions = {
+		depth: readBoundedInt(
+			formData.get("commentDepth"),
+			2,
+			1,
+			MAX_COMMENT_DEPTH,
+		),
+		count: readBoundedInt(
+			formData.get("commentCount"),
+			5,
+			1,
+			MAX_COMMENT_COUNT,
+		),
+	};
+
+	let posts: RedditPost[];
+	let threadComments: EntryComment[] | null = null;
+	let sourceTitle: string;
+	let sourceDescription: string;
+	let sourceUrl: string;
+	if (target.kind === "thread") {
+		const result = await fetchRedditThread(target.permalink, commentOptions);
+		if (!result.ok) {
+			return new Response(JSON.stringify({ ok: false, error: result.error }), {
+				status: result.status,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+		const { post, comments } = result.value;
+		posts = [post];
+		threadComments = comments;
+		sourceTitle = post.title;
+		sourceDescription = `Reddit thread in r/${post.subreddit}`;
+		sourceUrl = new URL(post.permalink, "https://www.reddit.com").href;
+	} else {
+		// Ask for a full page so filters still leave enough posts for the limit.
+		const result = await fetchSubredditPosts(target.name, {
+			sort,
+			time,
+			limit: 100,
+		});
+		if (!result.ok) {
+			return new Response(JSON.stringify({ ok: false, error: result.error }), {
+				status: result.status,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+		posts = result.value;
+		sourceTitle = `r/${target.name}`;
+		sourceDescription =
+			sort === "top"
+				? `Top posts of r/${target.name} (${TIME_WINDOW_LABELS[time].toLowerCase()})`
+				: `${SORT_LABELS[sort]} posts of r/${target.name}`;
+		sourceUrl = `https://www.reddit.com/r/${target.name}/${sort}/`;
+	}
+
+	if (posts.length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: "That subreddit has no posts to export right now.",
+			}),
+			{ status: 404, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	const filtered = applyEntryFilters(
+		posts.map((post) => ({ ...toRedditDraft(post), post })),
+		filters,
+	);
+	if (filtered.drafts.length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error:
+					"None of the posts matched your filters. Loosen them and try again.",
+			}),
+			{ status: 404, headers: { "Content-Type": "application/json" } },
+		);
+	}
+	const drafts = filtered.drafts.slice(0, limit);
+	const entryIds = drafts.map((draft, index) =>
+		createEntryId(index + 1, draft.title),
+	);
+	for (const [index, draft] of drafts.entries()) {
+		progress.item(entryIds[index], draft.title, "fetched");
+	}
+
+	const linkedDrafts = drafts.filter(({ post }) => hasLinkedArticle(post));
+	const [linkedArticles, commentThreads] = await Promise.all([
+		fetchArticles(
+			linkedDrafts.map(({ url }) => url),
+			{
+				onResult: (article, index) => {
+					const draft = linkedDrafts[index];
+					reportArticleResult(
+						progress,
+						entryIds[drafts.indexOf(draft)],
+						draft.title,
+						article,
+					);
+				},
+			},
+		),
+		threadComments
+			? [threadComments]
+			: includeComments
+				? fetchRedditComments(
+						drafts.map(({ post }) => post),
+						commentOptions,
+					)
+				: null,
+	]);
+
+	const articlesByPost = new Map(
+		linkedDrafts.map(({ post }, index) => [post.id, linkedArticles[index]]),
+	);
+
+	const entries: FeedEntry[] = drafts.map(
+		({ feedText, post, ...draft }, index) => ({
+			id: entryIds[index],
+			...draft,
+			...resolveEntryContent(articlesByPost.get(post.id) ?? null, feedText),
+			comments: commentThreads?.[index],
+		}),
+	);
+
+	const bundle = new SourceBundle({
+		title: sourceTitle,
+		description: sourceDescription,
+		url: sourceUrl,
+		format: "reddit",
+	}).addEntries(entries);
+	const archive = await bundle.toUint8Array();
+	reportBundledEntries(progress, entries);
+
+	return new Response(
+		JSON.stringify({
+			ok: true,
+			download: createDownload({
+				...archive,
+				contentType: "application/zip",
+			}),
+			feed: {
+				title: sourceTitle,
+				description: sourceDescription,
+				url: sourceUrl,
+				format: "reddit",
+				totalEntries: posts.length,
+				extractedEntries: entries.length,
+			},
+			filtered: hasEntryFilters(filters) ? filtered.removed : undefined,
+			entries: entries.map(summarizeEntry),
+			llmsTxt:
+				formData.get("llmsTxt") === "on"
+					? exportBundleAsLLMsTxt(bundle)
+					: undefined,
+			cache: getHttpCacheStats(),
+		}),
+		{ status: 200, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+export default function Reddit() {
+	const fetcher = useFetcher<ActionData>();
+	const progress = useBuildProgress();
+	const [target, setTarget] = useState("");
+	const [postCount, setPostCount] = useState("15");
+	const [sort, setSort] = useState<RedditSort>("hot");
+	const [includeComments, setIncludeComments] = useState(false);
+
+	const isSubmitting = fetcher.state !== "idle";
+	const data = fetcher.data;
+	const errorMessage = data?.ok === false ? data.error : null;
+	const successPayload = data?.ok ? data : null;
+	const isThread = parseRedditTarget(target)?.kind === "thread";
+
+	useEffect(() => {
+		if (fetcher.state === "idle" && fetcher.formData == null) {
+			return;
+		}
+		if (fetcher.state === "submitting") {
+			const resultRegion = document.getElementById("conversion-result");
+			if (resultRegion) {
+				resultRegion.scrollIntoView({ behavior: "smooth", block: "start" });
+			}
+		}
+	}, [fetcher.state, fetcher.formData]);
+
+	const actionDescription = useMemo(() => {
+		if (isSubmitting) {
+			return "Fetching posts and preparing NotebookLM source bundle.";
+		}
+		if (successPayload) {
+			return "Finished building your NotebookLM bundle.";
+		}
+		if (errorMessage) {
+			return "We ran into an issue. See the message below.";
+		}
+		return "Enter a subreddit or thread and we’ll handle the rest.";
+	}, [errorMessage, isSubmitting, successPayload]);
+
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+		formData.set("jobId", progress.start());
+		fetcher.submit(formData, { method: "post" });
+	};
+
+	return (
+		<main className="min-h-screen ">
+			<script
+				type="application/ld+json"
+				suppressHydrationWarning
+				dangerouslySetInnerHTML={{ __html: REDDIT_JSON_LD }}
+			/>
+			<div className="mx-auto flex w-full max-w-5xl flex-col gap-12 px-4 pb-24 pt-16 sm:px-6 lg:px-8">
+				<header className="flex flex-col gap-6 rounded-sm border border-border/10">
+					<div className="flex items-center gap-3 text-sm ">
+						<Sparkles className="h-4 w-4" aria-hidden="true" />
+						<span>NotebookLM Toolkit · Reddit Source Builder</span>
+					</div>
+					<h1 className="text-balance text-4xl font-semibold leading-tight text-foreground sm:text-5xl">
+						Turn subreddits and Reddit threads into a NotebookLM source.
+					</h1>
+					<p className="max-w-2xl text-lg">
+						Fetch posts from a subreddit, or a single thread, and download a
+						ready-to-import zip bundle with self-post bodies, linked articles
+						and the top comments.
+					</p>
+				</header>
+
+				<section
+					className={`grid gap-10 ${data ? "" : "lg:grid-cols-[1.2fr,0.8fr]"}`}
+				>
+					<fetcher.Form
+						method="post"
+						onSubmit={handleSubmit}
+						className="flex flex-col gap-6 rounded-md border border-border/10 bg-card p-8 backdrop-blur text-foreground"
+					>
+						<div className="flex flex-col gap-2">
+							<label
+								className="text-sm font-medium text-foreground"
+								htmlFor="target"
+							>
+								Subreddit or thread URL
+							</label>
+							<Input
+								id="target"
+								name="target"
+								value={target}
+								onChange={(event) => setTarget(event.target.value)}
+								required
+								placeholder="r/programming"
+								aria-describedby="target-help"
+							/>
+							<p id="target-help" className="text-sm">
+								Use <code>r/name</code> or a subreddit URL to export its posts,
+								or paste a thread URL to export that discussion.
+							</p>
+						</div>
+
+						{isThread ? null : (
+							<div className="grid gap-4 sm:grid-cols-3">
+								<div className="flex flex-col gap-2">
+									<label className="text-sm font-medium" htmlFor="sort">
+										Sort
+									</label>
+									<select
+										id="sort"
+										name="sort"
+										value={sort}
+										onChange={(event) =>
+											setSort(event.target.value as RedditSort)
+										}
+										className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+									>
+										{REDDIT_SORTS.map((value) => (
+											<option key={value} value={value}>
+												{SORT_LABELS[value]}
+											</option>
+										))}
+									</select>
+								</div>
+								{sort === "top" ? (
+									<div className="flex flex-col gap-2">
+										<label className="text-sm font-medium" htmlFor="time">
+											Time window
+										</label>
+										<select
+											id="time"
+											name="time"
+											defaultValue="day"
+											className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+										>
+											{REDDIT_TIME_WINDOWS.map((value) => (
+												<option key={value} value={value}>
+													{TIME_WINDOW_LABELS[value]}
+												</option>
+											))}
+										</select>
+									</div>
+								) : null}
+								<div className="flex flex-col gap-2">
+									<label className="text-sm font-medium" htmlFor="postCount">
+										Posts
+									</label>
+									<Input
+										id="postCount"
+										name="postCount"
+										type="number"
+										min={1}
+										max={MAX_LIMIT}
+										value={postCount}
+										onChange={(event) => setPostCount(event.target.value)}
+									/>
+								</div>
+							</div>
+						)}
+
+						<div className="flex items-start gap-3">
+							<input
+								id="includeComments"
+								name="includeComments"
+								type="checkbox"
+								checked={isThread || includeComments}
+								disabled={isThread}
+								onChange={(event) => setIncludeComments(event.target.checked)}
+								className="mt-1 h-4 w-4 accent-primary"
+								aria-describedby="includeComments-help"
+							/>
+							<div className="flex flex-col gap-2">
+								<label
+									className="text-sm font-medium"
+									htmlFor="includeComments"
+								>
+									Include top comments
+								</label>
+								<p id="includeComments-help" className="text-sm">
+									Adds each post’s top comments as a threaded Discussion
+									section. Threads always include their comments.
+								</p>
+								{isThread || includeComments ? (
+									<div className="flex flex-wrap gap-4 text-sm">
+										<div className="flex items-center gap-2">
+											<label htmlFor="commentCount">Top comments</label>
+											<Input
+												id="commentCount"
+												name="commentCount"
+												type="number"
+												min={1}
+												max={MAX_COMMENT_COUNT}
+												defaultValue={5}
+												className="w-20"
+											/>
+										</div>
+										<div className="flex items-center gap-2">
+											<label htmlFor="commentDepth">Reply depth</label>
+											<Input
+												id="commentDepth"
+												name="commentDepth"
+												type="number"
+												min={1}
+												max={MAX_COMMENT_DEPTH}
+												defaultValue={2}
+												className="w-20"
+											/>
+										</div>
+									</div>
+								) : null}
+							</div>
+						</div>
+
+						<EntryFilterFields />
+
+						<LLMsTxtExportField />
+
+						<div className="flex flex-col gap-2">
+							<span className="text-sm font-medium">What happens next</span>
+							<ul className="list-disc space-y-1 pl-5 text-sm">
+								<li>Posts are fetched from Reddit’s public JSON endpoints.</li>
+								<li>
+									Linked articles are extracted with Readability; self posts
+									keep their own text.
+								</li>
+								<li>You get a downloadable zip bundle ready for import.</li>
+							</ul>
+						</div>
+
+						<div className="flex flex-col gap-3">
+							<Button type="submit" disabled={isSubmitting}>
+								{isSubmitting ? (
+									<>
+										<Loader2
+											className="h-4 w-4 animate-spin"
+											aria-hidden="true"
+										/>
+										Building…
+									</>
+								) : (
+									<>
+										<Download className="h-4 w-4" aria-hidden="true" />
+										Build NotebookLM bundle
+									</>
+								)}
+							</Button>
+							<span className="text-sm" aria-live="polite">
+								{actionDescription}
+							</span>
+						</div>
+					</fetcher.Form>
+				</section>
+
+				{isSubmitting ? (
+					<section
+						className="space-y-4 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+						aria-busy="true"
+					>
+						<h2 className="text-2xl font-semibold text-white">Progress</h2>
+						<BuildProgressList items={progress.items} />
+					</section>
+				) : null}
+
+				{data ? (
+					<section
+						id="conversion-result"
+						className="space-y-6 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+					>
+						<h2 className="text-2xl font-semibold text-white">
+							Conversion status
+						</h2>
+						{errorMessage ? (
+							<div className="rounded-2xl border border-red-400/60 bg-red-500/10 p-5 text-red-200">
+								<p className="font-medium">We hit a snag.</p>
+								<p className="mt-1 text-sm text-red-100">{errorMessage}</p>
+							</div>
+						) : successPayload ? (
+							<div className="space-y-5">
+								<div className="grid gap-4 rounded-2xl border border-emerald-400/60 bg-emerald-500/10 p-5 text-emerald-100 sm:grid-cols-2">
+									<div>
+										<p className="text-sm uppercase tracking-wide text-emerald-200">
+											Source
+										</p>
+										<p className="mt-1 text-lg font-semibold text-white">
+											{successPayload.feed.title}
+										</p>
+										<p className="mt-1 text-sm text-emerald-100/80">
+											{successPayload.feed.description}
+										</p>
+										{successPayload.feed.url ? (
+											<a
+												href={successPayload.feed.url}
+												target="_blank"
+												rel="noreferrer"
+												className="mt-2 inline-flex items-center gap-2 text-sm font-medium text-emerald-200 underline decoration-dotted underline-offset-4 transition hover:text-emerald-50"
+											>
+												Open on Reddit
+											</a>
+										) : null}
+									</div>
+									<div className="flex flex-col justify-between gap-3 rounded-xl bg-black/40 p-4 text-sm text-emerald-100">
+										<p>
+											Extracted{" "}
+											<strong className="text-white">
+												{successPayload.feed.extractedEntries}
+											</strong>{" "}
+											of
+											<strong className="text-white">
+												{" "}
+												{successPayload.feed.totalEntries}
+											</strong>{" "}
+											posts.
+										</p>
+										{successPayload.filtered ? (
+											<EntryFilterSummary report={successPayload.filtered} />
+										) : null}
+										<a
+											href={successPayload.download.url}
+											download={successPayload.download.fileName}
+											className="inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-300 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-100"
+										>
+											<Download className="h-4 w-4" aria-hidden="true" />
+											Download NotebookLM bundle
+										</a>
+										{successPayload.llmsTxt ? (
+											<LLMsTxtExportLinks exported={successPayload.llmsTxt} />
+										) : null}
+										{successPayload.cache ? (
+											<HttpCacheSummary stats={successPayload.cache} />
+										) : null}
+									</div>
+								</div>
+
+								<div className="space-y-3">
+									<h3 className="text-lg font-semibold text-white">
+										Included posts
+									</h3>
+									<ul className="space-y-3">
+										{successPayload.entries.map((entry) => (
+											<li
+												key={entry.id}
+												className="rounded-2xl border border-white/10 bg-white/5 p-4"
+											>
+												<div className="flex flex-col gap-2">
+													<div className="flex flex-wrap items-center justify-between gap-2">
+														<p className="text-base font-semibold text-white">
+															{entry.title}
+														</p>
+														<div className="flex items-center gap-2">
+															<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																{entry.contentSource === "article"
+																	? "Linked article"
+																	: "Post body"}
+															</span>
+															<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																{entry.wordCount.toLocaleString()} words
+															</span>
+															{entry.commentCount > 0 ? (
+																<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																	{entry.commentCount} comments
+																</span>
+															) : null}
+														</div>
+													</div>
+													<p className="text-xs uppercase tracking-wide text-slate-300">
+														{entry.publishedAt
+															? new Date(entry.publishedAt).toLocaleString()
+															: "Publish date unavailable"}
+													</p>
+													<p className="text-sm text-slate-200">
+														{entry.summary}
+														{entry.summary.length >= 320 ? "…" : ""}
+													</p>
+													{entry.fetchFailure ? (
+														<p className="text-xs text-amber-200">
+															{entry.fetchFailure.reason === "timeout"
+																? "Article fetch timed out"
+																: "Article unavailable"}
+															: {entry.fetchFailure.message}. Using the post
+															body instead.
+														</p>
+													) : null}
+													<a
+														href={entry.url}
+														target="_blank"
+														rel="noreferrer"
+														className="inline-flex w-fit items-center gap-2 text-sm font-medium text-sky-300 underline decoration-dotted underline-offset-4 transition hover:text-sky-100"
+													>
+														Open original
+													</a>
+												</div>
+											</li>
+										))}
+									</ul>
+								</div>
+							</div>
+						) : (
+							<div className="rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-slate-200">
+								Conversion updates and the download link will appear here after
+								you start the build.
+							</div>
+						)}
+					</section>
+				) : null}
+			</div>
+		</main>
+	);
+}
@@ -0,0 +1,601 @@
+import { Download, Loader2, Sparkles } from "lucide-react";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
+import { useFetcher } from "react-router";
+import {
+	BuildProgressList,
+	useBuildProgress,
+} from "../components/build-progress";
+import { HttpCacheSummary } from "../components/http-cache-summary";
+import {
+	LLMsTxtExportField,
+	LLMsTxtExportLinks,
+} from "../components/llms-txt-export";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { MAX_SITEMAP_PAGES } from "../lib/builder-options";
+import { createEntryId, SourceBundle, summarizeEntry } from "../lib/bundle";
+import { createDownload } from "../lib/downloads";
+import { scheduleFetches } from "../lib/fetch-scheduler";
+import { assertSafePattern } from "../lib/filters";
+import { getHttpCacheStats, withHttpCacheStats } from "../lib/http-cache";
+import { bundleToLLMsTxt, exportBundleAsLLMsTxt } from "../lib/llms-export";
+import { type ProgressReporter, withProgress } from "../lib/progress";
+import {
+	buildCanonicalLink,
+	buildMeta,
+	getCanonicalUrl,
+	siteConfig,
+} from "../lib/seo";
+import { collectSitemapPages, fetchSitemapPage } from "../lib/sitemap";
+import type { ActionData, FeedEntry } from "../lib/types";
+import { readBoundedInt } from "../lib/utils";
+import type { Route } from "./+types/sitemap";
+
+const SITEMAP_PATH = "/sitemap";
+const SITEMAP_DESCRIPTION =
+	"Crawl a website through its sitemap.xml and export the pages as a NotebookLM bundle or an llms-full.txt, no API keys needed.";
+const SITEMAP_KEYWORDS = [
+	"sitemap crawler",
+	"website to NotebookLM",
+	"llms-full.txt generator",
+	"NotebookLM bundle",
+	"NotebookLM tools",
+];
+const SITEMAP_CANONICAL_URL = getCanonicalUrl(SITEMAP_PATH);
+const SITEMAP_JSON_LD = JSON.stringify({
+	"@context": "https://schema.org",
+	"@type": "SoftwareApplication",
+	name: `${siteConfig.name} – Sitemap Crawler`,
+	applicationCategory: "ProductivityApplication",
+	operatingSystem: "Web",
+	description: SITEMAP_DESCRIPTION,
+	url: SITEMAP_CANONICAL_URL,
+	creator: {
+		"@type": "Person",
+		name: "Stone",
+	},
+	offers: {
+		"@type": "Offer",
+		price: "0",
+		priceCurrency: "USD",
+	},
+});
+
+export function meta(_args: Route.MetaArgs) {
+	return buildMeta({
+		title: "Sitemap Crawler",
+		description: SITEMAP_DESCRIPTION,
+		path: SITEMAP_PATH,
+		keywords: SITEMAP_KEYWORDS,
+	});
+}
+
+export const links: Route.LinksFunction = () => [
+	buildCanonicalLink(SITEMAP_PATH),
+];
+
+type SitemapOutput = "bundle" | "llms-full";
+
+export async function action({ request }: Route.ActionArgs) {
+	const formData = await request.formData();
+	return withProgress(formData.get("jobId"), (progress) =>
+		withHttpCacheStats(() => crawlSitemap(formData, progress)),
+	);
+}
+
+async function crawlSitemap(formData: FormData, progress: ProgressReporter) {
+	const siteUrlRaw = formData.get("siteUrl");
+	const pathPrefixRaw = formData.get("pathPrefix");
+	const patternRaw = formData.get("pattern");
+	const output: SitemapOutput =
+		formData.get("output") === "llms-full" ? "llms-full" : "bundle";
+	const limit = readBoundedInt(
+		formData.get("maxPages"),
+		25,
+		1,
+		MAX_SITEMAP_PAGES,
+	);
+
+	if (typeof siteUrlRaw !== "string" || siteUrlRaw.trim().length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: "Please enter a website or sitemap URL.",
+			}),
+			{ status: 400, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	let siteUrl: URL;
+	try {
+		siteUrl = new URL(siteUrlRaw.trim());
+		if (siteUrl.protocol !== "http:" && siteUrl.protocol !== "https:") {
+			throw new Error("Unsupported protocol");
+		}
+	} catch {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: "That doesn’t look like a valid website URL.",
+			}),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	let pattern: RegExp | null = null;
+	if (typeof patternRaw === "string" && patternRaw.trim().length > 0) {
+		try {
+			assertSafePattern(patternRaw.trim());
+			pattern = new RegExp(patternRaw.trim());
+		} catch (error) {
+			return new Response(
+				JSON.stringify({
+					ok: false,
+					error: `The URL pattern can’t be used: ${
+						error instanceof Error ? error.message : "unknown error"
+					}.`,
+				}),
+				{ status: 422, headers: { "Content-Type": "application/json" } },
+			);
+		}
+	}
+	const pathPrefix =
+		typeof pathPrefixRaw === "string" && pathPrefixRaw.trim().length > 0
+			? `/${pathPrefixRaw.trim().replace(/^\/+/, "")}`
+			: null;
+
+	const crawl = await collectSitemapPages(siteUrl, {
+		filters: { pathPrefix, pattern },
+		limit,
+	});
+	if (!crawl.ok) {
+		return new Response(JSON.stringify({ ok: false, error: crawl.error }), {
+			status: crawl.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	const { pages, sitemaps, skipped } = crawl.value;
+	if (pages.length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error:
+					skipped.filtered > 0
+						? "No pages in the sitemap matched your path prefix or pattern."
+						: skipped.robots > 0
+							? "Every page in the sitemap is disallowed by the site’s robots.txt."
+							: "The sitemap doesn’t list any pages on this site.",
+			}),
+			{ status: 404, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	for (const page of pages) {
+		progress.item(page.url, page.url, "fetched");
+	}
+	const results = await scheduleFetches(
+		pages.map(({ url }) => url),
+		(url, signal) => fetchSitemapPage(url, { signal }),
+		undefined,
+		(result, index) => {
+			const { url } = pages[index];
+			if (result.ok && result.value) {
+				progress.item(url, result.value.title ?? url, "extracted");
+			} else {
+				progress.item(
+					url,
+					url,
+					"failed",
+					result.ok ? "No readable article content found" : result.error,
+				);
+			}
+		},
+	);
+
+	const entries: FeedEntry[] = [];
+	for (const [index, page] of pages.entries()) {
+		const result = results[index];
+		const article = result.ok ? result.value : null;
+		if (!article) continue;
+		const title = article.title ?? new URL(page.url).pathname;
+		entries.push({
+			id: createEntryId(entries.length + 1, title),
+			title,
+			url: page.url,
+			publishedAt: page.lastModified,
+			textContent: article.text,
+			contentSource: "article",
+			fetchFailure: null,
+		});
+	}
+
+	if (entries.length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error:
+					"None of the pages in the sitemap had readable content. Try a different path prefix.",
+			}),
+			{ status: 502, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	const title = siteUrl.hostname;
+	const readSitemaps = sitemaps.filter((sitemap) => sitemap.error === null);
+	const description = [
+		`Crawled ${entries.length} of ${pages.length} pages from ${readSitemaps.length} ${readSitemaps.length === 1 ? "sitemap" : "sitemaps"}.`,
+		skipped.robots > 0
+			? `${skipped.robots} listed pages were disallowed by robots.txt.`
+			: null,
+	]
+		.filter(Boolean)
+		.join(" ");
+	const date = new Date().toISOString().slice(0, 10);
+	const siteName = siteUrl.hostname.replace(/\./g, "-");
+
+	const bundle = new SourceBundle({
+		title,
+		description,
+		url: siteUrl.origin,
+		format: "sitemap",
+	}).addEntries(entries);
+	const download =
+		output === "llms-full"
+			? createDownload({
+					data: new TextEncoder().encode(bundleToLLMsTxt(bundle).llmsFullTxt),
+					fileName: `llms-full-${siteName}-${date}.txt`,
+					contentType: "text/plain; charset=utf-8",
+				})
+			: createDownload({
+					...(await bundle.toUint8Array()),
+					contentType: "application/zip",
+				});
+	for (const entry of entries) {
+		progress.item(entry.url, entry.title, "zipped");
+	}
+
+	return new Response(
+		JSON.stringify({
+			ok: true,
+			download,
+			feed: {
+				title,
+				description,
+				url: siteUrl.origin,
+				format: "sitemap",
+				totalEntries: pages.length,
+				extractedEntries: entries.length,
+			},
+			entries: entries.map(summarizeEntry),
+			llmsTxt:
+				formData.get("llmsTxt") === "on"
+					? exportBundleAsLLMsTxt(bundle)
+					: undefined,
+			cache: getHttpCacheStats(),
+		}),
+		{ status: 200, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+export default function Sitemap() {
+	const fetcher = useFetcher<ActionData>();
+	const progress = useBuildProgress();
+	const [siteUrl, setSiteUrl] = useState("");
+	const [pathPrefix, setPathPrefix] = useState("");
+	const [pattern, setPattern] = useState("");
+	const [maxPages, setMaxPages] = useState("25");
+	const [output, setOutput] = useState<SitemapOutput>("bundle");
+
+	const isSubmitting = fetcher.state !== "idle";
+	const data = fetcher.data;
+	const errorMessage = data?.ok === false ? data.error : null;
+	const successPayload = data?.ok ? data : null;
+	const isLlmsFull = successPayload?.download.fileName.endsWith(".txt");
+
+	useEffect(() => {
+		if (fetcher.state === "idle" && fetcher.formData == null) {
+			return;
+		}
+		if (fetcher.state === "submitting") {
+			const resultRegion = document.getElementById("conversion-result");
+			if (resultRegion) {
+				resultRegion.scrollIntoView({ behavior: "smooth", block: "start" });
+			}
+		}
+	}, [fetcher.state, fetcher.formData]);
+
+	const actionDescription = useMemo(() => {
+		if (isSubmitting) {
+			return "Reading the sitemap and extracting pages.";
+		}
+		if (successPayload) {
+			return "Finished crawling the site.";
+		}
+		if (errorMessage) {
+			return "We ran into an issue. See the message below.";
+		}
+		return "Paste a website or sitemap URL and we’ll handle the rest.";
+	}, [errorMessage, isSubmitting, successPayload]);
+
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+		formData.set("jobId", progress.start());
+		fetcher.submit(formData, { method: "post" });
+	};
+
+	return (
+		<main className="min-h-screen ">
+			<script
+				type="application/ld+json"
+				suppressHydrationWarning
+				dangerouslySetInnerHTML={{ __html: SITEMAP_JSON_LD }}
+			/>
+			<div className="mx-auto flex w-full max-w-5xl flex-col gap-12 px-4 pb-24 pt-16 sm:px-6 lg:px-8">
+				<header className="flex flex-col gap-6 rounded-sm border border-border/10">
+					<div className="flex items-center gap-3 text-sm ">
+						<Sparkles className="h-4 w-4" aria-hidden="true" />
+						<span>NotebookLM Toolkit · Sitemap Crawler</span>
+					</div>
+					<h1 className="text-balance text-4xl font-semibold leading-tight text-foreground sm:text-5xl">
+						Crawl a whole site into NotebookLM.
+					</h1>
+					<p className="max-w-2xl text-lg">
+						Paste a website or sitemap URL. Pages listed in its sitemap are
+						extracted with Readability and packed into a zip bundle or a single
+						llms-full.txt, without any third-party API keys.
+					</p>
+				</header>
+
+				<section
+					className={`grid gap-10 ${data ? "" : "lg:grid-cols-[1.2fr,0.8fr]"}`}
+				>
+					<fetcher.Form
+						method="post"
+						onSubmit={handleSubmit}
+						className="flex flex-col gap-6 rounded-md border border-border/10 bg-card p-8 backdrop-blur text-foreground"
+					>
+						<div className="flex flex-col gap-2">
+							<label
+								className="text-sm font-medium text-foreground"
+								htmlFor="siteUrl"
+							>
+								Website or sitemap URL
+							</label>
+							<Input
+								id="siteUrl"
+								name="siteUrl"
+								value={siteUrl}
+								onChange={(event) => setSiteUrl(event.target.value)}
+								required
+								type="url"
+								placeholder="https://docs.example.com"
+							/>
+						</div>
+
+						<div className="grid gap-4 sm:grid-cols-2">
+							<div className="flex flex-col gap-2">
+								<label className="text-sm font-medium" htmlFor="pathPrefix">
+									Path prefix
+								</label>
+								<Input
+									id="pathPrefix"
+									name="pathPrefix"
+									value={pathPrefix}
+									onChange={(event) => setPathPrefix(event.target.value)}
+									placeholder="/docs/"
+								/>
+							</div>
+							<div className="flex flex-col gap-2">
+								<label className="text-sm font-medium" htmlFor="pattern">
+									URL pattern
+								</label>
+								<Input
+									id="pattern"
+									name="pattern"
+									value={pattern}
+									onChange={(event) => setPattern(event.target.value)}
+									placeholder="^/blog/\d{4}/"
+									aria-describedby="pattern-help"
+								/>
+								<p id="pattern-help" className="text-sm">
+									Regular expression matched against the path and query.
+								</p>
+							</div>
+							<div className="flex flex-col gap-2">
+								<label className="text-sm font-medium" htmlFor="maxPages">
+									How many pages?
+								</label>
+								<Input
+									id="maxPages"
+									name="maxPages"
+									type="number"
+									min={1}
+									max={MAX_SITEMAP_PAGES}
+									value={maxPages}
+									onChange={(event) => setMaxPages(event.target.value)}
+								/>
+							</div>
+							<div className="flex flex-col gap-2">
+								<label className="text-sm font-medium" htmlFor="output">
+									Output
+								</label>
+								<select
+									id="output"
+									name="output"
+									value={output}
+									onChange={(event) =>
+										setOutput(event.target.value as SitemapOutput)
+									}
+									className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+								>
+									<option value="bundle">NotebookLM bundle (.zip)</option>
+									<option value="llms-full">llms-full.txt</option>
+								</select>
+							</div>
+						</div>
+
+						<LLMsTxtExportField />
+
+						<div className="flex flex-col gap-2">
+							<span className="text-sm font-medium">What happens next</span>
+							<ul className="list-disc space-y-1 pl-5 text-sm">
+								<li>
+									Sitemaps are found through robots.txt, including sitemap
+									indexes and gzipped sitemaps.
+								</li>
+								<li>Pages disallowed by robots.txt are left out.</li>
+								<li>
+									Each page’s main content is extracted, the same way full
+									articles are fetched for feeds.
+								</li>
+							</ul>
+						</div>
+
+						<div className="flex flex-col gap-3">
+							<Button type="submit" disabled={isSubmitting}>
+								{isSubmitting ? (
+									<>
+										<Loader2
+											className="h-4 w-4 animate-spin"
+											aria-hidden="true"
+										/>
+										Crawling…
+									</>
+								) : (
+									<>
+										<Download className="h-4 w-4" aria-hidden="true" />
+										{output === "llms-full"
+											? "Build llms-full.txt"
+											: "Build NotebookLM bundle"}
+									</>
+								)}
+							</Button>
+							<span className="text-sm" aria-live="polite">
+								{actionDescription}
+							</span>
+						</div>
+					</fetcher.Form>
+				</section>
+
+				{isSubmitting ? (
+					<section
+						className="space-y-4 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+						aria-busy="true"
+					>
+						<h2 className="text-2xl font-semibold text-white">Progress</h2>
+						<BuildProgressList items={progress.items} />
+					</section>
+				) : null}
+
+				{data ? (
+					<section
+						id="conversion-result"
+						className="space-y-6 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+					>
+						<h2 className="text-2xl font-semibold text-white">
+							Conversion status
+						</h2>
+						{errorMessage ? (
+							<div className="rounded-2xl border border-red-400/60 bg-red-500/10 p-5 text-red-200">
+								<p className="font-medium">We hit a snag.</p>
+								<p className="mt-1 text-sm text-red-100">{errorMessage}</p>
+							</div>
+						) : successPayload ? (
+							<div className="space-y-5">
+								<div className="grid gap-4 rounded-2xl border border-emerald-400/60 bg-emerald-500/10 p-5 text-emerald-100 sm:grid-cols-2">
+									<div>
+										<p className="text-sm uppercase tracking-wide text-emerald-200">
+											Site
+										</p>
+										<p className="mt-1 text-lg font-semibold text-white">
+											{successPayload.feed.title}
+										</p>
+										<p className="mt-1 text-sm text-emerald-100/80">
+											{successPayload.feed.description}
+										</p>
+									</div>
+									<div className="flex flex-col justify-between gap-3 rounded-xl bg-black/40 p-4 text-sm text-emerald-100">
+										<p>
+											Extracted{" "}
+											<strong className="text-white">
+												{successPayload.feed.extractedEntries}
+											</strong>{" "}
+											of
+											<strong className="text-white">
+												{" "}
+												{successPayload.feed.totalEntries}
+											</strong>{" "}
+											pages.
+										</p>
+										<a
+											href={successPayload.download.url}
+											download={successPayload.download.fileName}
+											className="inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-300 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-100"
+										>
+											<Download className="h-4 w-4" aria-hidden="true" />
+											{isLlmsFull
+												? "Download llms-full.txt"
+												: "Download NotebookLM bundle"}
+										</a>
+										{successPayload.llmsTxt ? (
+											<LLMsTxtExportLinks exported={successPayload.llmsTxt} />
+										) : null}
+										{successPayload.cache ? (
+											<HttpCacheSummary stats={successPayload.cache} />
+										) : null}
+									</div>
+								</div>
+
+								<div className="space-y-3">
+									<h3 className="text-lg font-semibold text-white">
+										Included pages
+									</h3>
+									<ul className="space-y-3">
+										{successPayload.entries.map((entry) => (
+											<li
+												key={entry.id}
+												className="rounded-2xl border border-white/10 bg-white/5 p-4"
+											>
+												<div className="flex flex-col gap-2">
+													<div className="flex flex-wrap items-center justify-between gap-2">
+														<p className="text-base font-semibold text-white">
+															{entry.title}
+														</p>
+														<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+															{entry.wordCount.toLocaleString()} words
+														</span>
+													</div>
+													<p className="text-sm text-slate-200">
+														{entry.summary}
+														{entry.summary.length >= 320 ? "…" : ""}
+													</p>
+													<a
+														href={entry.url}
+														target="_blank"
+														rel="noreferrer"
+														className="inline-flex w-fit items-center gap-2 text-sm font-medium text-sky-300 underline decoration-dotted underline-offset-4 transition hover:text-sky-100"
+													>
+														Open page
+													</a>
+												</div>
+											</li>
+										))}
+									</ul>
+								</div>
+							</div>
+						) : (
+							<div className="rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-slate-200">
+								Crawl updates and the download link will appear here after you
+								start the build.
+							</div>
+						)}
+					</section>
+				) : null}
+			</div>
+		</main>
+	);
+}
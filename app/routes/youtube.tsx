@@ -0,0 +1,609 @@
+import { Download, Loader2, Sparkles } from "lucide-react";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
+import { useFetcher } from "react-router";
+import {
+	BuildProgressList,
+	useBuildProgress,
+} from "../components/build-progress";
+import {
+	LLMsTxtExportField,
+	LLMsTxtExportLinks,
+} from "../components/llms-txt-export";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { createEntryId, SourceBundle, summarizeEntry } from "../lib/bundle";
+import { createDownload } from "../lib/downloads";
+import { scheduleFetches } from "../lib/fetch-scheduler";
+import { exportBundleAsLLMsTxt } from "../lib/llms-export";
+import { type ProgressReporter, withProgress } from "../lib/progress";
+import {
+	buildCanonicalLink,
+	buildMeta,
+	getCanonicalUrl,
+	siteConfig,
+} from "../lib/seo";
+import type { ActionData, FeedEntry } from "../lib/types";
+import { readBoundedInt } from "../lib/utils";
+import {
+	fetchVideoTranscript,
+	fetchYouTubeFeed,
+	getVideoUrl,
+	renderTranscript,
+	resolveChannelId,
+	type YouTubeVideo,
+} from "../lib/youtube";
+import { parseYouTubeTarget } from "../lib/youtube-target";
+import type { Route } from "./+types/youtube";
+
+const YOUTUBE_PATH = "/youtube";
+const YOUTUBE_DESCRIPTION =
+	"Turn YouTube channels, playlists and videos into NotebookLM bundles with timestamped transcripts.";
+const YOUTUBE_KEYWORDS = [
+	"YouTube transcript export",
+	"YouTube to NotebookLM",
+	"video transcript Markdown",
+	"NotebookLM bundle",
+	"NotebookLM tools",
+];
+const YOUTUBE_CANONICAL_URL = getCanonicalUrl(YOUTUBE_PATH);
+const YOUTUBE_JSON_LD = JSON.stringify({
+	"@context": "https://schema.org",
+	"@type": "SoftwareApplication",
+	name: `${siteConfig.name} – YouTube Transcript Source Builder`,
+	applicationCategory: "ProductivityApplication",
+	operatingSystem: "Web",
+	description: YOUTUBE_DESCRIPTION,
+	url: YOUTUBE_CANONICAL_URL,
+	sameAs: ["https://www.youtube.com"],
+	creator: {
+		"@type": "Person",
+		name: "Stone",
+	},
+	offers: {
+		"@type": "Offer",
+		price: "0",
+		priceCurrency: "USD",
+	},
+});
+
+export function meta(_args: Route.MetaArgs) {
+	return buildMeta({
+		title: "YouTube Transcript Source Builder",
+		description: YOUTUBE_DESCRIPTION,
+		path: YOUTUBE_PATH,
+		keywords: YOUTUBE_KEYWORDS,
+	});
+}
+
+export const links: Route.LinksFunction = () => [
+	buildCanonicalLink(YOUTUBE_PATH),
+];
+
+/**
+ * Channel and playlist feeds only list the latest 15 videos.
+ */
+export const MAX_LIMIT = 15;
+
+export async function action({ request }: Route.ActionArgs) {
+	const formData = await request.formData();
+	return withProgress(formData.get("jobId"), (progress) =>
+		buildYouTubeBundle(formData, progress),
+	);
+}
+
+async function buildYouTubeBundle(
+	formData: FormData,
+	progress: ProgressReporter,
+) {
+	const targetRaw = formData.get("target");
+	const languageRaw = formData.get("language");
+	const language =
+		typeof languageRaw === "string" &&
+		/^[a-z]{2,3}(-[\w]+)?$/i.test(languageRaw)
+			? languageRaw
+			: "en";
+	const limit = readBoundedInt(formData.get("videoCount"), 10, 1, MAX_LIMIT);
+
+	if (typeof targetRaw !== "string" || targetRaw.trim().length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: "Please enter a YouTube channel, playlist or video URL.",
+			}),
+			{ status: 400, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	let target = parseYouTubeTarget(targetRaw);
+	if (!target) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error:
+					"That doesn’t look like a YouTube channel, playlist or video URL.",
+			}),
+			{ status: 422, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	if (target.kind === "channelPage") {
+		const channelId = await resolveChannelId(target.url);
+		if (!channelId) {
+			return new Response(
+				JSON.stringify({
+					ok: false,
+					error:
+						"We couldn’t find that channel. Try the channel’s /channel/UC… URL instead.",
+				}),
+				{ status: 404, headers: { "Content-Type": "application/json" } },
+			);
+		}
+		target = { kind: "channel", channelId };
+	}
+
+	let videos: YouTubeVideo[];
+	let sourceTitle: string | null = null;
+	let sourceUrl: string;
+	if (target.kind === "video") {
+		sourceUrl = getVideoUrl(target.videoId);
+		videos = [
+			{
+				videoId: target.videoId,
+				title: null,
+				url: sourceUrl,
+				publishedAt: null,
+				author: null,
+			},
+		];
+	} else {
+		const result = await fetchYouTubeFeed(target);
+		if (!result.ok) {
+			return new Response(
+				JSON.stringify({
+					ok: false,
+					error:
+						"We couldn’t load that channel or playlist. Check that it is public and try again.",
+				}),
+				{
+					status: result.status,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+		videos = result.videos.slice(0, limit);
+		sourceTitle = result.feed.title;
+		sourceUrl = result.feed.link ?? result.feedUrl;
+	}
+
+	if (videos.length === 0) {
+		return new Response(
+			JSON.stringify({
+				ok: false,
+				error: "That channel or playlist doesn’t have any videos yet.",
+			}),
+			{ status: 404, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	for (const video of videos) {
+		progress.item(video.videoId, video.title ?? video.url, "fetched");
+	}
+
+	const videoIds = new Map(videos.map((video) => [video.url, video.videoId]));
+	const transcripts = await scheduleFetches(
+		videos.map(({ url }) => url),
+		(url, signal) =>
+			fetchVideoTranscript(videoIds.get(url) ?? "", { language, signal }),
+		undefined,
+		(result, index) => {
+			const video = videos[index];
+			const transcript = result.ok ? result.value : null;
+			const label = transcript?.title ?? video.title ?? video.url;
+			if (transcript?.cues) {
+				progress.item(video.videoId, label, "extracted");
+			} else {
+				progress.item(
+					video.videoId,
+					label,
+					"failed",
+					result.ok ? (transcript?.failure?.message ?? null) : result.error,
+				);
+			}
+		},
+	);
+
+	const entries: FeedEntry[] = videos.map((video, index) => {
+		const result = transcripts[index];
+		const transcript = result.ok ? result.value : null;
+		const title = transcript?.title ?? video.title ?? `Video ${index + 1}`;
+		const body = transcript?.cues
+			? renderTranscript(video.videoId, transcript.cues, transcript.chapters)
+			: transcript?.description.trim() ||
+				"(No transcript or description available)";
+		return {
+			id: createEntryId(index + 1, title),
+			title,
+			url: video.url,
+			guid: `yt:video:${video.videoId}`,
+			publishedAt: video.publishedAt ?? transcript?.publishedAt ?? null,
+			authors: [video.author ?? transcript?.author].filter(
+				(author): author is string => Boolean(author),
+			),
+			categories: transcript?.language
+				? [`captions:${transcript.language}`]
+				: [],
+			textContent: body,
+			contentSource: transcript?.cues ? "transcript" : "feed",
+			fetchFailure: result.ok
+				? (transcript?.failure ?? null)
+				: {
+						reason: result.reason,
+						message: result.error,
+					},
+		};
+	});
+
+	const title = sourceTitle ?? entries[0].title;
+	const description =
+		target.kind === "video"
+			? "YouTube video transcript"
+			: `Transcripts of the latest videos from ${title}`;
+	const bundle = new SourceBundle({
+		title,
+		description,
+		url: sourceUrl,
+		format: "youtube",
+	}).addEntries(entries);
+	const archive = await bundle.toUint8Array();
+	for (const [index, entry] of entries.entries()) {
+		progress.item(
+			videos[index].videoId,
+			entry.title,
+			"zipped",
+			entry.contentSource === "transcript"
+				? null
+				: "Used the video description",
+		);
+	}
+
+	return new Response(
+		JSON.stringify({
+			ok: true,
+			download: createDownload({
+				...archive,
+				contentType: "application/zip",
+			}),
+			feed: {
+				title,
+				description,
+				url: sourceUrl,
+				format: "youtube",
+				totalEntries: videos.length,
+				extractedEntries: entries.filter(
+					(entry) => entry.contentSource === "transcript",
+				).length,
+			},
+			entries: entries.map(summarizeEntry),
+			llmsTxt:
+				formData.get("llmsTxt") === "on"
+					? exportBundleAsLLMsTxt(bundle)
+					: undefined,
+		}),
+		{ status: 200, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+export default function YouTube() {
+	const fetcher = useFetcher<ActionData>();
+	const progress = useBuildProgress();
+	const [target, setTarget] = useState("");
+	const [videoCount, setVideoCount] = useState("10");
+	const [language, setLanguage] = useState("en");
+
+	const isSubmitting = fetcher.state !== "idle";
+	const data = fetcher.data;
+	const errorMessage = data?.ok === false ? data.error : null;
+	const successPayload = data?.ok ? data : null;
+	const isSingleVideo = parseYouTubeTarget(target)?.kind === "video";
+
+	useEffect(() => {
+		if (fetcher.state === "idle" && fetcher.formData == null) {
+			return;
+		}
+		if (fetcher.state === "submitting") {
+			const resultRegion = document.getElementById("conversion-result");
+			if (resultRegion) {
+				resultRegion.scrollIntoView({ behavior: "smooth", block: "start" });
+			}
+		}
+	}, [fetcher.state, fetcher.formData]);
+
+	const actionDescription = useMemo(() => {
+		if (isSubmitting) {
+			return "Fetching transcripts and preparing NotebookLM source bundle.";
+		}
+		if (successPayload) {
+			return "Finished building your NotebookLM bundle.";
+		}
+		if (errorMessage) {
+			return "We ran into an issue. See the message below.";
+		}
+		return "Paste a channel, playlist or video URL and we’ll handle the rest.";
+	}, [errorMessage, isSubmitting, successPayload]);
+
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+		formData.set("jobId", progress.start());
+		fetcher.submit(formData, { method: "post" });
+	};
+
+	return (
+		<main className="min-h-screen ">
+			<script
+				type="application/ld+json"
+				suppressHydrationWarning
+				dangerouslySetInnerHTML={{ __html: YOUTUBE_JSON_LD }}
+			/>
+			<div className="mx-auto flex w-full max-w-5xl flex-col gap-12 px-4 pb-24 pt-16 sm:px-6 lg:px-8">
+				<header className="flex flex-col gap-6 rounded-sm border border-border/10">
+					<div className="flex items-center gap-3 text-sm ">
+						<Sparkles className="h-4 w-4" aria-hidden="true" />
+						<span>NotebookLM Toolkit · YouTube Transcript Source Builder</span>
+					</div>
+					<h1 className="text-balance text-4xl font-semibold leading-tight text-foreground sm:text-5xl">
+						Turn YouTube videos into NotebookLM sources.
+					</h1>
+					<p className="max-w-2xl text-lg">
+						Paste a channel, playlist or video URL and download a
+						ready-to-import zip bundle with one timestamped transcript per
+						video, split by chapter when the video has them.
+					</p>
+				</header>
+
+				<section
+					className={`grid gap-10 ${data ? "" : "lg:grid-cols-[1.2fr,0.8fr]"}`}
+				>
+					<fetcher.Form
+						method="post"
+						onSubmit={handleSubmit}
+						className="flex flex-col gap-6 rounded-md border border-border/10 bg-card p-8 backdrop-blur text-foreground"
+					>
+						<div className="flex flex-col gap-2">
+							<label
+								className="text-sm font-medium text-foreground"
+								htmlFor="target"
+							>
+								Channel, playlist or video URL
+							</label>
+							<Input
+								id="target"
+								name="target"
+								value={target}
+								onChange={(event) => setTarget(event.target.value)}
+								required
+								type="url"
+								placeholder="https://www.youtube.com/@channel"
+							/>
+						</div>
+
+						<div className="grid gap-4 sm:grid-cols-2">
+							{isSingleVideo ? null : (
+								<div className="flex flex-col gap-2">
+									<label className="text-sm font-medium" htmlFor="videoCount">
+										How many recent videos?
+									</label>
+									<Input
+										id="videoCount"
+										name="videoCount"
+										type="number"
+										min={1}
+										max={MAX_LIMIT}
+										value={videoCount}
+										onChange={(event) => setVideoCount(event.target.value)}
+									/>
+								</div>
+							)}
+							<div className="flex flex-col gap-2">
+								<label className="text-sm font-medium" htmlFor="language">
+									Caption language
+								</label>
+								<Input
+									id="language"
+									name="language"
+									value={language}
+									onChange={(event) => setLanguage(event.target.value)}
+									placeholder="en"
+									aria-describedby="language-help"
+								/>
+								<p id="language-help" className="text-sm">
+									Manual captions in this language are preferred, then
+									auto-generated ones, then any other track.
+								</p>
+							</div>
+						</div>
+
+						<LLMsTxtExportField />
+
+						<div className="flex flex-col gap-2">
+							<span className="text-sm font-medium">What happens next</span>
+							<ul className="list-disc space-y-1 pl-5 text-sm">
+								<li>Videos are listed through the public channel feed.</li>
+								<li>
+									Each caption track becomes a Markdown transcript with
+									timestamp links back to the video.
+								</li>
+								<li>You get a downloadable zip bundle ready for import.</li>
+							</ul>
+						</div>
+
+						<div className="flex flex-col gap-3">
+							<Button type="submit" disabled={isSubmitting}>
+								{isSubmitting ? (
+									<>
+										<Loader2
+											className="h-4 w-4 animate-spin"
+											aria-hidden="true"
+										/>
+										Building…
+									</>
+								) : (
+									<>
+										<Download className="h-4 w-4" aria-hidden="true" />
+										Build NotebookLM bundle
+									</>
+								)}
+							</Button>
+							<span className="text-sm" aria-live="polite">
+								{actionDescription}
+							</span>
+						</div>
+					</fetcher.Form>
+				</section>
+
+				{isSubmitting ? (
+					<section
+						className="space-y-4 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+						aria-busy="true"
+					>
+						<h2 className="text-2xl font-semibold text-white">Progress</h2>
+						<BuildProgressList items={progress.items} />
+					</section>
+				) : null}
+
+				{data ? (
+					<section
+						id="conversion-result"
+						className="space-y-6 rounded-3xl border border-white/10 bg-black/40 p-8 text-slate-100 backdrop-blur"
+						aria-live="polite"
+					>
+						<h2 className="text-2xl font-semibold text-white">
+							Conversion status
+						</h2>
+						{errorMessage ? (
+							<div className="rounded-2xl border border-red-400/60 bg-red-500/10 p-5 text-red-200">
+								<p className="font-medium">We hit a snag.</p>
+								<p className="mt-1 text-sm text-red-100">{errorMessage}</p>
+							</div>
+						) : successPayload ? (
+							<div className="space-y-5">
+								<div className="grid gap-4 rounded-2xl border border-emerald-400/60 bg-emerald-500/10 p-5 text-emerald-100 sm:grid-cols-2">
+									<div>
+										<p className="text-sm uppercase tracking-wide text-emerald-200">
+											Source
+										</p>
+										<p className="mt-1 text-lg font-semibold text-white">
+											{successPayload.feed.title}
+										</p>
+										<p className="mt-1 text-sm text-emerald-100/80">
+											{successPayload.feed.description}
+										</p>
+										{successPayload.feed.url ? (
+											<a
+												href={successPayload.feed.url}
+												target="_blank"
+												rel="noreferrer"
+												className="mt-2 inline-flex items-center gap-2 text-sm font-medium text-emerald-200 underline decoration-dotted underline-offset-4 transition hover:text-emerald-50"
+											>
+												Open on YouTube
+											</a>
+										) : null}
+									</div>
+									<div className="flex flex-col justify-between gap-3 rounded-xl bg-black/40 p-4 text-sm text-emerald-100">
+										<p>
+											Transcribed{" "}
+											<strong className="text-white">
+												{successPayload.feed.extractedEntries}
+											</strong>{" "}
+											of
+											<strong className="text-white">
+												{" "}
+												{successPayload.feed.totalEntries}
+											</strong>{" "}
+											videos.
+										</p>
+										<a
+											href={successPayload.download.url}
+											download={successPayload.download.fileName}
+											className="inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-300 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-100"
+										>
+											<Download className="h-4 w-4" aria-hidden="true" />
+											Download NotebookLM bundle
+										</a>
+										{successPayload.llmsTxt ? (
+											<LLMsTxtExportLinks exported={successPayload.llmsTxt} />
+										) : null}
+									</div>
+								</div>
+
+								<div className="space-y-3">
+									<h3 className="text-lg font-semibold text-white">
+										Included videos
+									</h3>
+									<ul className="space-y-3">
+										{successPayload.entries.map((entry) => (
+											<li
+												key={entry.id}
+												className="rounded-2xl border border-white/10 bg-white/5 p-4"
+											>
+												<div className="flex flex-col gap-2">
+													<div className="flex flex-wrap items-center justify-between gap-2">
+														<p className="text-base font-semibold text-white">
+															{entry.title}
+														</p>
+														<div className="flex items-center gap-2">
+															<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																{entry.contentSource === "transcript"
+																	? "Transcript"
+																	: "Description only"}
+															</span>
+															<span className="rounded-full bg-white/10 px-3 py-1 text-xs text-slate-200">
+																{entry.wordCount.toLocaleString()} words
+															</span>
+														</div>
+													</div>
+													<p className="text-xs uppercase tracking-wide text-slate-300">
+														{entry.publishedAt
+															? new Date(entry.publishedAt).toLocaleString()
+															: "Publish date unavailable"}
+													</p>
+													<p className="text-sm text-slate-200">
+														{entry.summary}
+														{entry.summary.length >= 320 ? "…" : ""}
+													</p>
+													{entry.fetchFailure ? (
+														<p className="text-xs text-amber-200">
+															{entry.fetchFailure.reason === "timeout"
+																? "Transcript fetch timed out"
+																: "Transcript unavailable"}
+															: {entry.fetchFailure.message}. Using the video
+															description instead.
+														</p>
+													) : null}
+													<a
+														href={entry.url}
+														target="_blank"
+														rel="noreferrer"
+														className="inline-flex w-fit items-center gap-2 text-sm font-medium text-sky-300 underline decoration-dotted underline-offset-4 transition hover:text-sky-100"
+													>
+														Watch video
+													</a>
+												</div>
+											</li>
+										))}
+									</ul>
+								</div>
+							</div>
+						) : (
+							<div className="rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-slate-200">
+								Conversion updates and the download link will appear here after
+								you start the build.
+							</div>
+						)}
+					</section>
+				) : null}
+			</div>
+		</main>
+	);
+}
@@ -0,0 +1,11 @@
+import tsconfigPaths from "vite-tsconfig-paths";
+import { defineConfig } from "vitest/config";
+
+// Tests run the server-side modules directly, without the React Router plugin.
+export default defineConfig({
+	plugins: [tsconfigPaths()],
+	test: {
+		environment: "node",
+		include: ["app/**/*.test.ts"],
+	},
+});